@@ -0,0 +1,70 @@
+import { randomUUID } from "crypto";
+import { Page } from "../db/base-repo";
+import { ValidationError } from "../errors";
+import { AuditQuery, AuditRecord, AuditSink, ChangeRecord, DecisionRecord } from "./sink";
+
+/**
+ * Options for the audit log of an AccessControl instance
+ */
+export interface AuditOptions {
+    /**
+     * Where records are written, e.g. a MemoryAuditSink, JsonLinesAuditSink or DynamoDBAuditSink
+     */
+    sink: AuditSink;
+    /**
+     * Actor recorded when none is set with `AccessControl.withActor`
+     */
+    actor?: string;
+    /**
+     * Share of `hasAccess` decisions recorded, from 0 (none, the default) to 1 (all)
+     */
+    decisionSampleRate?: number;
+}
+
+/**
+ * Writes change and decision records to an AuditSink
+ */
+export class AuditLog {
+    private sink: AuditSink;
+    private actor?: string;
+    private decisionSampleRate: number;
+
+    /**
+     * @throws ValidationError if the decision sample rate is not between 0 and 1
+     */
+    constructor(options: AuditOptions) {
+        this.sink = options.sink;
+        this.actor = options.actor;
+        this.decisionSampleRate = options.decisionSampleRate ?? 0;
+
+        if (!(this.decisionSampleRate >= 0 && this.decisionSampleRate <= 1)) {
+            throw new ValidationError(`Invalid decision sample rate: ${options.decisionSampleRate}`);
+        }
+    }
+
+    async setupTables(): Promise<void> {
+        await this.sink.setupTables?.();
+    }
+
+    async recordChange(change: Omit<ChangeRecord, 'type' | 'id' | 'timestamp'>): Promise<void> {
+        await this.sink.write({ type: 'change', ...this.stamp(), ...change, actor: change.actor ?? this.actor });
+    }
+
+    /**
+     * Records a decision if it is picked by the sample rate
+     */
+    async recordDecision(decision: Omit<DecisionRecord, 'type' | 'id' | 'timestamp'>): Promise<void> {
+        if (this.decisionSampleRate === 0 || Math.random() >= this.decisionSampleRate) {
+            return;
+        }
+        await this.sink.write({ type: 'decision', ...this.stamp(), ...decision, actor: decision.actor ?? this.actor });
+    }
+
+    async query(query: AuditQuery = {}): Promise<Page<AuditRecord>> {
+        return await this.sink.query(query);
+    }
+
+    private stamp(): { id: string; timestamp: string } {
+        return { id: randomUUID(), timestamp: new Date().toISOString() };
+    }
+}
@@ -0,0 +1,174 @@
+import { CreateTableCommand, DescribeTableCommand, DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, PutCommand, QueryCommand, ScanCommand } from "@aws-sdk/lib-dynamodb";
+import { DEFAULT_PAGE_SIZE, Page } from "../db/base-repo";
+import { RbacError, RepositoryUnavailableError, ValidationError, toRepositoryError } from "../errors";
+import { AuditQuery, AuditRecord, AuditSink } from "./sink";
+
+/**
+ * Options for a DynamoDBAuditSink
+ */
+export interface DynamoDBAuditSinkOptions {
+    /**
+     * Table holding the records (defaults to the AUDIT_TABLE_NAME environment variable or "Access-Control-Audit")
+     */
+    tableName?: string;
+}
+
+/**
+ * AuditSink storing records in their own DynamoDB table, created by `setupTables`
+ *
+ * Records are partitioned by the changed entity (`CHANGE#<type>#<id>`) or by the user
+ * of a decision (`DECISION#<id>`) and sorted by timestamp within it. Queries for one
+ * entity's changes or one user's decisions read that partition in chronological order,
+ * only within the `from`/`to` range; any other query scans the table, in no particular
+ * order. Other criteria, and every criterion of a scan, are applied after reading `limit`
+ * items, so a page can hold fewer records than the limit, or none, and still have a
+ * `nextCursor`.
+ */
+export class DynamoDBAuditSink implements AuditSink {
+    private docClient: DynamoDBDocumentClient;
+    private tableName: string;
+
+    constructor(private client: DynamoDBClient, options: DynamoDBAuditSinkOptions = {}) {
+        this.docClient = DynamoDBDocumentClient.from(client, { marshallOptions: { removeUndefinedValues: true } });
+        this.tableName = options.tableName || process.env.AUDIT_TABLE_NAME || 'Access-Control-Audit';
+    }
+
+    async setupTables(): Promise<void> {
+        try {
+            await this.client.send(new DescribeTableCommand({ TableName: this.tableName }));
+        } catch (err: any) {
+            if (err.name !== "ResourceNotFoundException") {
+                throw err instanceof RbacError
+                    ? err
+                    : new RepositoryUnavailableError(`Failed to describe table ${this.tableName}: ${err.message}`, undefined, { cause: err });
+            }
+
+            await this.execute(() => this.client.send(new CreateTableCommand({
+                TableName: this.tableName,
+                KeySchema: [
+                    { AttributeName: "PK", KeyType: "HASH" },
+                    { AttributeName: "SK", KeyType: "RANGE" }
+                ],
+                AttributeDefinitions: [
+                    { AttributeName: "PK", AttributeType: "S" },
+                    { AttributeName: "SK", AttributeType: "S" }
+                ],
+                BillingMode: "PAY_PER_REQUEST"
+            })));
+        }
+    }
+
+    async write(record: AuditRecord): Promise<void> {
+        await this.execute(() => this.docClient.send(new PutCommand({
+            TableName: this.tableName,
+            Item: {
+                PK: record.type === 'change' ? `CHANGE#${record.entityType}#${record.entityId}` : `DECISION#${record.userId}`,
+                SK: `${record.timestamp}#${record.id}`,
+                ...record
+            }
+        })));
+    }
+
+    async query(query: AuditQuery = {}): Promise<Page<AuditRecord>> {
+        const names: Record<string, string> = {};
+        const values: Record<string, any> = {};
+        const filters: string[] = [];
+        const filter = (attribute: string, operator: string, value: string | undefined) => {
+            if (value !== undefined) {
+                const placeholder = `:v${filters.length}`;
+                names[`#${attribute}`] = attribute;
+                values[placeholder] = value;
+                filters.push(`#${attribute} ${operator} ${placeholder}`);
+            }
+        };
+
+        for (const attribute of ['type', 'actor', 'operation', 'entityType', 'entityId', 'userId'] as const) {
+            filter(attribute, '=', query[attribute]);
+        }
+
+        const partition = this.partitionOf(query);
+        if (!partition) {
+            filter('timestamp', '>=', query.from);
+            filter('timestamp', '<', query.to);
+        }
+        const page = {
+            TableName: this.tableName,
+            FilterExpression: filters.length > 0 ? filters.join(" AND ") : undefined,
+            ExpressionAttributeNames: Object.keys(names).length > 0 ? names : undefined,
+            Limit: query.limit || DEFAULT_PAGE_SIZE,
+            ExclusiveStartKey: query.cursor ? decodeCursor(query.cursor) : undefined
+        };
+
+        const result = partition
+            ? await this.execute(() => this.docClient.send(new QueryCommand({
+                ...page,
+                KeyConditionExpression: keyCondition(query),
+                ExpressionAttributeValues: {
+                    ...values,
+                    ":partition": partition,
+                    ...(query.from !== undefined ? { ":from": query.from } : {}),
+                    ...(query.to !== undefined ? { ":to": query.to } : {})
+                }
+            })))
+            : await this.execute(() => this.docClient.send(new ScanCommand({
+                ...page,
+                ExpressionAttributeValues: Object.keys(values).length > 0 ? values : undefined
+            })));
+
+        return {
+            items: (result.Items || []).map(toAuditRecord),
+            nextCursor: result.LastEvaluatedKey ? encodeCursor(result.LastEvaluatedKey) : undefined
+        };
+    }
+
+    /**
+     * Returns the partition holding every record matching the query, if there is one
+     */
+    private partitionOf(query: AuditQuery): string | undefined {
+        // Only change records have an entity and only decision records have a user
+        if (query.userId !== undefined) {
+            return query.entityType === undefined && query.entityId === undefined ? `DECISION#${query.userId}` : undefined;
+        }
+        return query.entityType !== undefined && query.entityId !== undefined
+            ? `CHANGE#${query.entityType}#${query.entityId}`
+            : undefined;
+    }
+
+    private async execute<R>(request: () => Promise<R>): Promise<R> {
+        try {
+            return await request();
+        } catch (err) {
+            throw toRepositoryError(err);
+        }
+    }
+}
+
+/**
+ * Returns the key condition reading the records of a partition within the time range of a query
+ *
+ * Sort keys are `<timestamp>#<id>`, so they sort after a `from` or `to` equal to their
+ * timestamp: records at `from` are included and records at `to` are not.
+ */
+const keyCondition = ({ from, to }: AuditQuery): string => {
+    if (from !== undefined && to !== undefined) {
+        return "PK = :partition AND SK BETWEEN :from AND :to";
+    }
+    if (from !== undefined) {
+        return "PK = :partition AND SK >= :from";
+    }
+    return to !== undefined ? "PK = :partition AND SK < :to" : "PK = :partition";
+};
+
+const toAuditRecord = ({ PK, SK, ...record }: Record<string, any>): AuditRecord => record as AuditRecord;
+
+const encodeCursor = (key: Record<string, any>): string =>
+    Buffer.from(JSON.stringify(key)).toString("base64");
+
+const decodeCursor = (cursor: string): Record<string, any> => {
+    try {
+        return JSON.parse(Buffer.from(cursor, "base64").toString("utf8"));
+    } catch (err) {
+        throw new ValidationError(`Invalid cursor: ${cursor}`, undefined, { cause: err });
+    }
+};
@@ -0,0 +1,196 @@
+import { promises as fs } from "fs";
+import { DEFAULT_PAGE_SIZE, Page } from "../db/base-repo";
+import { EntityType, ValidationError, toRepositoryError } from "../errors";
+import { Group, Policy, Role, User } from "../models";
+
+/**
+ * AccessControl methods that change users, roles, policies or groups
+ */
+export type AuditOperation =
+    | 'createUser' | 'updateUser' | 'deleteUser'
+    | 'createRole' | 'updateRole' | 'deleteRole'
+    | 'createPolicy' | 'updatePolicy' | 'deletePolicy'
+    | 'createGroup' | 'updateGroup' | 'deleteGroup'
+    | 'assignRoleToUser' | 'removeRoleFromUser'
+    | 'attachPolicyToUser' | 'detachPolicyFromUser'
+    | 'attachPolicyToRole' | 'detachPolicyFromRole'
+    | 'addParentRole' | 'removeParentRole'
+    | 'addUserToGroup' | 'removeUserFromGroup'
+    | 'assignRoleToGroup' | 'removeRoleFromGroup'
+    | 'attachPolicyToGroup' | 'detachPolicyFromGroup';
+
+/**
+ * Fields shared by every audit record
+ */
+interface AuditRecordBase {
+    id: string;
+    /** ISO 8601 time the record was written */
+    timestamp: string;
+    /** Who made the change or asked for the decision, as set with `AccessControl.withActor` or the `actor` option */
+    actor?: string;
+}
+
+/**
+ * A change made through AccessControl
+ *
+ * `before` and `after` are snapshots of the changed entity; `before` is missing for
+ * created entities and `after` for deleted ones. For changes such as `assignRoleToUser`,
+ * the entity is the one storing the assignment and `details` holds the other IDs.
+ */
+export interface ChangeRecord extends AuditRecordBase {
+    type: 'change';
+    operation: AuditOperation;
+    entityType: EntityType;
+    entityId: string;
+    details?: Record<string, any>;
+    before?: User | Role | Policy | Group;
+    after?: User | Role | Policy | Group;
+}
+
+/**
+ * An access decision made by `AccessControl.hasAccess`
+ */
+export interface DecisionRecord extends AuditRecordBase {
+    type: 'decision';
+    userId: string;
+    action: string;
+    resource: string;
+    context: Record<string, any>;
+    allowed: boolean;
+}
+
+export type AuditRecord = ChangeRecord | DecisionRecord;
+
+/**
+ * Criteria for reading audit records back; every given criterion must match
+ */
+export interface AuditQuery {
+    type?: AuditRecord['type'];
+    actor?: string;
+    operation?: AuditOperation;
+    /** Entity of change records */
+    entityType?: EntityType;
+    entityId?: string;
+    /** User of decision records */
+    userId?: string;
+    /** Earliest timestamp, inclusive (ISO 8601) */
+    from?: string;
+    /** Latest timestamp, exclusive (ISO 8601) */
+    to?: string;
+    /** Maximum number of records to return (defaults to DEFAULT_PAGE_SIZE) */
+    limit?: number;
+    /** Cursor returned as `nextCursor` by the previous page */
+    cursor?: string;
+}
+
+/**
+ * Stores audit records and reads them back
+ *
+ * Implement it to keep the audit log elsewhere, e.g. in a log pipeline or a database.
+ */
+export interface AuditSink {
+    /**
+     * Creates the tables the sink needs; called by `AccessControl.init`
+     */
+    setupTables?(): Promise<void>;
+    write(record: AuditRecord): Promise<void>;
+    /**
+     * Returns one page of the records matching the query
+     */
+    query(query?: AuditQuery): Promise<Page<AuditRecord>>;
+}
+
+/**
+ * AuditSink keeping records in the memory of the current process, for tests and local development
+ * Records are returned in the order they were written
+ */
+export class MemoryAuditSink implements AuditSink {
+    private records: AuditRecord[] = [];
+
+    async write(record: AuditRecord): Promise<void> {
+        this.records.push(clone(record));
+    }
+
+    async query(query: AuditQuery = {}): Promise<Page<AuditRecord>> {
+        return pageRecords(this.records.map(clone), query);
+    }
+}
+
+/**
+ * AuditSink appending records to a file with one JSON object per line
+ *
+ * Writes are appended in the order they were made. Queries read the whole file, so
+ * rotate it with your log tooling once it grows large.
+ */
+export class JsonLinesAuditSink implements AuditSink {
+    private pending: Promise<void> = Promise.resolve();
+
+    /**
+     * @param path - File to append to; it is created by the first write
+     */
+    constructor(private path: string) {}
+
+    async write(record: AuditRecord): Promise<void> {
+        const write = this.pending.then(() => fs.appendFile(this.path, `${JSON.stringify(record)}\n`, "utf8"));
+        this.pending = write.catch(() => undefined);
+
+        try {
+            await write;
+        } catch (err) {
+            throw toRepositoryError(err, record.id);
+        }
+    }
+
+    async query(query: AuditQuery = {}): Promise<Page<AuditRecord>> {
+        await this.pending;
+
+        let contents: string;
+        try {
+            contents = await fs.readFile(this.path, "utf8");
+        } catch (err: any) {
+            if (err?.code === "ENOENT") {
+                return { items: [] };
+            }
+            throw toRepositoryError(err);
+        }
+
+        const records = contents.split("\n").filter(line => line.trim()).map(line => JSON.parse(line) as AuditRecord);
+        return pageRecords(records, query);
+    }
+}
+
+/**
+ * Checks if a record matches every criterion of a query except the page options
+ */
+export const matchesAuditQuery = (record: AuditRecord, query: AuditQuery): boolean =>
+    (query.type === undefined || record.type === query.type) &&
+    (query.actor === undefined || record.actor === query.actor) &&
+    (query.operation === undefined || (record.type === 'change' && record.operation === query.operation)) &&
+    (query.entityType === undefined || (record.type === 'change' && record.entityType === query.entityType)) &&
+    (query.entityId === undefined || (record.type === 'change' && record.entityId === query.entityId)) &&
+    (query.userId === undefined || (record.type === 'decision' && record.userId === query.userId)) &&
+    (query.from === undefined || record.timestamp >= query.from) &&
+    (query.to === undefined || record.timestamp < query.to);
+
+/**
+ * Returns one page of the records matching a query, using the position of the next record as the cursor
+ */
+const pageRecords = (records: AuditRecord[], query: AuditQuery): Page<AuditRecord> => {
+    const start = query.cursor === undefined ? 0 : Number(query.cursor);
+    if (!Number.isInteger(start) || start < 0) {
+        throw new ValidationError(`Invalid cursor: ${query.cursor}`);
+    }
+
+    const limit = query.limit || DEFAULT_PAGE_SIZE;
+    const items: AuditRecord[] = [];
+    let position = start;
+    for (; position < records.length && items.length < limit; position++) {
+        if (matchesAuditQuery(records[position], query)) {
+            items.push(records[position]);
+        }
+    }
+
+    return { items, nextCursor: position < records.length ? String(position) : undefined };
+};
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
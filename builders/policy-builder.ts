@@ -1,4 +1,4 @@
-import { Policy, PolicyDocument, PolicyStatement } from '../models';
+import { Condition, Policy, PolicyDocument, PolicyStatement, Weekday } from '../models';
 import { StatementBuilder } from './statement-builder';
 import { BuilderValidationError, BuilderValidationResult } from './types';
 
@@ -86,6 +86,32 @@ export class PolicyBuilder {
         return this;
     }
 
+    /**
+     * Sets the effect to Allow for every action except the given ones (NotAction)
+     * Creates a simple statement (cannot be used with statement() method)
+     * 
+     * @param actions - Array of actions to exclude
+     * @returns This builder instance for method chaining
+     */
+    allowAllExcept(actions: string[]): this {
+        this.ensureSimpleStatementMode();
+        this.simpleStatementBuilder!.allowAllExcept(actions);
+        return this;
+    }
+
+    /**
+     * Sets the effect to Deny for every action except the given ones (NotAction)
+     * Creates a simple statement (cannot be used with statement() method)
+     * 
+     * @param actions - Array of actions to exclude
+     * @returns This builder instance for method chaining
+     */
+    denyAllExcept(actions: string[]): this {
+        this.ensureSimpleStatementMode();
+        this.simpleStatementBuilder!.denyAllExcept(actions);
+        return this;
+    }
+
     /**
      * Specifies the resources this policy applies to
      * Used for simple statement mode
@@ -99,14 +125,28 @@ export class PolicyBuilder {
         return this;
     }
 
+    /**
+     * Applies this policy to every resource except the given ones (NotResource)
+     * Used for simple statement mode
+     * 
+     * @param resources - Array of resource patterns to exclude
+     * @returns This builder instance for method chaining
+     */
+    onAllExcept(resources: string[]): this {
+        this.ensureSimpleStatementMode();
+        this.simpleStatementBuilder!.onAllExcept(resources);
+        return this;
+    }
+
     /**
      * Adds conditions to this policy
      * Used for simple statement mode
      * 
-     * @param conditions - Object containing condition key-value pairs
+     * @param conditions - Object containing condition key-value pairs or operator blocks
+     * such as `{ NumericLessThan: { amount: 1000 } }`
      * @returns This builder instance for method chaining
      */
-    when(conditions: Record<string, any>): this {
+    when(conditions: Condition): this {
         this.ensureSimpleStatementMode();
         this.simpleStatementBuilder!.when(conditions);
         return this;
@@ -138,6 +178,48 @@ export class PolicyBuilder {
         return this;
     }
 
+    /**
+     * Adds a recurring weekly window during which this policy applies
+     * Used for simple statement mode
+     * 
+     * @param days - Days on which the window starts
+     * @param startTime - Local start time in HH:MM format
+     * @param endTime - Local end time in HH:MM format, or 24:00 for the end of the day;
+     * if it is before the start time, the window ends on the next day
+     * @returns This builder instance for method chaining
+     */
+    duringHours(days: Weekday[], startTime: string, endTime: string): this {
+        this.ensureSimpleStatementMode();
+        this.simpleStatementBuilder!.duringHours(days, startTime, endTime);
+        return this;
+    }
+
+    /**
+     * Sets the time zone of the windows added with duringHours() and the dates of exceptOn()
+     * Used for simple statement mode
+     * 
+     * @param timeZone - IANA time zone name such as 'Europe/Berlin' (defaults to UTC)
+     * @returns This builder instance for method chaining
+     */
+    inTimeZone(timeZone: string): this {
+        this.ensureSimpleStatementMode();
+        this.simpleStatementBuilder!.inTimeZone(timeZone);
+        return this;
+    }
+
+    /**
+     * Sets local dates on which no window added with duringHours() starts
+     * Used for simple statement mode
+     * 
+     * @param dates - Dates in YYYY-MM-DD format
+     * @returns This builder instance for method chaining
+     */
+    exceptOn(dates: string[]): this {
+        this.ensureSimpleStatementMode();
+        this.simpleStatementBuilder!.exceptOn(dates);
+        return this;
+    }
+
     /**
      * Adds a complete statement to this policy
      * Used for complex policies with multiple statements
@@ -1,4 +1,6 @@
-import { PolicyStatement, Effect } from '../models';
+import { PolicyStatement, Effect, Condition, Schedule, ScheduleWindow, Weekday } from '../models';
+import { validateCondition } from '../policy/conditions';
+import { validateSchedule } from '../policy/schedule';
 import { BuilderValidationError, BuilderValidationResult } from './types';
 
 /**
@@ -20,14 +22,36 @@ import { BuilderValidationError, BuilderValidationResult } from './types';
  *   .deny(['delete'])
  *   .on(['document/confidential/*'])
  *   .build();
+ * 
+ * @example
+ * // Allow deployments during Berlin business hours, except on public holidays
+ * const statement = new StatementBuilder()
+ *   .allow(['deploy'])
+ *   .on(['service/*'])
+ *   .duringHours(['Mon', 'Tue', 'Wed', 'Thu', 'Fri'], '09:00', '18:00')
+ *   .inTimeZone('Europe/Berlin')
+ *   .exceptOn(['2025-12-25', '2025-12-26'])
+ *   .build();
+ * 
+ * @example
+ * // Deny everything except read on every resource outside billing/*
+ * const statement = new StatementBuilder()
+ *   .denyAllExcept(['read'])
+ *   .onAllExcept(['billing/*'])
+ *   .build();
  */
 export class StatementBuilder {
     private effect?: Effect;
     private actions: string[] = [];
+    private notActions?: string[];
     private resources: string[] = [];
-    private conditions?: Record<string, any>;
+    private notResources?: string[];
+    private conditions?: Condition;
     private startDate?: string;
     private endDate?: string;
+    private scheduleWindows: ScheduleWindow[] = [];
+    private timeZone?: string;
+    private exceptDates?: string[];
 
     /**
      * Sets the effect to Allow and specifies the actions to allow
@@ -53,6 +77,30 @@ export class StatementBuilder {
         return this;
     }
 
+    /**
+     * Sets the effect to Allow for every action except the given ones (NotAction)
+     * 
+     * @param actions - Array of actions to exclude
+     * @returns This builder instance for method chaining
+     */
+    allowAllExcept(actions: string[]): this {
+        this.effect = Effect.Allow;
+        this.notActions = [...actions];
+        return this;
+    }
+
+    /**
+     * Sets the effect to Deny for every action except the given ones (NotAction)
+     * 
+     * @param actions - Array of actions to exclude
+     * @returns This builder instance for method chaining
+     */
+    denyAllExcept(actions: string[]): this {
+        this.effect = Effect.Deny;
+        this.notActions = [...actions];
+        return this;
+    }
+
     /**
      * Specifies the resources this statement applies to
      * 
@@ -64,13 +112,25 @@ export class StatementBuilder {
         return this;
     }
 
+    /**
+     * Applies this statement to every resource except the given ones (NotResource)
+     * 
+     * @param resources - Array of resource patterns to exclude
+     * @returns This builder instance for method chaining
+     */
+    onAllExcept(resources: string[]): this {
+        this.notResources = [...resources];
+        return this;
+    }
+
     /**
      * Adds conditions to this statement
      * 
-     * @param conditions - Object containing condition key-value pairs
+     * @param conditions - Object containing condition key-value pairs or operator blocks
+     * such as `{ NumericLessThan: { amount: 1000 } }`
      * @returns This builder instance for method chaining
      */
-    when(conditions: Record<string, any>): this {
+    when(conditions: Condition): this {
         this.conditions = { ...conditions };
         return this;
     }
@@ -97,6 +157,63 @@ export class StatementBuilder {
         return this;
     }
 
+    /**
+     * Adds a recurring weekly window during which this statement applies
+     * Can be called several times; the statement applies during any of the windows
+     * 
+     * @param days - Days on which the window starts
+     * @param startTime - Local start time in HH:MM format
+     * @param endTime - Local end time in HH:MM format, or 24:00 for the end of the day;
+     * if it is before the start time, the window ends on the next day
+     * @returns This builder instance for method chaining
+     */
+    duringHours(days: Weekday[], startTime: string, endTime: string): this {
+        this.scheduleWindows.push({ Days: [...days], StartTime: startTime, EndTime: endTime });
+        return this;
+    }
+
+    /**
+     * Sets the time zone of the windows added with duringHours() and the dates of exceptOn()
+     * 
+     * @param timeZone - IANA time zone name such as 'Europe/Berlin' (defaults to UTC)
+     * @returns This builder instance for method chaining
+     */
+    inTimeZone(timeZone: string): this {
+        this.timeZone = timeZone;
+        return this;
+    }
+
+    /**
+     * Sets local dates on which no window added with duringHours() starts, e.g. public holidays
+     * 
+     * @param dates - Dates in YYYY-MM-DD format
+     * @returns This builder instance for method chaining
+     */
+    exceptOn(dates: string[]): this {
+        this.exceptDates = [...dates];
+        return this;
+    }
+
+    /**
+     * Returns the schedule set with duringHours(), inTimeZone() and exceptOn(), if any
+     */
+    private getSchedule(): Schedule | undefined {
+        if (this.scheduleWindows.length === 0 && this.timeZone === undefined && this.exceptDates === undefined) {
+            return undefined;
+        }
+
+        const schedule: Schedule = {
+            Windows: this.scheduleWindows.map(window => ({ ...window, Days: [...window.Days] }))
+        };
+        if (this.timeZone !== undefined) {
+            schedule.TimeZone = this.timeZone;
+        }
+        if (this.exceptDates !== undefined) {
+            schedule.ExceptDates = [...this.exceptDates];
+        }
+        return schedule;
+    }
+
     /**
      * Validates the current builder state
      * 
@@ -110,24 +227,33 @@ export class StatementBuilder {
             errors.push('Effect must be set using either allow() or deny()');
         }
 
-        if (this.actions.length === 0) {
+        if (this.actions.length > 0 && this.notActions) {
+            errors.push('Cannot specify both Action and NotAction in one statement');
+        } else if (this.actions.length === 0 && !this.notActions?.length) {
             errors.push('At least one action must be specified');
         }
 
-        if (this.resources.length === 0) {
-            errors.push('At least one resource must be specified using on()');
+        if (this.resources.length > 0 && this.notResources) {
+            errors.push('Cannot specify both Resource and NotResource in one statement');
+        } else if (this.resources.length === 0 && !this.notResources?.length) {
+            errors.push('At least one resource must be specified using on() or onAllExcept()');
         }
 
         // Validate actions are non-empty strings
-        if (this.actions.some(action => !action || typeof action !== 'string')) {
+        if ([...this.actions, ...(this.notActions || [])].some(action => !action || typeof action !== 'string')) {
             errors.push('All actions must be non-empty strings');
         }
 
         // Validate resources are non-empty strings
-        if (this.resources.some(resource => !resource || typeof resource !== 'string')) {
+        if ([...this.resources, ...(this.notResources || [])].some(resource => !resource || typeof resource !== 'string')) {
             errors.push('All resources must be non-empty strings');
         }
 
+        // Validate condition operators and operand types if provided
+        if (this.conditions) {
+            errors.push(...validateCondition(this.conditions));
+        }
+
         // Validate date formats if provided
         if (this.startDate) {
             const startDate = new Date(this.startDate);
@@ -152,6 +278,12 @@ export class StatementBuilder {
             }
         }
 
+        // Validate the schedule if provided
+        const schedule = this.getSchedule();
+        if (schedule) {
+            errors.push(...validateSchedule(schedule));
+        }
+
         return {
             isValid: errors.length === 0,
             errors
@@ -176,11 +308,21 @@ export class StatementBuilder {
         }
 
         const statement: PolicyStatement = {
-            Effect: this.effect!,
-            Action: [...this.actions],
-            Resource: [...this.resources]
+            Effect: this.effect!
         };
 
+        if (this.notActions) {
+            statement.NotAction = [...this.notActions];
+        } else {
+            statement.Action = [...this.actions];
+        }
+
+        if (this.notResources) {
+            statement.NotResource = [...this.notResources];
+        } else {
+            statement.Resource = [...this.resources];
+        }
+
         // Add optional fields if they exist
         if (this.conditions) {
             statement.Condition = { ...this.conditions };
@@ -194,6 +336,11 @@ export class StatementBuilder {
             statement.EndDate = this.endDate;
         }
 
+        const schedule = this.getSchedule();
+        if (schedule) {
+            statement.Schedule = schedule;
+        }
+
         return statement;
     }
 }
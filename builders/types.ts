@@ -1,11 +1,12 @@
 /**
  * Type definitions and interfaces specific to the builder pattern implementation
  */
+import { ValidationError } from '../errors';
 
 /**
  * Error thrown when builder validation fails
  */
-export class BuilderValidationError extends Error {
+export class BuilderValidationError extends ValidationError {
     constructor(message: string, public errors: string[] = []) {
         super(message);
         this.name = 'BuilderValidationError';
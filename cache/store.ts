@@ -0,0 +1,99 @@
+/**
+ * Key-value stores used by CachedRepository
+ * @module cache
+ */
+
+/**
+ * Stores cached values as strings with a time to live
+ *
+ * Implement it to share the cache between processes, e.g. with Redis:
+ *
+ * @example
+ * import { createClient } from "redis";
+ *
+ * const redis = createClient({ url: "redis://localhost:6379" });
+ * await redis.connect();
+ *
+ * const store: CacheStore = {
+ *     get: async key => (await redis.get(key)) ?? undefined,
+ *     set: async (key, value, ttl) => { await redis.set(key, value, ttl ? { PX: ttl } : {}); },
+ *     delete: async keys => { if (keys.length > 0) await redis.del(keys); }
+ * };
+ */
+export interface CacheStore {
+    /**
+     * Returns the value stored under a key, or undefined if it is missing or expired
+     */
+    get(key: string): Promise<string | undefined>;
+    /**
+     * Stores a value, replacing any previous one
+     * @param ttl - Milliseconds until the value expires; it does not expire if omitted
+     */
+    set(key: string, value: string, ttl?: number): Promise<void>;
+    /**
+     * Removes values, ignoring keys that are not stored
+     */
+    delete(keys: string[]): Promise<void>;
+}
+
+/**
+ * Options for a MemoryCacheStore
+ */
+export interface MemoryCacheStoreOptions {
+    /**
+     * Maximum number of values kept; the least recently used value is evicted beyond it (defaults to 10000)
+     */
+    maxEntries?: number;
+}
+
+/**
+ * CacheStore keeping values in the memory of the current process
+ *
+ * Values expire after their TTL and the least recently used values are evicted once
+ * `maxEntries` is reached. Each process has its own cache, so changes made by other
+ * processes are only seen once the values expire.
+ */
+export class MemoryCacheStore implements CacheStore {
+    private entries = new Map<string, { value: string; expiresAt: number }>();
+    private maxEntries: number;
+
+    constructor(options: MemoryCacheStoreOptions = {}) {
+        this.maxEntries = options.maxEntries ?? 10000;
+    }
+
+    async get(key: string): Promise<string | undefined> {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+        if (entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+
+        // Map iteration follows insertion order, so reinserting marks the entry as recently used
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return entry.value;
+    }
+
+    async set(key: string, value: string, ttl?: number): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, { value, expiresAt: ttl === undefined ? Infinity : Date.now() + ttl });
+
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+
+    async delete(keys: string[]): Promise<void> {
+        keys.forEach(key => this.entries.delete(key));
+    }
+
+    /**
+     * Number of values currently held, including expired values not yet removed
+     */
+    get size(): number {
+        return this.entries.size;
+    }
+}
@@ -1,7 +1,15 @@
-import {User, Role, Policy} from "./models";
-import {IBaseRepository} from "./db/base-repo";
-import { evaluate } from "./policy/evaluator";
+import {User, Role, Policy, Group, ValidityWindow} from "./models";
+import {DeleteOptions, EffectivePolicies, IBaseRepository, ListOptions, Page} from "./db/base-repo";
+import { collectStatementActions, evaluate, explain } from "./policy/evaluator";
+import { AccessDecision, AccessRequest, AttachedPolicy, PolicySource, ResourceFilter } from "./policy/types";
+import { partialEvaluate } from "./policy/resource-filter";
 import { createRepository } from "./db/factory";
+import { CacheOptions, CachedRepository } from "./db/cached-repo";
+import { EntityNotFoundError, EntityType, ValidationError } from "./errors";
+import { AuditLog, AuditOptions } from "./audit/audit-log";
+import { AuditOperation, AuditQuery, AuditRecord } from "./audit/sink";
+import { AccessControlEvents, AssignmentTarget, HookRegistry, VetoableEvent } from "./events/hooks";
+import { ValidityMap, isAssignmentActive, isAssignmentExpired, normalizeValidityWindow } from "./db/validity";
 import { PolicyBuilder } from "./builders";
 
 /**
@@ -12,6 +20,34 @@ import { PolicyBuilder } from "./builders";
  */
 type RepositoryConstructor<T> = new (client: T) => IBaseRepository;
 
+/**
+ * Options for an AccessControl instance
+ */
+export interface AccessControlOptions {
+    /**
+     * Caches users, roles, groups, policies and optionally `hasAccess` decisions
+     * in front of the repository; see CachedRepository
+     */
+    cache?: CacheOptions;
+    /**
+     * Records every change made through AccessControl, and optionally a sample of
+     * `hasAccess` decisions, in an audit sink; see AuditOptions
+     */
+    audit?: AuditOptions;
+}
+
+/**
+ * A time-limited role assignment or policy attachment removed by `removeExpiredAssignments`
+ */
+export interface ExpiredAssignment {
+    type: 'role' | 'policy';
+    /** ID of the role or policy */
+    id: string;
+    /** The user or role it was assigned or attached to */
+    target: AssignmentTarget;
+    validity: ValidityWindow;
+}
+
 /**
  * AccessControl provides role-based access control functionality with policy evaluation
  * for managing permissions across an application.
@@ -31,13 +67,25 @@ type RepositoryConstructor<T> = new (client: T) => IBaseRepository;
  * const accessControl = new AccessControl(dynamoClient, DynamoDBRepository);
  */
 export class AccessControl<T> {
+    /**
+     * Hooks run before changes, which can veto them, and after changes and access decisions
+     * 
+     * @example
+     * accessControl.hooks.after('policyUpdated', ({ policy }) => notify(`Policy ${policy.id} changed`));
+     */
+    readonly hooks = new HookRegistry();
     private repository: IBaseRepository;
+    private cache?: CachedRepository;
+    private actionCatalog = new Set<string>();
+    private audit?: AuditLog;
+    private actor?: string;
 
     /**
      * Creates a new AccessControl instance
      * 
      * @param {T} client - The database client or connection information to use for persistence
      * @param {RepositoryConstructor<T>} repositoryConstructor - Constructor for the repository implementation
+     * @param {AccessControlOptions} options - Optional settings, such as caching
      * @example
      * // Using with DynamoDB repository
      * import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
@@ -53,18 +101,77 @@ export class AccessControl<T> {
      * 
      * const pgPool = new Pool(pgConfig);
      * const accessControl = new AccessControl(pgPool, PostgresRepository);
+     * 
+     * @example
+     * // Caching entities for a minute and decisions for five seconds
+     * const accessControl = new AccessControl(dynamoClient, DynamoDBRepository, {
+     *   cache: { ttl: 60000, decisionTtl: 5000 }
+     * });
+     * 
+     * @example
+     * // Auditing every change and 1% of access decisions
+     * const accessControl = new AccessControl(dynamoClient, DynamoDBRepository, {
+     *   audit: { sink: new DynamoDBAuditSink(dynamoClient), decisionSampleRate: 0.01 }
+     * });
      */
-    constructor(client: T, repositoryConstructor: RepositoryConstructor<T>) {
+    constructor(client: T, repositoryConstructor: RepositoryConstructor<T>, options: AccessControlOptions = {}) {
         this.repository = createRepository(client, repositoryConstructor);
+
+        if (options.cache) {
+            this.cache = new CachedRepository(this.repository, options.cache);
+            this.repository = this.cache;
+        }
+
+        if (options.audit) {
+            this.audit = new AuditLog(options.audit);
+        }
     }
 
     /**
-     * Initializes the access control system by setting up required database tables
+     * Initializes the access control system by setting up required database tables,
+     * including those of the audit sink
      * 
      * @returns Promise that resolves when initialization is complete
      */
     async init(): Promise<void> {
         await this.repository.setupTables();
+        await this.audit?.setupTables();
+    }
+
+    /**
+     * Returns a view of this instance that records the given actor in the audit log
+     * 
+     * The view shares the repository, cache, audit log and action catalog, so it is
+     * cheap to create one per request.
+     * 
+     * @param actor - Who makes the changes or asks for the decisions, e.g. the ID of the signed-in administrator
+     * @returns An AccessControl recording `actor` in every audit record
+     * 
+     * @example
+     * await accessControl.withActor(req.user.id).assignRoleToUser('alice', 'editor');
+     */
+    withActor(actor: string): AccessControl<T> {
+        const scoped: AccessControl<T> = Object.create(this);
+        scoped.actor = actor;
+        return scoped;
+    }
+
+    /**
+     * Reads records back from the audit log
+     * 
+     * @param query - Criteria the records must match, and the page to return
+     * @returns Promise containing one page of matching records
+     * @throws ValidationError if no audit sink is configured
+     * 
+     * @example
+     * // Every change to the editor role
+     * const { items } = await accessControl.queryAuditLog({ entityType: 'Role', entityId: 'editor' });
+     */
+    async queryAuditLog(query: AuditQuery = {}): Promise<Page<AuditRecord>> {
+        if (!this.audit) {
+            throw new ValidationError('Audit logging is not configured; pass the audit option to AccessControl');
+        }
+        return await this.audit.query(query);
     }
 
     /**
@@ -74,7 +181,9 @@ export class AccessControl<T> {
      * @returns Promise containing the created user with generated ID
      */
     async createUser(user: User): Promise<User> {
-        return await this.repository.createUser(user);
+        return await this.withHooks('userCreated', { user }, () =>
+            this.audited('createUser', { entityType: 'User', entityId: user.id }, () =>
+                this.repository.createUser(user)));
     }
 
     /**
@@ -82,20 +191,39 @@ export class AccessControl<T> {
      * 
      * @param role - Role object containing role details
      * @returns Promise containing the created role with generated ID
+     * @throws ValidationError if one of the role's parent roles would create a cycle
      */
     async createRole(role: Role): Promise<Role> {
-        return await this.repository.createRole(role);
+        await this.checkParentRoles(role.id, role.parentRoles || []);
+
+        return await this.audited('createRole', { entityType: 'Role', entityId: role.id }, () =>
+            this.repository.createRole(role));
     }
 
     /**
-     * Assigns an existing role to an existing user
+     * Assigns an existing role to an existing user, optionally for a limited time
+     * 
+     * Outside its validity window the assignment is ignored by `hasAccess`. Assigning
+     * a role again replaces the window, and assigning it without one makes it permanent.
      * 
      * @param userId - ID of the user
      * @param roleId - ID of the role to assign
+     * @param validity - Optional period during which the assignment applies
      * @returns Promise containing the updated user with new role assignment
+     * @throws ValidationError if the validity window is invalid
+     * 
+     * @example
+     * // Grant the on-call role for one week
+     * await accessControl.assignRoleToUser('alice', 'on-call', {
+     *   startDate: '2026-03-02T00:00:00Z',
+     *   endDate: '2026-03-09T00:00:00Z'
+     * });
      */
-    async assignRoleToUser(userId: string, roleId: string): Promise<User> {
-        return await this.repository.assignRoleToUser(userId, roleId);
+    async assignRoleToUser(userId: string, roleId: string, validity?: ValidityWindow): Promise<User> {
+        const window = validity && normalizeValidityWindow(validity);
+        return await this.withHooks('roleAssigned', { roleId, target: { type: 'user', id: userId }, validity: window }, () =>
+            this.audited('assignRoleToUser', { entityType: 'User', entityId: userId, details: { roleId, validity: window } }, () =>
+                this.repository.assignRoleToUser(userId, roleId, window)));
     }
 
     /**
@@ -125,29 +253,86 @@ export class AccessControl<T> {
      */
     async createPolicy(policy: Policy | PolicyBuilder): Promise<Policy> {
         const policyObject = policy instanceof PolicyBuilder ? policy.build() : policy;
-        return await this.repository.createPolicy(policyObject);
+        return await this.audited('createPolicy', { entityType: 'Policy', entityId: policyObject.id }, () =>
+            this.repository.createPolicy(policyObject));
     }
 
     /**
-     * Attaches an existing policy to an existing role
+     * Attaches an existing policy to an existing role, optionally for a limited time
      * 
      * @param policyId - ID of the policy
      * @param roleId - ID of the role
+     * @param validity - Optional period during which the attachment applies; see assignRoleToUser
      * @returns Promise that resolves when the attachment is complete
+     * @throws ValidationError if the validity window is invalid
      */
-    async attachPolicyToRole(policyId: string, roleId: string): Promise<void> {
-        return await this.repository.attachPolicyToRole(policyId, roleId);
+    async attachPolicyToRole(policyId: string, roleId: string, validity?: ValidityWindow): Promise<void> {
+        const window = validity && normalizeValidityWindow(validity);
+        return await this.withHooks('policyAttached', { policyId, target: { type: 'role', id: roleId }, validity: window }, () =>
+            this.audited('attachPolicyToRole', { entityType: 'Role', entityId: roleId, details: { policyId, validity: window } }, () =>
+                this.repository.attachPolicyToRole(policyId, roleId, window)));
     }
 
     /**
-     * Attaches an existing policy directly to an existing user
+     * Attaches an existing policy directly to an existing user, optionally for a limited time
      * 
      * @param policyId - ID of the policy
      * @param userId - ID of the user
+     * @param validity - Optional period during which the attachment applies; see assignRoleToUser
      * @returns Promise that resolves when the attachment is complete
+     * @throws ValidationError if the validity window is invalid
      */
-    async attachPolicyToUser(policyId: string, userId: string): Promise<void> {
-        return await this.repository.attachPolicyToUser(policyId, userId);
+    async attachPolicyToUser(policyId: string, userId: string, validity?: ValidityWindow): Promise<void> {
+        const window = validity && normalizeValidityWindow(validity);
+        return await this.withHooks('policyAttached', { policyId, target: { type: 'user', id: userId }, validity: window }, () =>
+            this.audited('attachPolicyToUser', { entityType: 'User', entityId: userId, details: { policyId, validity: window } }, () =>
+                this.repository.attachPolicyToUser(policyId, userId, window)));
+    }
+
+    /**
+     * Removes every role assignment and policy attachment whose validity window has ended
+     * 
+     * Expired assignments are already ignored by `hasAccess`; this keeps them from piling up.
+     * Reads every user and role, so run it periodically, e.g. from a scheduled job.
+     * Each assignment is removed through removeRoleFromUser, detachPolicyFromUser or
+     * detachPolicyFromRole, so hooks run and the audit log records it as usual.
+     * 
+     * @returns Promise containing the removed assignments
+     */
+    async removeExpiredAssignments(): Promise<ExpiredAssignment[]> {
+        const now = new Date();
+        const removed: ExpiredAssignment[] = [];
+        const expired = (ids: string[] | undefined, validity: ValidityMap | undefined) =>
+            (ids || []).filter(id => isAssignmentExpired(validity?.[id], now)).map(id => ({ id, validity: validity![id] }));
+
+        let cursor: string | undefined;
+        do {
+            const page = await this.repository.listUsers({ cursor });
+            for (const user of page.items) {
+                for (const { id, validity } of expired(user.roles, user.roleValidity)) {
+                    await this.removeRoleFromUser(user.id, id);
+                    removed.push({ type: 'role', id, target: { type: 'user', id: user.id }, validity });
+                }
+                for (const { id, validity } of expired(user.policies, user.policyValidity)) {
+                    await this.detachPolicyFromUser(id, user.id);
+                    removed.push({ type: 'policy', id, target: { type: 'user', id: user.id }, validity });
+                }
+            }
+            cursor = page.nextCursor;
+        } while (cursor);
+
+        do {
+            const page = await this.repository.listRoles({ cursor });
+            for (const role of page.items) {
+                for (const { id, validity } of expired(role.policies, role.policyValidity)) {
+                    await this.detachPolicyFromRole(id, role.id);
+                    removed.push({ type: 'policy', id, target: { type: 'role', id: role.id }, validity });
+                }
+            }
+            cursor = page.nextCursor;
+        } while (cursor);
+
+        return removed;
     }
 
     /**
@@ -160,6 +345,32 @@ export class AccessControl<T> {
         return await this.repository.getUser(userId);
     }
 
+    /**
+     * Updates an existing user's name, attributes, roles and policies
+     * Group membership is changed with addUserToGroup and removeUserFromGroup. Roles and
+     * policies left in the user keep their validity windows unless `roleValidity` or
+     * `policyValidity` is given, which replaces them.
+     * 
+     * @param user - User object with updated information
+     * @returns Promise containing the updated user
+     */
+    async updateUser(user: User): Promise<User> {
+        return await this.audited('updateUser', { entityType: 'User', entityId: user.id }, () =>
+            this.repository.updateUser(user));
+    }
+
+    /**
+     * Deletes a user from the system along with their role and policy assignments,
+     * and removes them from their groups
+     * 
+     * @param userId - ID of the user to delete
+     * @returns Promise that resolves when the deletion is complete
+     */
+    async deleteUser(userId: string): Promise<void> {
+        return await this.audited('deleteUser', { entityType: 'User', entityId: userId }, () =>
+            this.repository.deleteUser(userId));
+    }
+
     /**
      * Retrieves a role by its ID
      * 
@@ -170,6 +381,16 @@ export class AccessControl<T> {
         return await this.repository.getRole(roleId);
     }
 
+    /**
+     * Retrieves a policy by its ID
+     * 
+     * @param policyId - ID of the policy to retrieve
+     * @returns Promise containing the policy object
+     */
+    async getPolicy(policyId: string): Promise<Policy> {
+        return await this.repository.getPolicy(policyId);
+    }
+
     /**
      * Retrieves all policies directly associated with a user
      * 
@@ -192,12 +413,18 @@ export class AccessControl<T> {
 
     /**
      * Updates an existing role's details
+     * Policies left in the role keep their validity windows unless `policyValidity` is
+     * given, which replaces them.
      * 
      * @param role - Role object with updated information
      * @returns Promise containing the updated role
+     * @throws ValidationError if one of the role's parent roles would create a cycle
      */
     async updateRole(role: Role): Promise<Role> {
-        return await this.repository.updateRole(role);
+        await this.checkParentRoles(role.id, role.parentRoles || []);
+
+        return await this.audited('updateRole', { entityType: 'Role', entityId: role.id }, () =>
+            this.repository.updateRole(role));
     }
 
     /**
@@ -207,27 +434,37 @@ export class AccessControl<T> {
      * @returns Promise containing the updated policy
      */
     async updatePolicy(policy: Policy): Promise<Policy> {
-        return await this.repository.updatePolicy(policy);
+        return await this.withHooks('policyUpdated', { policy }, () =>
+            this.audited('updatePolicy', { entityType: 'Policy', entityId: policy.id }, () =>
+                this.repository.updatePolicy(policy)));
     }
 
     /**
      * Deletes a policy from the system
      * 
      * @param policyId - ID of the policy to delete
+     * @param options - Pass `{ cascade: true }` to detach the policy from every user, group and role
      * @returns Promise that resolves when the deletion is complete
+     * @throws EntityInUseError if the policy is still attached and cascade is not set
      */
-    async deletePolicy(policyId: string): Promise<void> {
-        return await this.repository.deletePolicy(policyId);
+    async deletePolicy(policyId: string, options: DeleteOptions = {}): Promise<void> {
+        return await this.withHooks('policyDeleted', { policyId, cascade: !!options.cascade }, () =>
+            this.audited('deletePolicy', { entityType: 'Policy', entityId: policyId, details: { cascade: !!options.cascade } }, () =>
+                this.repository.deletePolicy(policyId, options)));
     }
 
     /**
      * Deletes a role from the system
      * 
      * @param roleId - ID of the role to delete
+     * @param options - Pass `{ cascade: true }` to remove the role from every user and group, and
+     * from the parent roles of other roles
      * @returns Promise that resolves when the deletion is complete
+     * @throws EntityInUseError if the role is still referenced and cascade is not set
      */
-    async deleteRole(roleId: string): Promise<void> {
-        return await this.repository.deleteRole(roleId);
+    async deleteRole(roleId: string, options: DeleteOptions = {}): Promise<void> {
+        return await this.audited('deleteRole', { entityType: 'Role', entityId: roleId, details: { cascade: !!options.cascade } }, () =>
+            this.repository.deleteRole(roleId, options));
     }
 
     /**
@@ -238,7 +475,9 @@ export class AccessControl<T> {
      * @returns Promise that resolves when the detachment is complete
      */
     async detachPolicyFromRole(policyId: string, roleId: string): Promise<void> {
-        return await this.repository.detachPolicyFromRole(policyId, roleId);
+        return await this.withHooks('policyDetached', { policyId, target: { type: 'role', id: roleId } }, () =>
+            this.audited('detachPolicyFromRole', { entityType: 'Role', entityId: roleId, details: { policyId } }, () =>
+                this.repository.detachPolicyFromRole(policyId, roleId)));
     }
 
     /**
@@ -249,7 +488,9 @@ export class AccessControl<T> {
      * @returns Promise that resolves when the detachment is complete
      */
     async detachPolicyFromUser(policyId: string, userId: string): Promise<void> {
-        return await this.repository.detachPolicyFromUser(policyId, userId);
+        return await this.withHooks('policyDetached', { policyId, target: { type: 'user', id: userId } }, () =>
+            this.audited('detachPolicyFromUser', { entityType: 'User', entityId: userId, details: { policyId } }, () =>
+                this.repository.detachPolicyFromUser(policyId, userId)));
     }
 
     /**
@@ -260,34 +501,680 @@ export class AccessControl<T> {
      * @returns Promise that resolves when the removal is complete
      */
     async removeRoleFromUser(userId: string, roleId: string): Promise<void> {
-        return await this.repository.removeRoleFromUser(userId, roleId);
+        return await this.withHooks('roleRemoved', { roleId, target: { type: 'user', id: userId } }, () =>
+            this.audited('removeRoleFromUser', { entityType: 'User', entityId: userId, details: { roleId } }, () =>
+                this.repository.removeRoleFromUser(userId, roleId)));
+    }
+
+    /**
+     * Makes a role inherit the policies of a parent role
+     * 
+     * @param roleId - ID of the child role
+     * @param parentRoleId - ID of the role to inherit from
+     * @returns Promise that resolves when the parent role has been added
+     * @throws RoleNotFoundError if the role does not exist
+     * @throws ValidationError if the parent would create a cycle
+     * 
+     * @example
+     * // editor inherits everything viewer can do, admin inherits editor (and viewer)
+     * await accessControl.addParentRole('editor', 'viewer');
+     * await accessControl.addParentRole('admin', 'editor');
+     */
+    async addParentRole(roleId: string, parentRoleId: string): Promise<void> {
+        await this.getRole(roleId);
+        await this.checkParentRoles(roleId, [parentRoleId]);
+
+        return await this.audited('addParentRole', { entityType: 'Role', entityId: roleId, details: { parentRoleId } }, () =>
+            this.repository.addParentRole(roleId, parentRoleId));
+    }
+
+    /**
+     * Removes a parent role from a role
+     * 
+     * @param roleId - ID of the child role
+     * @param parentRoleId - ID of the parent role to remove
+     * @returns Promise that resolves when the parent role has been removed
+     */
+    async removeParentRole(roleId: string, parentRoleId: string): Promise<void> {
+        return await this.audited('removeParentRole', { entityType: 'Role', entityId: roleId, details: { parentRoleId } }, () =>
+            this.repository.removeParentRole(roleId, parentRoleId));
+    }
+
+    /**
+     * Creates a new group in the system
+     * Any listed members are added to the group as part of its creation
+     * 
+     * @param group - Group object containing group details
+     * @returns Promise containing the created group
+     */
+    async createGroup(group: Group): Promise<Group> {
+        return await this.audited('createGroup', { entityType: 'Group', entityId: group.id }, () =>
+            this.repository.createGroup(group));
+    }
+
+    /**
+     * Retrieves a group by its ID
+     * 
+     * @param groupId - ID of the group to retrieve
+     * @returns Promise containing the group object
+     */
+    async getGroup(groupId: string): Promise<Group> {
+        return await this.repository.getGroup(groupId);
+    }
+
+    /**
+     * Updates an existing group's name, roles and policies
+     * Membership is changed with addUserToGroup and removeUserFromGroup
+     * 
+     * @param group - Group object with updated information
+     * @returns Promise containing the updated group
+     */
+    async updateGroup(group: Group): Promise<Group> {
+        return await this.audited('updateGroup', { entityType: 'Group', entityId: group.id }, () =>
+            this.repository.updateGroup(group));
+    }
+
+    /**
+     * Deletes a group from the system and removes it from its members
+     * 
+     * @param groupId - ID of the group to delete
+     * @returns Promise that resolves when the deletion is complete
+     */
+    async deleteGroup(groupId: string): Promise<void> {
+        return await this.audited('deleteGroup', { entityType: 'Group', entityId: groupId }, () =>
+            this.repository.deleteGroup(groupId));
+    }
+
+    /**
+     * Adds an existing user to an existing group
+     * 
+     * @param userId - ID of the user
+     * @param groupId - ID of the group
+     * @returns Promise that resolves when the user has been added
+     */
+    async addUserToGroup(userId: string, groupId: string): Promise<void> {
+        return await this.audited('addUserToGroup', { entityType: 'Group', entityId: groupId, details: { userId } }, () =>
+            this.repository.addUserToGroup(userId, groupId));
+    }
+
+    /**
+     * Removes a user from a group
+     * 
+     * @param userId - ID of the user
+     * @param groupId - ID of the group
+     * @returns Promise that resolves when the user has been removed
+     */
+    async removeUserFromGroup(userId: string, groupId: string): Promise<void> {
+        return await this.audited('removeUserFromGroup', { entityType: 'Group', entityId: groupId, details: { userId } }, () =>
+            this.repository.removeUserFromGroup(userId, groupId));
+    }
+
+    /**
+     * Assigns an existing role to every member of a group
+     * 
+     * @param groupId - ID of the group
+     * @param roleId - ID of the role to assign
+     * @returns Promise that resolves when the assignment is complete
+     */
+    async assignRoleToGroup(groupId: string, roleId: string): Promise<void> {
+        return await this.withHooks('roleAssigned', { roleId, target: { type: 'group', id: groupId } }, () =>
+            this.audited('assignRoleToGroup', { entityType: 'Group', entityId: groupId, details: { roleId } }, () =>
+                this.repository.assignRoleToGroup(groupId, roleId)));
+    }
+
+    /**
+     * Removes a role from a group
+     * 
+     * @param groupId - ID of the group
+     * @param roleId - ID of the role to remove
+     * @returns Promise that resolves when the removal is complete
+     */
+    async removeRoleFromGroup(groupId: string, roleId: string): Promise<void> {
+        return await this.withHooks('roleRemoved', { roleId, target: { type: 'group', id: groupId } }, () =>
+            this.audited('removeRoleFromGroup', { entityType: 'Group', entityId: groupId, details: { roleId } }, () =>
+                this.repository.removeRoleFromGroup(groupId, roleId)));
+    }
+
+    /**
+     * Attaches an existing policy to an existing group
+     * 
+     * @param policyId - ID of the policy
+     * @param groupId - ID of the group
+     * @returns Promise that resolves when the attachment is complete
+     */
+    async attachPolicyToGroup(policyId: string, groupId: string): Promise<void> {
+        return await this.withHooks('policyAttached', { policyId, target: { type: 'group', id: groupId } }, () =>
+            this.audited('attachPolicyToGroup', { entityType: 'Group', entityId: groupId, details: { policyId } }, () =>
+                this.repository.attachPolicyToGroup(policyId, groupId)));
+    }
+
+    /**
+     * Removes a policy from a group
+     * 
+     * @param policyId - ID of the policy to detach
+     * @param groupId - ID of the group to detach from
+     * @returns Promise that resolves when the detachment is complete
+     */
+    async detachPolicyFromGroup(policyId: string, groupId: string): Promise<void> {
+        return await this.withHooks('policyDetached', { policyId, target: { type: 'group', id: groupId } }, () =>
+            this.audited('detachPolicyFromGroup', { entityType: 'Group', entityId: groupId, details: { policyId } }, () =>
+                this.repository.detachPolicyFromGroup(policyId, groupId)));
+    }
+
+    /**
+     * Retrieves all policies attached directly to a group
+     * 
+     * @param groupId - ID of the group
+     * @returns Promise containing an array of policies
+     */
+    async getGroupPolicies(groupId: string): Promise<Policy[]> {
+        return await this.repository.getGroupPolicies(groupId);
+    }
+
+    /**
+     * Finds the users a role is assigned to directly
+     * 
+     * Users who only receive the role through a group are not included.
+     * 
+     * @param roleId - ID of the role
+     * @returns Promise containing the users, ordered by ID
+     */
+    async getUsersWithRole(roleId: string): Promise<User[]> {
+        return await this.repository.getUsersWithRole(roleId);
+    }
+
+    /**
+     * Finds the roles a policy is attached to
+     * 
+     * @param policyId - ID of the policy
+     * @returns Promise containing the roles, ordered by ID
+     */
+    async getRolesWithPolicy(policyId: string): Promise<Role[]> {
+        return await this.repository.getRolesWithPolicy(policyId);
+    }
+
+    /**
+     * Finds the users a policy is attached to directly
+     * 
+     * Combine with getRolesWithPolicy and getUsersWithRole to find everyone a policy applies to.
+     * 
+     * @param policyId - ID of the policy
+     * @returns Promise containing the users, ordered by ID
+     */
+    async getUsersWithPolicy(policyId: string): Promise<User[]> {
+        return await this.repository.getUsersWithPolicy(policyId);
+    }
+
+    /**
+     * Lists users ordered by ID, one page at a time
+     * 
+     * @param options - Page size, cursor of the previous page and an optional name prefix
+     * @returns Promise containing the users of the page and the cursor of the next page, if any
+     * @throws ValidationError if the limit is not a positive integer
+     * @example
+     * let page = await accessControl.listUsers({ prefix: "A", limit: 100 });
+     * while (page.nextCursor) {
+     *     page = await accessControl.listUsers({ prefix: "A", limit: 100, cursor: page.nextCursor });
+     * }
+     */
+    async listUsers(options: ListOptions = {}): Promise<Page<User>> {
+        return await this.repository.listUsers(this.checkListOptions(options));
+    }
+
+    /**
+     * Lists roles ordered by ID, one page at a time
+     * 
+     * @param options - Page size, cursor of the previous page and an optional name prefix
+     * @returns Promise containing the roles of the page and the cursor of the next page, if any
+     * @throws ValidationError if the limit is not a positive integer
+     */
+    async listRoles(options: ListOptions = {}): Promise<Page<Role>> {
+        return await this.repository.listRoles(this.checkListOptions(options));
+    }
+
+    /**
+     * Lists policies ordered by ID, one page at a time
+     * 
+     * @param options - Page size, cursor of the previous page and an optional ID prefix
+     * @returns Promise containing the policies of the page and the cursor of the next page, if any
+     * @throws ValidationError if the limit is not a positive integer
+     */
+    async listPolicies(options: ListOptions = {}): Promise<Page<Policy>> {
+        return await this.repository.listPolicies(this.checkListOptions(options));
     }
 
     /**
      * Determines if a user has permission to perform an action on a resource
      * 
-     * This method evaluates all policies attached to the user directly and through
-     * their assigned roles to determine if access should be granted.
+     * This method evaluates all policies attached to the user directly, to the
+     * groups they belong to, and to the roles assigned to them or their groups
+     * (including policies inherited from parent roles) to determine if access
+     * should be granted. Policy variables
+     * such as `${user.id}` and `${context.tenantId}` are resolved from the loaded user
+     * and the given context. The user's stored attributes are added to the context and
+     * take precedence over keys of the same name passed in it, so callers cannot change them. Decisions are cached when the
+     * `cache.decisionTtl` option is set, recorded in the audit log at the rate set by
+     * `audit.decisionSampleRate`, and passed to the `accessDecided` after-hooks.
      * 
      * @param userId - ID of the user requesting access
      * @param action - The action being performed (e.g., "read", "write")
      * @param resource - The resource being accessed (e.g., "document", "user")
-     * @param context - Additional contextual information for policy evaluation
+     * @param context - Additional contextual information for policy evaluation; values may be
+     * arrays (e.g. `{ tags: ['public', 'draft'] }`) for multi-valued keys
      * @returns Promise resolving to true if access is granted, false otherwise
      */
     async hasAccess(userId: string, action: string, resource: string, context: Record<string, any> = {}): Promise<boolean> {
+        return await this.decide(userId, action, resource, context, () => this.loadEffectivePolicies(userId));
+    }
+
+    /**
+     * Determines for each of several requests if a user may perform the action on the resource
+     * 
+     * Loads the user and their policies at most once and evaluates every request against
+     * them, with the same rules as `hasAccess`. Each decision is looked up in and added to
+     * the decision cache, sampled into the audit log and passed to the `accessDecided`
+     * after-hooks like one made by `hasAccess`, in the order of the requests. Use it instead
+     * of calling `hasAccess` in a loop, e.g. to decide which actions to offer for every row
+     * of a table.
+     * 
+     * @param userId - ID of the user requesting access
+     * @param requests - The action, resource and optional context of each check
+     * @returns Promise resolving to one result per request, in the same order
+     * 
+     * @example
+     * const [canEdit, canDelete] = await accessControl.hasAccessBatch('alice', [
+     *   { action: 'edit', resource: 'document/42' },
+     *   { action: 'delete', resource: 'document/42', context: { mfa: true } }
+     * ]);
+     */
+    async hasAccessBatch(userId: string, requests: AccessRequest[]): Promise<boolean[]> {
+        let loading: Promise<EffectivePolicies> | undefined;
+        const load = () => loading = loading || this.loadEffectivePolicies(userId);
+
+        const results: boolean[] = [];
+        for (const { action, resource, context = {} } of requests) {
+            results.push(await this.decide(userId, action, resource, context, load));
+        }
+        return results;
+    }
+
+    /**
+     * Registers actions that `getAllowedActions` checks when policies allow actions by wildcard
+     * 
+     * A statement such as `Action: ['document:*']` or `NotAction: ['delete']` does not say which
+     * actions it grants, so they can only be listed if the application declares its actions.
+     * Registering the same action again has no effect.
+     * 
+     * @param actions - Actions the application checks, without wildcards
+     * @throws ValidationError if an action is empty or contains a wildcard
+     * 
+     * @example
+     * accessControl.registerActions(['document:read', 'document:edit', 'document:delete']);
+     */
+    registerActions(actions: string[]): void {
+        const invalid = actions.find(action => !action || action.includes('*'));
+        if (invalid !== undefined) {
+            throw new ValidationError(`Invalid action in catalog: "${invalid}"`);
+        }
+        actions.forEach(action => this.actionCatalog.add(action));
+    }
+
+    /**
+     * Lists the actions a user may perform on a resource
+     * 
+     * Walks the user's effective Allow statements that apply to the resource to find the
+     * actions they name, and keeps those that `hasAccess` would allow, so Deny statements
+     * override them as usual. Statements that allow actions by wildcard or `NotAction` are
+     * expanded with the actions registered through `registerActions`.
+     * 
+     * @param userId - ID of the user requesting access
+     * @param resource - The resource being accessed (e.g., "document/123")
+     * @param context - Additional contextual information for policy evaluation
+     * @param candidateActions - Actions to check instead of those found in the statements and the catalog
+     * @returns Promise resolving to the allowed actions, in the order they were found or given
+     * @throws ValidationError if a statement allows actions by wildcard, no actions are registered
+     * and no candidate actions are given
+     * 
+     * @example
+     * const actions = await accessControl.getAllowedActions('alice', 'document/123');
+     * // ['document:read', 'document:edit']
+     */
+    async getAllowedActions(
+        userId: string,
+        resource: string,
+        context: Record<string, any> = {},
+        candidateActions?: string[]
+    ): Promise<string[]> {
+        const { user, policies: attachedPolicies } = await this.loadEffectivePolicies(userId);
+        const policies = attachedPolicies.map(({ policy }) => policy);
+        const evaluationContext = this.evaluationContext(user, context);
+
+        let candidates = candidateActions;
+        if (!candidates) {
+            const { actions, wildcard } = collectStatementActions(policies, resource, evaluationContext, user);
+            if (wildcard && this.actionCatalog.size === 0) {
+                throw new ValidationError(
+                    `Policies of user ${userId} allow actions on ${resource} by wildcard; register the actions with registerActions() or pass candidateActions`,
+                    userId
+                );
+            }
+            candidates = wildcard ? Array.from(new Set([...actions, ...this.actionCatalog])) : actions;
+        }
+
+        return candidates.filter(action => evaluate(policies, action, resource, evaluationContext, user));
+    }
+
+    /**
+     * Describes which resources starting with a prefix a user may perform an action on
+     * 
+     * Partially evaluates the user's policies without knowing the resource, so the
+     * allowed resources can be queried instead of calling `hasAccess` for each of them.
+     * The filter holds the allowed resource patterns, the denied patterns that take
+     * precedence over them, and any condition that refers to keys missing from the
+     * context. Turn it into a query with `toSqlWhere` or check resources with
+     * `toResourcePredicate`.
+     * 
+     * @param userId - ID of the user requesting access
+     * @param action - The action being performed (e.g., "read")
+     * @param resourcePrefix - Only resources starting with this prefix are considered (e.g., "document/")
+     * @param context - Additional contextual information for policy evaluation
+     * @returns Promise resolving to the filter describing the allowed resources
+     * 
+     * @example
+     * const filter = await accessControl.getResourceFilter('alice', 'read', 'document/');
+     * const { sql, params } = toSqlWhere(filter, { column: 'arn' });
+     * const documents = db.prepare(`SELECT * FROM documents WHERE ${sql}`).all(...params);
+     */
+    async getResourceFilter(
+        userId: string,
+        action: string,
+        resourcePrefix: string = '',
+        context: Record<string, any> = {}
+    ): Promise<ResourceFilter> {
+        const { user, policies: attachedPolicies } = await this.loadEffectivePolicies(userId);
+        return partialEvaluate(
+            attachedPolicies.map(({ policy }) => policy),
+            action,
+            resourcePrefix,
+            this.evaluationContext(user, context),
+            user
+        );
+    }
+
+    /**
+     * Explains the access decision for a user, action and resource
+     * 
+     * Evaluates the same policies as `hasAccess` but returns a structured decision
+     * instead of a boolean: the final effect, whether a denial was explicit or implicit,
+     * the matching statements (policy ID and statement index), the statements skipped
+     * because of conditions, dates or unresolved variables, and for each statement the
+     * direct user attachment or role its policy came from.
+     * 
+     * @param userId - ID of the user requesting access
+     * @param action - The action being performed (e.g., "read", "write")
+     * @param resource - The resource being accessed (e.g., "document", "user")
+     * @param context - Additional contextual information for policy evaluation
+     * @returns Promise resolving to the explained access decision
+     * 
+     * @example
+     * const decision = await accessControl.explainAccess('alice', 'edit', 'document/42');
+     * if (decision.reason === DecisionReason.ExplicitDeny) {
+     *   console.log('Denied by', decision.matchedStatements.filter(m => m.effect === Effect.Deny));
+     * }
+     */
+    async explainAccess(userId: string, action: string, resource: string, context: Record<string, any> = {}): Promise<AccessDecision> {
+        const { user, policies: attachedPolicies } = await this.loadEffectivePolicies(userId);
+
+        // Evaluate each policy once, remembering every attachment it was loaded through
+        const policies: Policy[] = [];
+        const sources = new Map<string, PolicySource[]>();
+        for (const { policy, source } of attachedPolicies) {
+            if (!sources.has(policy.id)) {
+                sources.set(policy.id, []);
+                policies.push(policy);
+            }
+            sources.get(policy.id)!.push(source);
+        }
+
+        const trace = explain(policies, action, resource, this.evaluationContext(user, context), user);
+        const withSources = <S extends { policyId: string }>(statements: S[]) =>
+            statements.map(statement => ({ ...statement, sources: sources.get(statement.policyId) || [] }));
+
+        return {
+            ...trace,
+            userId,
+            action,
+            resource,
+            matchedStatements: withSources(trace.matchedStatements),
+            skippedStatements: withSources(trace.skippedStatements)
+        };
+    }
+
+    /**
+     * Decides a request from the decision cache or by evaluating the user's policies
+     * Records the decision in the audit log and runs the `accessDecided` after-hooks
+     * 
+     * @param load - Loads the user and their policies on a cache miss
+     * @returns Promise resolving to true if access is granted, false otherwise
+     */
+    private async decide(
+        userId: string,
+        action: string,
+        resource: string,
+        context: Record<string, any>,
+        load: () => Promise<EffectivePolicies>
+    ): Promise<boolean> {
+        let allowed = await this.cache?.getDecision(userId, action, resource, context);
+        if (allowed === undefined) {
+            const { user, policies: attachedPolicies } = await load();
+            allowed = evaluate(attachedPolicies.map(({ policy }) => policy), action, resource, this.evaluationContext(user, context), user);
+
+            await this.cache?.setDecision(userId, action, resource, context, allowed);
+        }
+
+        await this.audit?.recordDecision({ actor: this.actor, userId, action, resource, context, allowed });
+        await this.hooks.runAfter('accessDecided', { userId, action, resource, context, allowed }, { actor: this.actor });
+        return allowed;
+    }
+
+    /**
+     * Loads a user and every policy that applies to them
+     * Uses the repository's getEffectivePolicies when it has one, so the policies are read
+     * in a fixed number of round trips
+     * 
+     * @param userId - ID of the user
+     * @returns Promise containing the user and their policies with the attachment each came from
+     */
+    private async loadEffectivePolicies(userId: string): Promise<EffectivePolicies> {
+        if (this.repository.getEffectivePolicies) {
+            return await this.repository.getEffectivePolicies(userId);
+        }
+
         const user = await this.getUser(userId);
-    
-        const [getUserPolicies, rolePoliciesNested] = await Promise.all([
-            this.getUserPolicies(userId),
-            await Promise.all(
-                (user.roles || []).map(roleId => this.getRolePolicies(roleId))
-            )
+        return { user, policies: await this.collectPolicies(user) };
+    }
+
+    /**
+     * Loads every policy that applies to a user: directly, through their groups,
+     * and through the roles assigned to them or their groups and those roles' ancestors
+     * 
+     * @param user - The user to load policies for
+     * @returns Promise containing the policies with the attachment each came from
+     */
+    private async collectPolicies(user: User): Promise<AttachedPolicy[]> {
+        const now = new Date();
+        const groups = await Promise.all((user.groups || []).map(groupId => this.getGroup(groupId)));
+
+        const roleAssignments: PolicySource[] = [
+            ...(user.roles || []).filter(roleId => isAssignmentActive(user.roleValidity?.[roleId], now))
+                .map((roleId): PolicySource => ({ type: 'role', id: roleId })),
+            ...groups.flatMap(group => (group.roles || []).map((roleId): PolicySource => ({ type: 'role', id: roleId, group: group.id })))
+        ];
+
+        const [userPolicies, groupPoliciesNested, roles] = await Promise.all([
+            this.getUserPolicies(user.id),
+            Promise.all(groups.map(async group => (await this.getGroupPolicies(group.id))
+                .map((policy): AttachedPolicy => ({ policy, source: { type: 'group', id: group.id } })))),
+            this.resolveRoleHierarchy(roleAssignments)
         ]);
 
-        const rolePolicies = rolePoliciesNested.flat();
-        const allPolicies = [...getUserPolicies, ...rolePolicies];
+        const rolePoliciesNested = await Promise.all(
+            Array.from(roles.values()).map(async ({ role, source }) => (await this.getRolePolicies(source.id))
+                .filter(policy => isAssignmentActive(role.policyValidity?.[policy.id], now))
+                .map((policy): AttachedPolicy => ({ policy, source })))
+        );
 
-        return evaluate(allPolicies, action, resource, context);
+        return [
+            ...userPolicies.filter(policy => isAssignmentActive(user.policyValidity?.[policy.id], now))
+                .map((policy): AttachedPolicy => ({ policy, source: { type: 'user', id: user.id } })),
+            ...groupPoliciesNested.flat(),
+            ...rolePoliciesNested.flat()
+        ];
+    }
+
+    /**
+     * Resolves a set of assigned roles to all roles they include transitively
+     * Walks the hierarchy one level at a time and tolerates cycles
+     * 
+     * @param assignments - Sources of the assigned roles
+     * @returns Promise containing a map from each reachable role ID to the role and the source it was reached through
+     */
+    private async resolveRoleHierarchy(assignments: PolicySource[]): Promise<Map<string, { role: Role; source: PolicySource }>> {
+        const reached = new Map<string, { role: Role; source: PolicySource }>();
+        let frontier = assignments;
+
+        while (frontier.length > 0) {
+            const seen = new Set<string>();
+            const level = frontier.filter(source => {
+                if (reached.has(source.id) || seen.has(source.id)) {
+                    return false;
+                }
+                seen.add(source.id);
+                return true;
+            });
+
+            const roles = await Promise.all(level.map(source => this.getRole(source.id)));
+            roles.forEach((role, index) => reached.set(level[index].id, { role, source: level[index] }));
+            frontier = roles.flatMap((role, index) => (role.parentRoles || []).map((parentRoleId): PolicySource => ({
+                ...level[index],
+                id: parentRoleId,
+                via: level[index].via || level[index].id
+            })));
+        }
+
+        return reached;
+    }
+
+    /**
+     * Collects the IDs of every ancestor of a role
+     * 
+     * @param roleId - ID of the role
+     * @returns Promise containing the IDs of the role and all roles it inherits from
+     */
+    private async getAncestorRoleIds(roleId: string): Promise<Set<string>> {
+        return new Set((await this.resolveRoleHierarchy([{ type: 'role', id: roleId }])).keys());
+    }
+
+    /**
+     * Checks that a role can inherit from each of the given parent roles
+     * 
+     * @param roleId - ID of the child role
+     * @param parentRoleIds - IDs of its parent roles
+     * @throws ValidationError if a parent is the role itself or inherits from it
+     */
+    private async checkParentRoles(roleId: string, parentRoleIds: string[]): Promise<void> {
+        for (const parentRoleId of parentRoleIds) {
+            if (roleId === parentRoleId || (await this.getAncestorRoleIds(parentRoleId)).has(roleId)) {
+                throw new ValidationError(`Adding parent role ${parentRoleId} to role ${roleId} would create a cycle`, roleId);
+            }
+        }
+    }
+
+    /**
+     * Builds the context a user's access is evaluated with
+     * 
+     * @param user - The user requesting access
+     * @param context - The context passed by the caller
+     * @returns The caller's context with the user's stored attributes, which replace keys of the same name
+     */
+    private evaluationContext(user: User, context: Record<string, any>): Record<string, any> {
+        return { ...context, ...(user.attributes || {}) };
+    }
+
+    /**
+     * Runs a change between the before- and after-hooks of its event
+     * 
+     * @param event - The event emitted for the change
+     * @param payload - Describes the change to the hooks
+     * @param change - Makes the change
+     * @returns Promise containing the result of the change
+     * @throws OperationVetoedError if a before-hook vetoes the change
+     */
+    private async withHooks<E extends VetoableEvent, R>(event: E, payload: AccessControlEvents[E], change: () => Promise<R>): Promise<R> {
+        await this.hooks.runBefore(event, payload, { actor: this.actor });
+        const result = await change();
+        await this.hooks.runAfter(event, payload, { actor: this.actor });
+        return result;
+    }
+
+    /**
+     * Runs a change and records it in the audit log, with snapshots of the changed entity
+     * taken before and after it; only runs the change if no audit sink is configured
+     * 
+     * @param operation - Name of the AccessControl method making the change
+     * @param target - The entity whose stored state changes, and the other IDs involved
+     * @param change - Makes the change
+     * @returns Promise containing the result of the change
+     */
+    private async audited<R>(
+        operation: AuditOperation,
+        target: { entityType: EntityType; entityId: string; details?: Record<string, any> },
+        change: () => Promise<R>
+    ): Promise<R> {
+        if (!this.audit) {
+            return await change();
+        }
+
+        const before = await this.snapshot(target.entityType, target.entityId);
+        const result = await change();
+        const after = await this.snapshot(target.entityType, target.entityId);
+
+        await this.audit.recordChange({ actor: this.actor, operation, ...target, before, after });
+        return result;
+    }
+
+    /**
+     * Reads an entity for the audit log
+     * 
+     * @returns Promise containing the entity, or undefined if it does not exist
+     */
+    private async snapshot(entityType: EntityType, entityId: string): Promise<User | Role | Policy | Group | undefined> {
+        const read = {
+            User: () => this.repository.getUser(entityId),
+            Role: () => this.repository.getRole(entityId),
+            Policy: () => this.repository.getPolicy(entityId),
+            Group: () => this.repository.getGroup(entityId)
+        }[entityType];
+
+        try {
+            return await read();
+        } catch (err) {
+            if (err instanceof EntityNotFoundError) {
+                return undefined;
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Rejects page sizes repositories cannot serve
+     * 
+     * @throws ValidationError if the limit is not a positive integer
+     */
+    private checkListOptions(options: ListOptions): ListOptions {
+        if (options.limit !== undefined && (!Number.isInteger(options.limit) || options.limit < 1)) {
+            throw new ValidationError(`Invalid page size: ${options.limit}`);
+        }
+        return options;
     }
 }
\ No newline at end of file
@@ -1,22 +1,113 @@
-import { User, Role, Policy } from "../models";
+import { User, Role, Policy, Group, ValidityWindow } from "../models";
+import { AttachedPolicy } from "../policy/types";
+
+/**
+ * Number of items returned by the list methods when no limit is given
+ */
+export const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Options for deleteRole and deletePolicy
+ */
+export interface DeleteOptions {
+    /**
+     * Removes the entity from every user, group and role referencing it
+     * Without it, deleting an entity that is still referenced fails with an EntityInUseError
+     */
+    cascade?: boolean;
+}
+
+/**
+ * Options for listUsers, listRoles and listPolicies
+ */
+export interface ListOptions {
+    /**
+     * Maximum number of items to return (defaults to DEFAULT_PAGE_SIZE)
+     */
+    limit?: number;
+    /**
+     * Cursor returned as `nextCursor` by the previous page
+     */
+    cursor?: string;
+    /**
+     * Only returns entities whose name starts with this value
+     * Policies have no name, so they are filtered by ID
+     */
+    prefix?: string;
+}
+
+/**
+ * One page of a list, ordered by ID
+ *
+ * A page may hold fewer than `limit` items even if more follow, so keep
+ * requesting pages until `nextCursor` is undefined.
+ */
+export interface Page<T> {
+    items: T[];
+    nextCursor?: string;
+}
+
+/**
+ * A user together with every policy that applies to them
+ */
+export interface EffectivePolicies {
+    user: User;
+    /**
+     * Policies attached to the user, their groups, and the roles assigned to either
+     * (including inherited roles), each with the attachment it came from
+     * Assignments outside their validity window are left out
+     */
+    policies: AttachedPolicy[];
+}
 
 export interface IBaseRepository {
     createUser(user: User): Promise<User>;
     getUser(id: string): Promise<User>;
+    updateUser(user: User): Promise<User>;
+    deleteUser(userId: string): Promise<void>;
     createRole(role: Role): Promise<Role>;
     getRole(id: string): Promise<Role>;
-    assignRoleToUser(userId: string, roleId: string): Promise<User>;
+    /**
+     * Assigns a role to a user, replacing the window of an existing assignment
+     * Without a window, the assignment applies until it is removed
+     */
+    assignRoleToUser(userId: string, roleId: string, validity?: ValidityWindow): Promise<User>;
     createPolicy(policy: Policy): Promise<Policy>;
-    attachPolicyToRole(policyId: string, roleId: string): Promise<void>;
-    attachPolicyToUser(policyId: string, userId: string): Promise<void>;
+    getPolicy(id: string): Promise<Policy>;
+    attachPolicyToRole(policyId: string, roleId: string, validity?: ValidityWindow): Promise<void>;
+    attachPolicyToUser(policyId: string, userId: string, validity?: ValidityWindow): Promise<void>;
     getUserPolicies(userId: string): Promise<Policy[]>;
     getRolePolicies(roleId: string): Promise<Policy[]>;
     setupTables(): Promise<void>;
     updateRole(role: Role): Promise<Role>;
     updatePolicy(policy: Policy): Promise<Policy>;
-    deletePolicy(policyId: string): Promise<void>;
-    deleteRole(roleId: string): Promise<void>;
+    deletePolicy(policyId: string, options?: DeleteOptions): Promise<void>;
+    deleteRole(roleId: string, options?: DeleteOptions): Promise<void>;
     detachPolicyFromRole(policyId: string, roleId: string): Promise<void>;
     detachPolicyFromUser(policyId: string, userId: string): Promise<void>;
     removeRoleFromUser(userId: string, roleId: string): Promise<void>;
+    addParentRole(roleId: string, parentRoleId: string): Promise<void>;
+    removeParentRole(roleId: string, parentRoleId: string): Promise<void>;
+    createGroup(group: Group): Promise<Group>;
+    getGroup(id: string): Promise<Group>;
+    updateGroup(group: Group): Promise<Group>;
+    deleteGroup(groupId: string): Promise<void>;
+    addUserToGroup(userId: string, groupId: string): Promise<void>;
+    removeUserFromGroup(userId: string, groupId: string): Promise<void>;
+    assignRoleToGroup(groupId: string, roleId: string): Promise<void>;
+    removeRoleFromGroup(groupId: string, roleId: string): Promise<void>;
+    attachPolicyToGroup(policyId: string, groupId: string): Promise<void>;
+    detachPolicyFromGroup(policyId: string, groupId: string): Promise<void>;
+    getGroupPolicies(groupId: string): Promise<Policy[]>;
+    getUsersWithRole(roleId: string): Promise<User[]>;
+    getRolesWithPolicy(policyId: string): Promise<Role[]>;
+    getUsersWithPolicy(policyId: string): Promise<User[]>;
+    listUsers(options?: ListOptions): Promise<Page<User>>;
+    listRoles(options?: ListOptions): Promise<Page<Role>>;
+    listPolicies(options?: ListOptions): Promise<Page<Policy>>;
+    /**
+     * Loads a user and all their policies in a fixed number of reads
+     * Optional: AccessControl reads the user, groups, roles and policies one by one without it
+     */
+    getEffectivePolicies?(userId: string): Promise<EffectivePolicies>;
 }
\ No newline at end of file
@@ -0,0 +1,349 @@
+import { createHash, randomBytes } from "crypto";
+import { DeleteOptions, EffectivePolicies, IBaseRepository, ListOptions, Page } from "./base-repo";
+import { loadEffectivePolicies } from "./effective-policies";
+import { CacheStore, MemoryCacheStore } from "../cache/store";
+import { Group, Policy, Role, User, ValidityWindow } from "../models";
+
+/**
+ * Options for a CachedRepository
+ */
+export interface CacheOptions {
+    /**
+     * Where cached values are kept (defaults to a MemoryCacheStore)
+     */
+    store?: CacheStore;
+    /**
+     * Milliseconds users, roles, groups and policies stay cached (defaults to 60000)
+     */
+    ttl?: number;
+    /**
+     * Milliseconds `hasAccess` decisions stay cached; decisions are not cached without it
+     */
+    decisionTtl?: number;
+    /**
+     * Prefix of every key written to the store (defaults to "rbac:")
+     */
+    keyPrefix?: string;
+}
+
+type CachedEntityType = "user" | "role" | "group" | "policy";
+
+type CacheEntry = [CachedEntityType, string];
+
+/**
+ * Repository decorator caching users, roles, groups, policies and access decisions
+ *
+ * Reads are served from the cache store when possible. Every change made through the
+ * repository removes the cached entities it affects, and any change invalidates all
+ * cached decisions, since a single assignment can change the decisions of many users.
+ * Cascading deletes invalidate the whole cache.
+ *
+ * Changes made without going through a CachedRepository using the same store are only
+ * seen once the cached values expire.
+ *
+ * @example
+ * const repository = new CachedRepository(new DynamoDBRepository(client), { ttl: 30000 });
+ */
+export class CachedRepository implements IBaseRepository {
+    private store: CacheStore;
+    private ttl: number;
+    private decisionTtl?: number;
+    private keyPrefix: string;
+
+    constructor(private repository: IBaseRepository, options: CacheOptions = {}) {
+        this.store = options.store || new MemoryCacheStore();
+        this.ttl = options.ttl ?? 60000;
+        this.decisionTtl = options.decisionTtl;
+        this.keyPrefix = options.keyPrefix ?? "rbac:";
+    }
+
+    async setupTables(): Promise<void> {
+        await this.repository.setupTables();
+    }
+
+    async createUser(user: User): Promise<User> {
+        return await this.write([["user", user.id], ...entries("group", user.groups)], () => this.repository.createUser(user));
+    }
+
+    async getUser(userId: string): Promise<User> {
+        return await this.read("user", userId, () => this.repository.getUser(userId));
+    }
+
+    async updateUser(user: User): Promise<User> {
+        return await this.write([["user", user.id]], () => this.repository.updateUser(user));
+    }
+
+    async deleteUser(userId: string): Promise<void> {
+        const user = await this.repository.getUser(userId);
+        await this.write([["user", userId], ...entries("group", user.groups)], () => this.repository.deleteUser(userId));
+    }
+
+    async createRole(role: Role): Promise<Role> {
+        return await this.write([["role", role.id]], () => this.repository.createRole(role));
+    }
+
+    async getRole(roleId: string): Promise<Role> {
+        return await this.read("role", roleId, () => this.repository.getRole(roleId));
+    }
+
+    async assignRoleToUser(userId: string, roleId: string, validity?: ValidityWindow): Promise<User> {
+        return await this.write([["user", userId]], () => this.repository.assignRoleToUser(userId, roleId, validity));
+    }
+
+    async createPolicy(policy: Policy): Promise<Policy> {
+        return await this.write([["policy", policy.id]], () => this.repository.createPolicy(policy));
+    }
+
+    async getPolicy(policyId: string): Promise<Policy> {
+        return await this.read("policy", policyId, () => this.repository.getPolicy(policyId));
+    }
+
+    async attachPolicyToRole(policyId: string, roleId: string, validity?: ValidityWindow): Promise<void> {
+        await this.write([["role", roleId]], () => this.repository.attachPolicyToRole(policyId, roleId, validity));
+    }
+
+    async attachPolicyToUser(policyId: string, userId: string, validity?: ValidityWindow): Promise<void> {
+        await this.write([["user", userId]], () => this.repository.attachPolicyToUser(policyId, userId, validity));
+    }
+
+    async getUserPolicies(userId: string): Promise<Policy[]> {
+        const user = await this.getUser(userId);
+        return await this.getPolicies(user.policies || []);
+    }
+
+    async getRolePolicies(roleId: string): Promise<Policy[]> {
+        const role = await this.getRole(roleId);
+        return await this.getPolicies(role.policies || []);
+    }
+
+    async updateRole(role: Role): Promise<Role> {
+        return await this.write([["role", role.id]], () => this.repository.updateRole(role));
+    }
+
+    async updatePolicy(policy: Policy): Promise<Policy> {
+        return await this.write([["policy", policy.id]], () => this.repository.updatePolicy(policy));
+    }
+
+    async deletePolicy(policyId: string, options: DeleteOptions = {}): Promise<void> {
+        // A cascading delete changes entities that cannot all be found without a reverse lookup for groups
+        await this.write(options.cascade ? "all" : [["policy", policyId]], () => this.repository.deletePolicy(policyId, options));
+    }
+
+    async deleteRole(roleId: string, options: DeleteOptions = {}): Promise<void> {
+        await this.write(options.cascade ? "all" : [["role", roleId]], () => this.repository.deleteRole(roleId, options));
+    }
+
+    async detachPolicyFromRole(policyId: string, roleId: string): Promise<void> {
+        await this.write([["role", roleId]], () => this.repository.detachPolicyFromRole(policyId, roleId));
+    }
+
+    async detachPolicyFromUser(policyId: string, userId: string): Promise<void> {
+        await this.write([["user", userId]], () => this.repository.detachPolicyFromUser(policyId, userId));
+    }
+
+    async removeRoleFromUser(userId: string, roleId: string): Promise<void> {
+        await this.write([["user", userId]], () => this.repository.removeRoleFromUser(userId, roleId));
+    }
+
+    async addParentRole(roleId: string, parentRoleId: string): Promise<void> {
+        await this.write([["role", roleId]], () => this.repository.addParentRole(roleId, parentRoleId));
+    }
+
+    async removeParentRole(roleId: string, parentRoleId: string): Promise<void> {
+        await this.write([["role", roleId]], () => this.repository.removeParentRole(roleId, parentRoleId));
+    }
+
+    async createGroup(group: Group): Promise<Group> {
+        return await this.write([["group", group.id], ...entries("user", group.members)], () => this.repository.createGroup(group));
+    }
+
+    async getGroup(groupId: string): Promise<Group> {
+        return await this.read("group", groupId, () => this.repository.getGroup(groupId));
+    }
+
+    async updateGroup(group: Group): Promise<Group> {
+        return await this.write([["group", group.id]], () => this.repository.updateGroup(group));
+    }
+
+    async deleteGroup(groupId: string): Promise<void> {
+        const group = await this.repository.getGroup(groupId);
+        await this.write([["group", groupId], ...entries("user", group.members)], () => this.repository.deleteGroup(groupId));
+    }
+
+    async addUserToGroup(userId: string, groupId: string): Promise<void> {
+        await this.write([["user", userId], ["group", groupId]], () => this.repository.addUserToGroup(userId, groupId));
+    }
+
+    async removeUserFromGroup(userId: string, groupId: string): Promise<void> {
+        await this.write([["user", userId], ["group", groupId]], () => this.repository.removeUserFromGroup(userId, groupId));
+    }
+
+    async assignRoleToGroup(groupId: string, roleId: string): Promise<void> {
+        await this.write([["group", groupId]], () => this.repository.assignRoleToGroup(groupId, roleId));
+    }
+
+    async removeRoleFromGroup(groupId: string, roleId: string): Promise<void> {
+        await this.write([["group", groupId]], () => this.repository.removeRoleFromGroup(groupId, roleId));
+    }
+
+    async attachPolicyToGroup(policyId: string, groupId: string): Promise<void> {
+        await this.write([["group", groupId]], () => this.repository.attachPolicyToGroup(policyId, groupId));
+    }
+
+    async detachPolicyFromGroup(policyId: string, groupId: string): Promise<void> {
+        await this.write([["group", groupId]], () => this.repository.detachPolicyFromGroup(policyId, groupId));
+    }
+
+    async getGroupPolicies(groupId: string): Promise<Policy[]> {
+        const group = await this.getGroup(groupId);
+        return await this.getPolicies(group.policies || []);
+    }
+
+    async getUsersWithRole(roleId: string): Promise<User[]> {
+        return await this.repository.getUsersWithRole(roleId);
+    }
+
+    async getRolesWithPolicy(policyId: string): Promise<Role[]> {
+        return await this.repository.getRolesWithPolicy(policyId);
+    }
+
+    async getUsersWithPolicy(policyId: string): Promise<User[]> {
+        return await this.repository.getUsersWithPolicy(policyId);
+    }
+
+    async listUsers(options?: ListOptions): Promise<Page<User>> {
+        return await this.repository.listUsers(options);
+    }
+
+    async listRoles(options?: ListOptions): Promise<Page<Role>> {
+        return await this.repository.listRoles(options);
+    }
+
+    async listPolicies(options?: ListOptions): Promise<Page<Policy>> {
+        return await this.repository.listPolicies(options);
+    }
+
+    async getEffectivePolicies(userId: string): Promise<EffectivePolicies> {
+        // Resolved from the cached entities, so a change only causes the entities it affected to be read again
+        return await loadEffectivePolicies(userId, {
+            getUser: id => this.getUser(id),
+            getGroups: ids => Promise.all(ids.map(id => this.getGroup(id))),
+            getRoles: ids => Promise.all(ids.map(id => this.getRole(id))),
+            getPolicies: ids => this.getPolicies(ids)
+        });
+    }
+
+    /**
+     * Returns a cached access decision
+     * @returns The decision, or undefined if it is not cached or decisions are not cached at all
+     */
+    async getDecision(userId: string, action: string, resource: string, context: Record<string, any>): Promise<boolean | undefined> {
+        if (this.decisionTtl === undefined) {
+            return undefined;
+        }
+
+        const value = await this.store.get(await this.decisionKey(userId, action, resource, context));
+        return value === undefined ? undefined : JSON.parse(value);
+    }
+
+    /**
+     * Caches an access decision for `decisionTtl` milliseconds, if decisions are cached
+     */
+    async setDecision(userId: string, action: string, resource: string, context: Record<string, any>, allowed: boolean): Promise<void> {
+        if (this.decisionTtl === undefined) {
+            return;
+        }
+
+        await this.store.set(await this.decisionKey(userId, action, resource, context), JSON.stringify(allowed), this.decisionTtl);
+    }
+
+    private async getPolicies(policyIds: string[]): Promise<Policy[]> {
+        return await Promise.all(policyIds.map(policyId => this.getPolicy(policyId)));
+    }
+
+    /**
+     * Returns a cached entity, loading and caching it on a miss
+     */
+    private async read<E>(entityType: CachedEntityType, id: string, load: () => Promise<E>): Promise<E> {
+        const key = await this.entityKey(entityType, id);
+        const cached = await this.store.get(key);
+        if (cached !== undefined) {
+            return JSON.parse(cached);
+        }
+
+        const entity = await load();
+        await this.store.set(key, JSON.stringify(entity), this.ttl);
+        return entity;
+    }
+
+    /**
+     * Runs a change and then invalidates the entities it affected and all decisions
+     * Entries are invalidated even if the change fails, since it may have been partly applied
+     * @param affected - The affected entities, or "all" to invalidate every cached entity
+     */
+    private async write<R>(affected: CacheEntry[] | "all", change: () => Promise<R>): Promise<R> {
+        try {
+            return await change();
+        } finally {
+            if (affected === "all") {
+                await this.renewGeneration(this.generationKey("entities"));
+            } else {
+                await this.store.delete(await Promise.all(affected.map(([entityType, id]) => this.entityKey(entityType, id))));
+            }
+            if (this.decisionTtl !== undefined) {
+                await this.renewGeneration(this.generationKey("decisions"));
+            }
+        }
+    }
+
+    private async entityKey(entityType: CachedEntityType, id: string): Promise<string> {
+        const generation = await this.generation(this.generationKey("entities"));
+        return `${this.keyPrefix}${generation}:${entityType}:${id}`;
+    }
+
+    private async decisionKey(userId: string, action: string, resource: string, context: Record<string, any>): Promise<string> {
+        const generation = await this.generation(this.generationKey("decisions"));
+        const request = createHash("sha256").update(JSON.stringify([userId, action, resource, canonical(context)])).digest("hex");
+        return `${this.keyPrefix}${generation}:decision:${request}`;
+    }
+
+    private generationKey(scope: "entities" | "decisions"): string {
+        return `${this.keyPrefix}generation:${scope}`;
+    }
+
+    /**
+     * Reads the generation that is part of every key in a scope
+     * A missing generation, e.g. after eviction, is replaced so older entries are never read again
+     */
+    private async generation(key: string): Promise<string> {
+        return (await this.store.get(key)) ?? await this.renewGeneration(key);
+    }
+
+    /**
+     * Replaces the generation of a scope, which invalidates every entry written with the previous one
+     */
+    private async renewGeneration(key: string): Promise<string> {
+        const generation = randomBytes(8).toString("hex");
+        await this.store.set(key, generation);
+        return generation;
+    }
+}
+
+const entries = (entityType: CachedEntityType, ids: string[] = []): CacheEntry[] =>
+    ids.map((id): CacheEntry => [entityType, id]);
+
+/**
+ * Sorts object keys recursively so equal contexts produce the same decision key
+ */
+const canonical = (value: any): any => {
+    if (Array.isArray(value)) {
+        return value.map(canonical);
+    }
+    if (value && typeof value === "object" && !(value instanceof Date)) {
+        return Object.keys(value).sort().reduce<Record<string, any>>((sorted, key) => {
+            sorted[key] = canonical(value[key]);
+            return sorted;
+        }, {});
+    }
+    return value;
+};
@@ -1,7 +1,82 @@
-import { IBaseRepository } from "./base-repo";
-import { CreateTableCommand, CreateTableCommandInput, DescribeTableCommand, DynamoDBClient } from "@aws-sdk/client-dynamodb";
-import { DeleteCommand, DynamoDBDocumentClient, GetCommand, PutCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
-import { Policy, Role, User } from "../models";
+import { DEFAULT_PAGE_SIZE, DeleteOptions, EffectivePolicies, IBaseRepository, ListOptions, Page } from "./base-repo";
+import { loadEffectivePolicies } from "./effective-policies";
+import { ValidityMap, pickValidity, setValidity } from "./validity";
+import { CreateTableCommand, CreateTableCommandInput, DescribeTableCommand, DynamoDBClient, UpdateTableCommand, waitUntilTableExists } from "@aws-sdk/client-dynamodb";
+import { BatchGetCommand, BatchWriteCommand, DynamoDBDocumentClient, GetCommand, PutCommand, QueryCommand, ScanCommand, TransactWriteCommand } from "@aws-sdk/lib-dynamodb";
+import { Group, Policy, Role, User, ValidityWindow } from "../models";
+import {
+    DuplicateEntityError,
+    EntityInUseError,
+    EntityReference,
+    EntityType,
+    RbacError,
+    GroupNotFoundError,
+    PolicyNotFoundError,
+    RepositoryUnavailableError,
+    RoleNotFoundError,
+    UserNotFoundError,
+    ValidationError,
+    toRepositoryError
+} from "../errors";
+
+/**
+ * Maximum number of actions DynamoDB accepts in a single transaction
+ */
+const MAX_TRANSACTION_ITEMS = 100;
+
+/**
+ * Maximum number of keys DynamoDB accepts in a single BatchGetItem request
+ */
+const MAX_BATCH_GET_KEYS = 100;
+
+/**
+ * Maximum number of items DynamoDB accepts in a single BatchWriteItem request
+ */
+const MAX_BATCH_WRITE_ITEMS = 25;
+
+/**
+ * How often keys or items left unprocessed by BatchGetItem or BatchWriteItem are sent
+ * again, and the delay before the first retry, doubled on every further retry
+ */
+const MAX_BATCH_RETRIES = 5;
+const BATCH_RETRY_DELAY_MS = 25;
+
+/**
+ * Global secondary index on the `type` attribute, used to list entities of one type without scanning
+ */
+const TYPE_INDEX = "TypeIndex";
+
+const TYPE_INDEX_DEFINITION = {
+    IndexName: TYPE_INDEX,
+    KeySchema: [
+        { AttributeName: "type", KeyType: "HASH" as const },
+        { AttributeName: "PK", KeyType: "RANGE" as const }
+    ],
+    Projection: { ProjectionType: "ALL" as const }
+};
+
+/**
+ * Item recording the schema version of a table, so setupTables knows which migrations ran
+ * Version 1 has a relationship item for every assignment of a role or policy
+ */
+const SCHEMA_KEY = { PK: "SCHEMA", SK: "SCHEMA" };
+const SCHEMA_VERSION = 1;
+
+/**
+ * How long setupTables waits for a created table to become active, in seconds
+ */
+const TABLE_ACTIVE_TIMEOUT_SECONDS = 300;
+
+type TransactItem = NonNullable<ConstructorParameters<typeof TransactWriteCommand>[0]["TransactItems"]>[number];
+type TransactUpdate = NonNullable<TransactItem["Update"]>;
+
+/**
+ * Checks if a request failed because of a ConditionExpression, on its own or within a transaction
+ */
+const isConditionFailure = (err: any): boolean =>
+    err?.name === "ConditionalCheckFailedException" ||
+    (err?.name === "TransactionCanceledException" &&
+        (err.CancellationReasons || []).some((reason: { Code?: string }) => reason.Code === "ConditionalCheckFailed"));
 
 export class DynamoDBRepository implements IBaseRepository {
     private docClient: DynamoDBDocumentClient;
@@ -14,10 +89,17 @@ export class DynamoDBRepository implements IBaseRepository {
 
     async setupTables(): Promise<void> {
         try {
-            await this.client.send(new DescribeTableCommand({
+            const { Table } = await this.client.send(new DescribeTableCommand({
                 TableName: this.tableName
             }));
             console.log("Table already exists");
+
+            if (!(Table?.GlobalSecondaryIndexes || []).some(index => index.IndexName === TYPE_INDEX)) {
+                await this.addTypeIndex();
+            }
+            if (await this.getSchemaVersion() < SCHEMA_VERSION) {
+                await this.backfillRelations();
+            }
         } catch (err: any) {
             if (err.name === "ResourceNotFoundException") {
                 const params: CreateTableCommandInput = {
@@ -28,60 +110,140 @@ export class DynamoDBRepository implements IBaseRepository {
                     ],
                     AttributeDefinitions: [
                         { AttributeName: "PK", AttributeType: "S" },
-                        { AttributeName: "SK", AttributeType: "S" }
+                        { AttributeName: "SK", AttributeType: "S" },
+                        { AttributeName: "type", AttributeType: "S" }
                     ],
+                    GlobalSecondaryIndexes: [TYPE_INDEX_DEFINITION],
                     BillingMode: "PAY_PER_REQUEST"
                 }
                 
-                await this.client.send(new CreateTableCommand(params));
+                await this.execute(() => this.client.send(new CreateTableCommand(params)));
                 console.log("Table created");
+
+                // A new table holds every relationship item, so it never needs a backfill
+                await this.execute(() => waitUntilTableExists(
+                    { client: this.client, maxWaitTime: TABLE_ACTIVE_TIMEOUT_SECONDS },
+                    { TableName: this.tableName }
+                ));
+                await this.writeSchemaVersion();
+            } else if (err instanceof RbacError) {
+                throw err;
             } else {
-                throw new Error(`Something went wrong: ${err}`);
+                throw new RepositoryUnavailableError(`Failed to describe table ${this.tableName}: ${err.message}`, undefined, { cause: err });
             }
         }
     }
 
     async createUser(user: User): Promise<User> {
+        const groupIds = Array.from(new Set(user.groups || []));
+        const groups = await Promise.all(groupIds.map(groupId => this.getGroup(groupId)));
         const item = {
             PK: `USER#${user.id}`,
             SK: `USER#${user.id}`,
             type: "USER",
             name: user.name,
             roles: user.roles || [],
-            policies: user.policies || []
+            policies: user.policies || [],
+            groups: groupIds,
+            attributes: user.attributes || {},
+            roleValidity: pickValidity(user.roleValidity, user.roles) || {},
+            policyValidity: pickValidity(user.policyValidity, user.policies) || {}
         }
 
-        await this.docClient.send(new PutCommand({
-            TableName: this.tableName,
-            Item: item
-        }));
+        await this.transactWrite([
+            {
+                Put: {
+                    TableName: this.tableName,
+                    Item: item,
+                    ConditionExpression: "attribute_not_exists(PK)"
+                }
+            },
+            ...groups.map(group => ({ Update: this.listUpdate("GROUP", group.id, "members", Array.from(new Set([...(group.members || []), user.id]))) })),
+            ...this.relationChanges("ROLE", "USER", user.id, [], item.roles),
+            ...this.relationChanges("POLICY", "USER", user.id, [], item.policies)
+        ], cause => new DuplicateEntityError("User", user.id, { cause }));
 
         return user;
     }
 
     async getUser(userId: string): Promise<User> {
-        try {
-            const result = await this.docClient.send(new GetCommand({
-                TableName: this.tableName,
-                Key: {
-                    PK: `USER#${userId}`,
-                    SK: `USER#${userId}`
-                },
-            }));
-
-            if (!result.Item) {
-                throw new Error(`User not found: ${userId}`);
-            }
+        const result = await this.execute(() => this.docClient.send(new GetCommand({
+            TableName: this.tableName,
+            Key: {
+                PK: `USER#${userId}`,
+                SK: `USER#${userId}`
+            },
+        })));
 
-            return {
-                id: userId,
-                name: result.Item.name,
-                roles: result.Item.roles,
-                policies: result.Item.policies
-            }
-        } catch (err) {
-            throw new Error(`Something went wrong: ${err}`);
+        if (!result.Item) {
+            throw new UserNotFoundError(userId);
         }
+
+        return toUser(result.Item);
+    }
+
+    async updateUser(user: User): Promise<User> {
+        // Membership is stored on both the user and its groups, so it is only changed
+        // through addUserToGroup/removeUserFromGroup
+        const existing = await this.getUser(user.id);
+        // Assignments left in the user keep their windows unless new ones are given
+        const roleValidity = user.roleValidity || existing.roleValidity;
+        const policyValidity = user.policyValidity || existing.policyValidity;
+
+        await this.transactWrite([
+            {
+                Update: {
+                    TableName: this.tableName,
+                    Key: {
+                        PK: `USER#${user.id}`,
+                        SK: `USER#${user.id}`
+                    },
+                    UpdateExpression: "SET #nameAttr = :name, #rolesAttr = :roles, #policiesAttr = :policies, #attributesAttr = :attributes, " +
+                        "#roleValidityAttr = :roleValidity, #policyValidityAttr = :policyValidity",
+                    ConditionExpression: "attribute_exists(PK)",
+                    ExpressionAttributeNames: {
+                        "#nameAttr": "name",
+                        "#rolesAttr": "roles",
+                        "#policiesAttr": "policies",
+                        "#attributesAttr": "attributes",
+                        "#roleValidityAttr": "roleValidity",
+                        "#policyValidityAttr": "policyValidity"
+                    },
+                    ExpressionAttributeValues: {
+                        ":name": user.name,
+                        ":roles": user.roles || [],
+                        ":policies": user.policies || [],
+                        ":attributes": user.attributes || {},
+                        ":roleValidity": pickValidity(roleValidity, user.roles) || {},
+                        ":policyValidity": pickValidity(policyValidity, user.policies) || {}
+                    }
+                }
+            },
+            ...this.relationChanges("ROLE", "USER", user.id, existing.roles || [], user.roles || []),
+            ...this.relationChanges("POLICY", "USER", user.id, existing.policies || [], user.policies || [])
+        ], cause => new UserNotFoundError(user.id, { cause }));
+
+        return user;
+    }
+
+    async deleteUser(userId: string): Promise<void> {
+        const user = await this.getUser(userId);
+        const groups = await Promise.all((user.groups || []).map(groupId => this.getGroup(groupId)));
+
+        await this.transactWrite([
+            {
+                Delete: {
+                    TableName: this.tableName,
+                    Key: {
+                        PK: `USER#${userId}`,
+                        SK: `USER#${userId}`
+                    }
+                }
+            },
+            ...groups.map(group => ({ Update: this.listUpdate("GROUP", group.id, "members", (group.members || []).filter(u => u !== userId)) })),
+            ...this.relationChanges("ROLE", "USER", userId, user.roles || [], []),
+            ...this.relationChanges("POLICY", "USER", userId, user.policies || [], [])
+        ]);
     }
 
     async createRole(role: Role): Promise<Role> {
@@ -90,68 +252,55 @@ export class DynamoDBRepository implements IBaseRepository {
             SK: `ROLE#${role.id}`,
             type: "ROLE",
             name: role.name,
-            policies: role.policies || []
+            policies: role.policies || [],
+            policyValidity: pickValidity(role.policyValidity, role.policies) || {},
+            ...this.parentRolesAttribute(role)
         }
 
-        await this.docClient.send(new PutCommand({
-            TableName: this.tableName,
-            Item: item
-        }));
+        await this.transactWrite([
+            {
+                Put: {
+                    TableName: this.tableName,
+                    Item: item,
+                    ConditionExpression: "attribute_not_exists(PK)"
+                }
+            },
+            ...this.relationChanges("POLICY", "ROLE", role.id, [], item.policies),
+            ...this.relationChanges("ROLE", "CHILD", role.id, [], role.parentRoles || [])
+        ], cause => new DuplicateEntityError("Role", role.id, { cause }));
         
         return role;
     }
 
     async getRole(roleId: string): Promise<Role> {
-        try {
-            const result = await this.docClient.send(new GetCommand({
-                TableName: this.tableName,
-                Key: {
-                    PK: `ROLE#${roleId}`,
-                    SK: `ROLE#${roleId}`
-                },
-            }));
-
-            if (!result.Item) {
-                throw new Error(`Role not found: ${roleId}`);
-            }
+        const result = await this.execute(() => this.docClient.send(new GetCommand({
+            TableName: this.tableName,
+            Key: {
+                PK: `ROLE#${roleId}`,
+                SK: `ROLE#${roleId}`
+            },
+        })));
 
-            return {
-                id: roleId,
-                name: result.Item.name,
-                policies: result.Item.policies
-            }
-        } catch (err) {
-            throw new Error(`Something went wrong: ${err}`);
+        if (!result.Item) {
+            throw new RoleNotFoundError(roleId);
         }
+
+        return toRole(result.Item);
     }
 
-    async assignRoleToUser(userId: string, roleId: string): Promise<User> {
+    async assignRoleToUser(userId: string, roleId: string, validity?: ValidityWindow): Promise<User> {
         const user = await this.getUser(userId);
+        const updatedRoles = Array.from(new Set([...(user.roles || []), roleId]));
+        const roleValidity = setValidity(user.roleValidity, roleId, validity);
 
-        if (!user.roles) {
-            user.roles = [];
-        }
-
-        const roles = new Set(user.roles);
-        roles.add(roleId);
-        const updatedRoles = Array.from(roles);
-
-        await this.docClient.send(new UpdateCommand({
-            TableName: this.tableName,
-            Key: {
-                PK: `USER#${userId}`,
-                SK: `USER#${userId}`
-            },
-            UpdateExpression: "SET #rolesAttr = :roles",
-            ExpressionAttributeNames: {
-                "#rolesAttr": "roles"
-            },
-            ExpressionAttributeValues: {
-                ":roles": updatedRoles
-            }
-        }));
+        // The role is checked in the transaction, so no relationship item points to a missing role
+        await this.transactWrite([
+            this.roleExistsCheck(roleId),
+            { Update: this.assignmentUpdate("USER", userId, "roles", updatedRoles, "roleValidity", roleValidity) },
+            ...this.relationChanges("ROLE", "USER", userId, user.roles || [], updatedRoles)
+        ], cause => new RoleNotFoundError(roleId, { cause }));
 
-        return user;
+        return { ...user, roles: updatedRoles, roleValidity: pickValidity(roleValidity, updatedRoles) };
     }
 
     async createPolicy(policy: Policy): Promise<Policy> {
@@ -162,82 +311,61 @@ export class DynamoDBRepository implements IBaseRepository {
             document: policy.document
         }
 
-        await this.docClient.send(new PutCommand({
+        await this.execute(() => this.docClient.send(new PutCommand({
             TableName: this.tableName,
-            Item: item
-        }));
+            Item: item,
+            ConditionExpression: "attribute_not_exists(PK)"
+        })), cause => new DuplicateEntityError("Policy", policy.id, { cause }));
         
         return policy;
     }
 
-    async attachPolicyToRole(policyId: string, roleId: string): Promise<void> {
+    async attachPolicyToRole(policyId: string, roleId: string, validity?: ValidityWindow): Promise<void> {
         const role = await this.getRole(roleId);
+        await this.getPolicy(policyId);
+        const updatedPolicies = Array.from(new Set([...(role.policies || []), policyId]));
+        const policyValidity = setValidity(role.policyValidity, policyId, validity);
 
-        if (!role.policies) {
-            role.policies = [];
-        }
-
-        const policies = new Set(role.policies);
-        policies.add(policyId);
-        const updatedPolicies = Array.from(policies);
-
-        await this.docClient.send(new UpdateCommand({
-            TableName: this.tableName,
-            Key: {
-                PK: `ROLE#${roleId}`,
-                SK: `ROLE#${roleId}`
-            },
-            UpdateExpression: "SET #policiesAttr = :policies",
-            ExpressionAttributeNames: {
-                "#policiesAttr": "policies"
-            },
-            ExpressionAttributeValues: {
-                ":policies": updatedPolicies
-            }
-        }));
+        await this.transactWrite([
+            { Update: this.assignmentUpdate("ROLE", roleId, "policies", updatedPolicies, "policyValidity", policyValidity) },
+            ...this.relationChanges("POLICY", "ROLE", roleId, role.policies || [], updatedPolicies)
+        ]);
     }
 
     async getUserPolicies(userId: string): Promise<Policy[]> {
         const user = await this.getUser(userId);
-        const policies: Policy[] = [];
-
-        if (user.policies) {
-            for (const policyId of user.policies) {
-                const policy = await this.getPolicy(policyId);
-                policies.push(policy);
-            }
-        }
-
-        return policies;
+        return await this.getPolicies(user.policies || []);
     }
 
     async getRolePolicies(roleId: string): Promise<Policy[]> {
         const role = await this.getRole(roleId);
-        const policies: Policy[] = [];
-
-        if (role.policies) {
-            for (const policyId of role.policies) {
-                const policy = await this.getPolicy(policyId);
-                policies.push(policy);
-            }
-        }
-
-        return policies
+        return await this.getPolicies(role.policies || []);
     }
 
     async updateRole(role: Role): Promise<Role> {
+        const existing = await this.getRole(role.id);
         const item = {
             PK: `ROLE#${role.id}`,
             SK: `ROLE#${role.id}`,
             type: "ROLE",
             name: role.name,
-            policies: role.policies || []
+            policies: role.policies || [],
+            // Policies left in the role keep their windows unless new ones are given
+            policyValidity: pickValidity(role.policyValidity || existing.policyValidity, role.policies) || {},
+            ...this.parentRolesAttribute(role)
         }
 
-        await this.docClient.send(new PutCommand({
-            TableName: this.tableName,
-            Item: item
-        }));
+        await this.transactWrite([
+            {
+                Put: {
+                    TableName: this.tableName,
+                    Item: item,
+                    ConditionExpression: "attribute_exists(PK)"
+                }
+            },
+            ...this.relationChanges("POLICY", "ROLE", role.id, existing.policies || [], item.policies),
+            ...this.relationChanges("ROLE", "CHILD", role.id, existing.parentRoles || [], role.parentRoles || [])
+        ], cause => new RoleNotFoundError(role.id, { cause }));
         
         return role;
     }
@@ -250,32 +378,72 @@ export class DynamoDBRepository implements IBaseRepository {
             document: policy.document
         }
 
-        await this.docClient.send(new PutCommand({
+        await this.execute(() => this.docClient.send(new PutCommand({
             TableName: this.tableName,
-            Item: item
-        }));
+            Item: item,
+            ConditionExpression: "attribute_exists(PK)"
+        })), cause => new PolicyNotFoundError(policy.id, { cause }));
         
         return policy;
     }
 
-    async deletePolicy(policyId: string): Promise<void> {
-        await this.docClient.send(new DeleteCommand({
-            TableName: this.tableName,
-            Key: {
-                PK: `POLICY#${policyId}`,
-                SK: `POLICY#${policyId}`
-            }
-        }));
+    async deletePolicy(policyId: string, options: DeleteOptions = {}): Promise<void> {
+        const [userIds, roleIds, groupIds] = await Promise.all([
+            this.queryRelations("POLICY", policyId, "USER"),
+            this.queryRelations("POLICY", policyId, "ROLE"),
+            this.queryRelations("POLICY", policyId, "GROUP")
+        ]);
+        this.assertUnused("Policy", policyId, { User: userIds, Role: roleIds, Group: groupIds }, options);
+
+        const [users, roles, groups] = await Promise.all([
+            Promise.all(userIds.map(userId => this.getUser(userId))),
+            Promise.all(roleIds.map(roleId => this.getRole(roleId))),
+            Promise.all(groupIds.map(groupId => this.getGroup(groupId)))
+        ]);
+        const without = (policies: string[] = []) => policies.filter(p => p !== policyId);
+
+        await this.transactWrite([
+            { Delete: { TableName: this.tableName, Key: { PK: `POLICY#${policyId}`, SK: `POLICY#${policyId}` } } },
+            ...users.map(user => ({ Update: this.assignmentUpdate("USER", user.id, "policies", without(user.policies), "policyValidity", user.policyValidity) })),
+            ...roles.map(role => ({ Update: this.assignmentUpdate("ROLE", role.id, "policies", without(role.policies), "policyValidity", role.policyValidity) })),
+            ...groups.map(group => ({ Update: this.listUpdate("GROUP", group.id, "policies", without(group.policies)) })),
+            ...this.relationDeletes("POLICY", policyId, { USER: userIds, ROLE: roleIds, GROUP: groupIds })
+        ]);
     }
 
-    async deleteRole(roleId: string): Promise<void> {
-        await this.docClient.send(new DeleteCommand({
-            TableName: this.tableName,
-            Key: {
-                PK: `ROLE#${roleId}`,
-                SK: `ROLE#${roleId}`
-            }
-        }));
+    async deleteRole(roleId: string, options: DeleteOptions = {}): Promise<void> {
+        const [role, userIds, groupIds, childIds] = await Promise.all([
+            this.getRole(roleId).catch(err => {
+                if (err instanceof RoleNotFoundError) {
+                    return undefined;
+                }
+                throw err;
+            }),
+            this.queryRelations("ROLE", roleId, "USER"),
+            this.queryRelations("ROLE", roleId, "GROUP"),
+            this.queryRelations("ROLE", roleId, "CHILD")
+        ]);
+        // A role listed as its own parent does not count as a reference
+        const otherChildIds = childIds.filter(childId => childId !== roleId);
+        this.assertUnused("Role", roleId, { User: userIds, Group: groupIds, Role: otherChildIds }, options);
+
+        const [users, groups] = await Promise.all([
+            Promise.all(userIds.map(userId => this.getUser(userId))),
+            Promise.all(groupIds.map(groupId => this.getGroup(groupId)))
+        ]);
+        const without = (roles: string[] = []) => roles.filter(r => r !== roleId);
+
+        // The role's own relationship items are removed with it, and so are its references in
+        // users, groups and child roles when the delete cascades
+        await this.transactWrite([
+            { Delete: { TableName: this.tableName, Key: { PK: `ROLE#${roleId}`, SK: `ROLE#${roleId}` } } },
+            ...this.relationChanges("POLICY", "ROLE", roleId, role?.policies || [], []),
+            ...this.relationChanges("ROLE", "CHILD", roleId, without(role?.parentRoles), []),
+            ...users.map(user => ({ Update: this.assignmentUpdate("USER", user.id, "roles", without(user.roles), "roleValidity", user.roleValidity) })),
+            ...groups.map(group => ({ Update: this.listUpdate("GROUP", group.id, "roles", without(group.roles)) })),
+            ...otherChildIds.map(childId => ({ Update: this.parentRoleUpdate(childId, "DELETE", roleId) })),
+            ...this.relationDeletes("ROLE", roleId, { USER: userIds, GROUP: groupIds, CHILD: childIds })
+        ]);
     }
 
     async detachPolicyFromUser(policyId: string, userId: string): Promise<void> {
@@ -286,20 +454,10 @@ export class DynamoDBRepository implements IBaseRepository {
         }
 
         const policies = user.policies.filter(p => p !== policyId);
-        await this.docClient.send(new UpdateCommand({
-            TableName: this.tableName,
-            Key: {
-                PK: `USER#${userId}`,
-                SK: `USER#${userId}`
-            },
-            UpdateExpression: "SET #policiesAttr = :policies",
-            ExpressionAttributeNames: {
-                "#policiesAttr": "policies"
-            },
-            ExpressionAttributeValues: {
-                ":policies": policies
-            },
-        }));
+        await this.transactWrite([
+            { Update: this.assignmentUpdate("USER", userId, "policies", policies, "policyValidity", user.policyValidity) },
+            ...this.relationChanges("POLICY", "USER", userId, user.policies, policies)
+        ]);
     }
 
     async detachPolicyFromRole(policyId: string, roleId: string): Promise<void> {
@@ -310,20 +468,10 @@ export class DynamoDBRepository implements IBaseRepository {
         }
 
         const policies = role.policies.filter(p => p !== policyId);
-        await this.docClient.send(new UpdateCommand({
-            TableName: this.tableName,
-            Key: {
-                PK: `ROLE#${roleId}`,
-                SK: `ROLE#${roleId}`
-            },
-            UpdateExpression: "SET #policiesAttr = :policies",
-            ExpressionAttributeNames: {
-                "#policiesAttr": "policies"
-            },
-            ExpressionAttributeValues: {
-                ":policies": policies
-            },
-        }));
+        await this.transactWrite([
+            { Update: this.assignmentUpdate("ROLE", roleId, "policies", policies, "policyValidity", role.policyValidity) },
+            ...this.relationChanges("POLICY", "ROLE", roleId, role.policies, policies)
+        ]);
     }
 
     async removeRoleFromUser(userId: string, roleId: string): Promise<void> {
@@ -334,69 +482,697 @@ export class DynamoDBRepository implements IBaseRepository {
         }
 
         const roles = user.roles.filter(r => r !== roleId);
-        await this.docClient.send(new UpdateCommand({
+        await this.transactWrite([
+            { Update: this.assignmentUpdate("USER", userId, "roles", roles, "roleValidity", user.roleValidity) },
+            ...this.relationChanges("ROLE", "USER", userId, user.roles, roles)
+        ]);
+    }
+
+    async attachPolicyToUser(policyId: string, userId: string, validity?: ValidityWindow): Promise<void> {
+        const user = await this.getUser(userId);
+        await this.getPolicy(policyId);
+        const updatedPolicies = Array.from(new Set([...(user.policies || []), policyId]));
+        const policyValidity = setValidity(user.policyValidity, policyId, validity);
+
+        await this.transactWrite([
+            { Update: this.assignmentUpdate("USER", userId, "policies", updatedPolicies, "policyValidity", policyValidity) },
+            ...this.relationChanges("POLICY", "USER", userId, user.policies || [], updatedPolicies)
+        ]);
+    }
+
+    async addParentRole(roleId: string, parentRoleId: string): Promise<void> {
+        // Parent roles are stored as a string set so they can be added atomically without a read
+        await this.transactWrite([
+            { Update: this.parentRoleUpdate(roleId, "ADD", parentRoleId) },
+            ...this.relationChanges("ROLE", "CHILD", roleId, [], [parentRoleId])
+        ], cause => new RoleNotFoundError(roleId, { cause }));
+    }
+
+    async removeParentRole(roleId: string, parentRoleId: string): Promise<void> {
+        await this.transactWrite([
+            { Update: this.parentRoleUpdate(roleId, "DELETE", parentRoleId) },
+            ...this.relationChanges("ROLE", "CHILD", roleId, [parentRoleId], [])
+        ], cause => new RoleNotFoundError(roleId, { cause }));
+    }
+
+    async createGroup(group: Group): Promise<Group> {
+        const members = Array.from(new Set(group.members || []));
+        const users = await Promise.all(members.map(userId => this.getUser(userId)));
+
+        await this.transactWrite([
+            {
+                Put: {
+                    TableName: this.tableName,
+                    Item: {
+                        PK: `GROUP#${group.id}`,
+                        SK: `GROUP#${group.id}`,
+                        type: "GROUP",
+                        name: group.name,
+                        members,
+                        roles: group.roles || [],
+                        policies: group.policies || []
+                    },
+                    ConditionExpression: "attribute_not_exists(PK)"
+                }
+            },
+            ...users.map(user => ({ Update: this.listUpdate("USER", user.id, "groups", Array.from(new Set([...(user.groups || []), group.id]))) })),
+            ...this.relationChanges("ROLE", "GROUP", group.id, [], group.roles || []),
+            ...this.relationChanges("POLICY", "GROUP", group.id, [], group.policies || [])
+        ], cause => new DuplicateEntityError("Group", group.id, { cause }));
+
+        return group;
+    }
+
+    async getGroup(groupId: string): Promise<Group> {
+        const result = await this.execute(() => this.docClient.send(new GetCommand({
             TableName: this.tableName,
             Key: {
-                PK: `USER#${userId}`,
-                SK: `USER#${userId}`
+                PK: `GROUP#${groupId}`,
+                SK: `GROUP#${groupId}`
             },
-            UpdateExpression: "SET #rolesAttr = :roles",
-            ExpressionAttributeNames: {
-                "#rolesAttr": "roles"
+        })));
+
+        if (!result.Item) {
+            throw new GroupNotFoundError(groupId);
+        }
+
+        return toGroup(result.Item);
+    }
+
+    async updateGroup(group: Group): Promise<Group> {
+        // Membership is stored on both the group and its users, so it is only changed
+        // through addUserToGroup/removeUserFromGroup
+        const existing = await this.getGroup(group.id);
+
+        await this.transactWrite([
+            {
+                Update: {
+                    TableName: this.tableName,
+                    Key: {
+                        PK: `GROUP#${group.id}`,
+                        SK: `GROUP#${group.id}`
+                    },
+                    UpdateExpression: "SET #nameAttr = :name, #rolesAttr = :roles, #policiesAttr = :policies",
+                    ConditionExpression: "attribute_exists(PK)",
+                    ExpressionAttributeNames: {
+                        "#nameAttr": "name",
+                        "#rolesAttr": "roles",
+                        "#policiesAttr": "policies"
+                    },
+                    ExpressionAttributeValues: {
+                        ":name": group.name,
+                        ":roles": group.roles || [],
+                        ":policies": group.policies || []
+                    }
+                }
             },
-            ExpressionAttributeValues: {
-                ":roles": roles
+            ...this.relationChanges("ROLE", "GROUP", group.id, existing.roles || [], group.roles || []),
+            ...this.relationChanges("POLICY", "GROUP", group.id, existing.policies || [], group.policies || [])
+        ], cause => new GroupNotFoundError(group.id, { cause }));
+
+        return group;
+    }
+
+    async deleteGroup(groupId: string): Promise<void> {
+        const group = await this.getGroup(groupId);
+        const users = await Promise.all((group.members || []).map(userId => this.getUser(userId)));
+
+        await this.transactWrite([
+            {
+                Delete: {
+                    TableName: this.tableName,
+                    Key: {
+                        PK: `GROUP#${groupId}`,
+                        SK: `GROUP#${groupId}`
+                    }
+                }
             },
-        }));
+            ...users.map(user => ({ Update: this.listUpdate("USER", user.id, "groups", (user.groups || []).filter(g => g !== groupId)) })),
+            ...this.relationChanges("ROLE", "GROUP", groupId, group.roles || [], []),
+            ...this.relationChanges("POLICY", "GROUP", groupId, group.policies || [], [])
+        ]);
     }
 
-    async attachPolicyToUser(policyId: string, userId: string): Promise<void> {
-        const user = await this.getUser(userId);
+    async addUserToGroup(userId: string, groupId: string): Promise<void> {
+        const [user, group] = await Promise.all([this.getUser(userId), this.getGroup(groupId)]);
 
-        if (!user.policies) {
-            user.policies = [];
+        await this.transactWrite([
+            { Update: this.listUpdate("USER", userId, "groups", Array.from(new Set([...(user.groups || []), groupId]))) },
+            { Update: this.listUpdate("GROUP", groupId, "members", Array.from(new Set([...(group.members || []), userId]))) }
+        ]);
+    }
+
+    async removeUserFromGroup(userId: string, groupId: string): Promise<void> {
+        const [user, group] = await Promise.all([this.getUser(userId), this.getGroup(groupId)]);
+
+        await this.transactWrite([
+            { Update: this.listUpdate("USER", userId, "groups", (user.groups || []).filter(g => g !== groupId)) },
+            { Update: this.listUpdate("GROUP", groupId, "members", (group.members || []).filter(u => u !== userId)) }
+        ]);
+    }
+
+    async assignRoleToGroup(groupId: string, roleId: string): Promise<void> {
+        const group = await this.getGroup(groupId);
+        const roles = Array.from(new Set([...(group.roles || []), roleId]));
+
+        await this.transactWrite([
+            this.roleExistsCheck(roleId),
+            { Update: this.listUpdate("GROUP", groupId, "roles", roles) },
+            ...this.relationChanges("ROLE", "GROUP", groupId, group.roles || [], roles)
+        ], cause => new RoleNotFoundError(roleId, { cause }));
+    }
+
+    async removeRoleFromGroup(groupId: string, roleId: string): Promise<void> {
+        const group = await this.getGroup(groupId);
+
+        if (!group.roles) {
+            return;
+        }
+
+        const roles = group.roles.filter(r => r !== roleId);
+        await this.transactWrite([
+            { Update: this.listUpdate("GROUP", groupId, "roles", roles) },
+            ...this.relationChanges("ROLE", "GROUP", groupId, group.roles, roles)
+        ]);
+    }
+
+    async attachPolicyToGroup(policyId: string, groupId: string): Promise<void> {
+        const group = await this.getGroup(groupId);
+        await this.getPolicy(policyId);
+        const policies = Array.from(new Set([...(group.policies || []), policyId]));
+
+        await this.transactWrite([
+            { Update: this.listUpdate("GROUP", groupId, "policies", policies) },
+            ...this.relationChanges("POLICY", "GROUP", groupId, group.policies || [], policies)
+        ]);
+    }
+
+    async detachPolicyFromGroup(policyId: string, groupId: string): Promise<void> {
+        const group = await this.getGroup(groupId);
+
+        if (!group.policies) {
+            return;
+        }
+
+        const policies = group.policies.filter(p => p !== policyId);
+        await this.transactWrite([
+            { Update: this.listUpdate("GROUP", groupId, "policies", policies) },
+            ...this.relationChanges("POLICY", "GROUP", groupId, group.policies, policies)
+        ]);
+    }
+
+    async getGroupPolicies(groupId: string): Promise<Policy[]> {
+        const group = await this.getGroup(groupId);
+        return await this.getPolicies(group.policies || []);
+    }
+
+    async getEffectivePolicies(userId: string): Promise<EffectivePolicies> {
+        return await loadEffectivePolicies(userId, {
+            getUser: id => this.getUser(id),
+            getGroups: ids => this.batchGetEntities("GROUP", ids, toGroup, GroupNotFoundError),
+            getRoles: ids => this.batchGetEntities("ROLE", ids, toRole, RoleNotFoundError),
+            getPolicies: ids => this.getPolicies(ids)
+        });
+    }
+
+    async getUsersWithRole(roleId: string): Promise<User[]> {
+        const userIds = await this.queryRelations("ROLE", roleId, "USER");
+        return await Promise.all(userIds.map(userId => this.getUser(userId)));
+    }
+
+    async getRolesWithPolicy(policyId: string): Promise<Role[]> {
+        const roleIds = await this.queryRelations("POLICY", policyId, "ROLE");
+        return await Promise.all(roleIds.map(roleId => this.getRole(roleId)));
+    }
+
+    async getUsersWithPolicy(policyId: string): Promise<User[]> {
+        const userIds = await this.queryRelations("POLICY", policyId, "USER");
+        return await Promise.all(userIds.map(userId => this.getUser(userId)));
+    }
+
+    async listUsers(options: ListOptions = {}): Promise<Page<User>> {
+        const page = await this.queryByType("USER", options);
+        return { ...page, items: page.items.map(toUser) };
+    }
+
+    async listRoles(options: ListOptions = {}): Promise<Page<Role>> {
+        const page = await this.queryByType("ROLE", options);
+        return { ...page, items: page.items.map(toRole) };
+    }
+
+    async listPolicies(options: ListOptions = {}): Promise<Page<Policy>> {
+        // Policies have no name, so the prefix applies to the ID and becomes part of the key condition
+        const page = await this.queryByType("POLICY", options);
+        return { ...page, items: page.items.map(toPolicy) };
+    }
+
+    /**
+     * Queries one page of items of a type from the type index
+     * The cursor is the encoded LastEvaluatedKey, and name prefixes are applied as a filter,
+     * so a page may hold fewer items than the limit
+     */
+    private async queryByType(entityType: string, options: ListOptions): Promise<Page<Record<string, any>>> {
+        const byId = entityType === "POLICY";
+        const names: Record<string, string> = { "#typeAttr": "type" };
+        const values: Record<string, string> = { ":type": entityType };
+        let keyCondition = "#typeAttr = :type";
+        let filter: string | undefined;
+
+        if (options.prefix && byId) {
+            keyCondition += " AND begins_with(PK, :prefix)";
+            values[":prefix"] = `${entityType}#${options.prefix}`;
+        } else if (options.prefix) {
+            filter = "begins_with(#nameAttr, :prefix)";
+            names["#nameAttr"] = "name";
+            values[":prefix"] = options.prefix;
+        }
+
+        const result = await this.execute(() => this.docClient.send(new QueryCommand({
+            TableName: this.tableName,
+            IndexName: TYPE_INDEX,
+            KeyConditionExpression: keyCondition,
+            FilterExpression: filter,
+            ExpressionAttributeNames: names,
+            ExpressionAttributeValues: values,
+            Limit: options.limit || DEFAULT_PAGE_SIZE,
+            ExclusiveStartKey: options.cursor ? decodeCursor(options.cursor) : undefined
+        })));
+
+        return {
+            items: result.Items || [],
+            nextCursor: result.LastEvaluatedKey ? encodeCursor(result.LastEvaluatedKey) : undefined
+        };
+    }
+
+    /**
+     * Adds the type index to a table created by an earlier version
+     * DynamoDB backfills the index in the background, so lists may be incomplete until it is active
+     */
+    private async addTypeIndex(): Promise<void> {
+        await this.execute(() => this.client.send(new UpdateTableCommand({
+            TableName: this.tableName,
+            AttributeDefinitions: [{ AttributeName: "type", AttributeType: "S" }],
+            GlobalSecondaryIndexUpdates: [{ Create: TYPE_INDEX_DEFINITION }]
+        })));
+        console.log("Type index created");
+    }
+
+    /**
+     * Writes the relationship items of every assignment, for tables written by versions
+     * that did not keep them, and records that the table has them
+     *
+     * Reverse lookups and the reference checks of deleteRole and deletePolicy read these
+     * items. setupTables runs this once for existing tables; it scans the whole table, so
+     * run it before the application writes to the table. Writing an item that exists has
+     * no effect, so it can be run again, e.g. after it was interrupted.
+     */
+    async backfillRelations(): Promise<void> {
+        let startKey: Record<string, any> | undefined;
+
+        do {
+            // The type index may still be building, so entity items are found with a scan
+            const result = await this.execute(() => this.docClient.send(new ScanCommand({
+                TableName: this.tableName,
+                FilterExpression: "PK = SK",
+                ExclusiveStartKey: startKey
+            })));
+            await this.batchPut((result.Items || []).flatMap(relationKeys));
+            startKey = result.LastEvaluatedKey;
+        } while (startKey);
+
+        await this.writeSchemaVersion();
+        console.log("Relationship items backfilled");
+    }
+
+    /**
+     * Records that the table is at the current schema version
+     */
+    private async writeSchemaVersion(): Promise<void> {
+        await this.execute(() => this.docClient.send(new PutCommand({
+            TableName: this.tableName,
+            Item: { ...SCHEMA_KEY, version: SCHEMA_VERSION }
+        })));
+    }
+
+    /**
+     * Reads the schema version of the table, which is 0 for tables written by versions that did not record it
+     */
+    private async getSchemaVersion(): Promise<number> {
+        const result = await this.execute(() => this.docClient.send(new GetCommand({
+            TableName: this.tableName,
+            Key: SCHEMA_KEY
+        })));
+        return result.Item?.version || 0;
+    }
+
+    /**
+     * Writes items with BatchWriteItem, sending unprocessed items again with exponential backoff
+     * @throws RepositoryUnavailableError if items are still unprocessed after MAX_BATCH_RETRIES retries
+     */
+    private async batchPut(items: Record<string, any>[]): Promise<void> {
+        for (let i = 0; i < items.length; i += MAX_BATCH_WRITE_ITEMS) {
+            let pending = items.slice(i, i + MAX_BATCH_WRITE_ITEMS).map(Item => ({ PutRequest: { Item } }));
+
+            for (let attempt = 0; pending.length > 0; attempt++) {
+                if (attempt > MAX_BATCH_RETRIES) {
+                    throw new RepositoryUnavailableError(`BatchWriteItem left ${pending.length} items unprocessed`);
+                }
+                if (attempt > 0) {
+                    await delay(BATCH_RETRY_DELAY_MS * 2 ** (attempt - 1));
+                }
+
+                const result = await this.execute(() => this.docClient.send(new BatchWriteCommand({
+                    RequestItems: { [this.tableName]: pending }
+                })));
+                pending = (result.UnprocessedItems?.[this.tableName] || []) as typeof pending;
+            }
+        }
+    }
+
+    private async getPolicies(policyIds: string[]): Promise<Policy[]> {
+        return await this.batchGetEntities("POLICY", policyIds, toPolicy, PolicyNotFoundError);
+    }
+
+    /**
+     * Reads entities of one type with BatchGetItem, in the order of their IDs
+     * @throws The given not-found error for the first ID without an item
+     */
+    private async batchGetEntities<E>(
+        entityType: string,
+        ids: string[],
+        convert: (item: Record<string, any>) => E,
+        NotFoundError: new (id: string) => RbacError
+    ): Promise<E[]> {
+        const keys = Array.from(new Set(ids)).map(id => ({ PK: `${entityType}#${id}`, SK: `${entityType}#${id}` }));
+        const chunks: Record<string, any>[][] = [];
+        for (let i = 0; i < keys.length; i += MAX_BATCH_GET_KEYS) {
+            chunks.push(keys.slice(i, i + MAX_BATCH_GET_KEYS));
+        }
+
+        const items = new Map<string, Record<string, any>>();
+        for (const item of (await Promise.all(chunks.map(chunk => this.batchGet(chunk)))).flat()) {
+            items.set(item.PK.slice(entityType.length + 1), item);
+        }
+
+        return ids.map(id => {
+            const item = items.get(id);
+            if (!item) {
+                throw new NotFoundError(id);
+            }
+            return convert(item);
+        });
+    }
+
+    /**
+     * Reads up to MAX_BATCH_GET_KEYS items, requesting unprocessed keys again with exponential backoff
+     * @throws RepositoryUnavailableError if keys are still unprocessed after MAX_BATCH_RETRIES retries
+     */
+    private async batchGet(keys: Record<string, any>[]): Promise<Record<string, any>[]> {
+        const items: Record<string, any>[] = [];
+        let pending = keys;
+
+        for (let attempt = 0; pending.length > 0; attempt++) {
+            if (attempt > MAX_BATCH_RETRIES) {
+                throw new RepositoryUnavailableError(`BatchGetItem left ${pending.length} keys unprocessed`);
+            }
+            if (attempt > 0) {
+                await delay(BATCH_RETRY_DELAY_MS * 2 ** (attempt - 1));
+            }
+
+            const result = await this.execute(() => this.docClient.send(new BatchGetCommand({
+                RequestItems: { [this.tableName]: { Keys: pending } }
+            })));
+            items.push(...(result.Responses?.[this.tableName] || []));
+            pending = result.UnprocessedKeys?.[this.tableName]?.Keys || [];
         }
 
-        const policies = new Set(user.policies);
-        policies.add(policyId);
-        const updatedPolicies = Array.from(policies);
+        return items;
+    }
 
-        await this.docClient.send(new UpdateCommand({
+    /**
+     * Reads the IDs of the entities holding a role or policy, ordered by ID
+     * Relationship items live in the partition of the role or policy, with the holder as sort key
+     */
+    private async queryRelations(targetType: string, targetId: string, holderType: string): Promise<string[]> {
+        const ids: string[] = [];
+        let startKey: Record<string, any> | undefined;
+
+        do {
+            const result = await this.execute(() => this.docClient.send(new QueryCommand({
+                TableName: this.tableName,
+                KeyConditionExpression: "PK = :pk AND begins_with(SK, :holder)",
+                ExpressionAttributeValues: {
+                    ":pk": `${targetType}#${targetId}`,
+                    ":holder": `${holderType}#`
+                },
+                ExclusiveStartKey: startKey
+            })));
+            ids.push(...(result.Items || []).map(item => item.SK.slice(holderType.length + 1)));
+            startKey = result.LastEvaluatedKey;
+        } while (startKey);
+
+        return ids;
+    }
+
+    /**
+     * Builds the writes that keep relationship items in sync with a changed assignment list
+     * Relationship items have no `type` attribute, so they never appear in the type index
+     */
+    private relationChanges(targetType: string, holderType: string, holderId: string, before: string[], after: string[]): TransactItem[] {
+        const key = (targetId: string) => ({ PK: `${targetType}#${targetId}`, SK: `${holderType}#${holderId}` });
+
+        return [
+            ...Array.from(new Set(after)).filter(id => !before.includes(id))
+                .map(id => ({ Put: { TableName: this.tableName, Item: key(id) } })),
+            ...Array.from(new Set(before)).filter(id => !after.includes(id))
+                .map(id => ({ Delete: { TableName: this.tableName, Key: key(id) } }))
+        ];
+    }
+
+    /**
+     * Builds a check failing the transaction it is part of if a role does not exist
+     */
+    private roleExistsCheck(roleId: string): TransactItem {
+        return {
+            ConditionCheck: {
+                TableName: this.tableName,
+                Key: { PK: `ROLE#${roleId}`, SK: `ROLE#${roleId}` },
+                ConditionExpression: "attribute_exists(PK)"
+            }
+        };
+    }
+
+    /**
+     * Builds the deletes of the relationship items in the partition of a role or policy
+     */
+    private relationDeletes(targetType: string, targetId: string, holderIds: Record<string, string[]>): TransactItem[] {
+        return Object.entries(holderIds).flatMap(([holderType, ids]) => ids.map(id => ({
+            Delete: { TableName: this.tableName, Key: { PK: `${targetType}#${targetId}`, SK: `${holderType}#${id}` } }
+        })));
+    }
+
+    /**
+     * Ensures a deleted entity is no longer referenced, unless the delete cascades
+     * @throws EntityInUseError if there are references and cascade is not set
+     */
+    private assertUnused(entityType: EntityType, id: string, holderIds: Partial<Record<EntityType, string[]>>, options: DeleteOptions): void {
+        const references: EntityReference[] = Object.entries(holderIds).flatMap(([holderType, ids]) =>
+            (ids || []).map(holderId => ({ entityType: holderType as EntityType, entityId: holderId })));
+
+        if (references.length > 0 && !options.cascade) {
+            throw new EntityInUseError(entityType, id, references);
+        }
+    }
+
+    /**
+     * Builds an update adding or removing one parent role of a role that must exist
+     */
+    private parentRoleUpdate(roleId: string, operation: "ADD" | "DELETE", parentRoleId: string): TransactUpdate {
+        return {
             TableName: this.tableName,
             Key: {
-                PK: `USER#${userId}`,
-                SK: `USER#${userId}`
+                PK: `ROLE#${roleId}`,
+                SK: `ROLE#${roleId}`
             },
-            UpdateExpression: "SET #policiesAttr = :policies",
+            UpdateExpression: `${operation} #parentRolesAttr :parentRoles`,
+            ConditionExpression: "attribute_exists(PK)",
             ExpressionAttributeNames: {
-                "#policiesAttr": "policies"
+                "#parentRolesAttr": "parentRoles"
             },
             ExpressionAttributeValues: {
-                ":policies": updatedPolicies
+                ":parentRoles": new Set([parentRoleId])
             }
-        }));
+        };
     }
 
-    async getPolicy(policyId: string): Promise<Policy> {
-        try {
-            const result = await this.docClient.send(new GetCommand({
-                TableName: this.tableName,
-                Key: {
-                    PK: `POLICY#${policyId}`,
-                    SK: `POLICY#${policyId}`
-                },
-            }));
-
-            if (!result.Item) {
-                throw new Error(`Policy not found: ${policyId}`);
+    /**
+     * Builds the parameters of an update that overwrites a list attribute of an entity item
+     */
+    private listUpdate(entityType: string, id: string, attribute: string, values: string[]): TransactUpdate {
+        return {
+            TableName: this.tableName,
+            Key: {
+                PK: `${entityType}#${id}`,
+                SK: `${entityType}#${id}`
+            },
+            UpdateExpression: "SET #listAttr = :values",
+            ExpressionAttributeNames: {
+                "#listAttr": attribute
+            },
+            ExpressionAttributeValues: {
+                ":values": values
             }
+        };
+    }
 
-            return {
-                id: policyId,
-                document: result.Item.document
+    /**
+     * Builds the parameters of an update that overwrites an assignment list of an entity item
+     * together with the validity windows of the assignments left in it
+     */
+    private assignmentUpdate(
+        entityType: string,
+        id: string,
+        attribute: string,
+        values: string[],
+        validityAttribute: string,
+        validity: ValidityMap | undefined
+    ): TransactUpdate {
+        return {
+            TableName: this.tableName,
+            Key: {
+                PK: `${entityType}#${id}`,
+                SK: `${entityType}#${id}`
+            },
+            UpdateExpression: "SET #listAttr = :values, #validityAttr = :validity",
+            ExpressionAttributeNames: {
+                "#listAttr": attribute,
+                "#validityAttr": validityAttribute
+            },
+            ExpressionAttributeValues: {
+                ":values": values,
+                ":validity": pickValidity(validity, values) || {}
             }
+        };
+    }
+
+    /**
+     * Writes items in transactions of at most MAX_TRANSACTION_ITEMS actions
+     * Writes spanning several chunks are atomic per chunk only
+     */
+    private async transactWrite(items: TransactItem[], onConditionFailed?: (cause: unknown) => RbacError): Promise<void> {
+        for (let i = 0; i < items.length; i += MAX_TRANSACTION_ITEMS) {
+            await this.execute(() => this.docClient.send(new TransactWriteCommand({
+                TransactItems: items.slice(i, i + MAX_TRANSACTION_ITEMS)
+            })), onConditionFailed);
+        }
+    }
+
+    /**
+     * Sends a request, translating DynamoDB errors into errors of this library
+     * @param request - Sends the request
+     * @param onConditionFailed - Creates the error to throw if a ConditionExpression fails
+     */
+    private async execute<R>(request: () => Promise<R>, onConditionFailed?: (cause: unknown) => RbacError): Promise<R> {
+        try {
+            return await request();
         } catch (err) {
-            throw new Error(`Something went wrong: ${err}`);
+            if (onConditionFailed && isConditionFailure(err)) {
+                throw onConditionFailed(err);
+            }
+            throw toRepositoryError(err);
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Builds the parentRoles attribute for a role item
+     * DynamoDB string sets cannot be empty, so the attribute is omitted when there are no parents
+     */
+    private parentRolesAttribute(role: Role): { parentRoles?: Set<string> } {
+        return role.parentRoles && role.parentRoles.length > 0
+            ? { parentRoles: new Set(role.parentRoles) }
+            : {};
+    }
+
+    async getPolicy(policyId: string): Promise<Policy> {
+        const result = await this.execute(() => this.docClient.send(new GetCommand({
+            TableName: this.tableName,
+            Key: {
+                PK: `POLICY#${policyId}`,
+                SK: `POLICY#${policyId}`
+            },
+        })));
+
+        if (!result.Item) {
+            throw new PolicyNotFoundError(policyId);
+        }
+
+        return toPolicy(result.Item);
+    }
+}
+
+const toUser = (item: Record<string, any>): User => ({
+    id: item.PK.slice("USER#".length),
+    name: item.name,
+    roles: item.roles,
+    policies: item.policies,
+    groups: item.groups,
+    attributes: item.attributes || {},
+    roleValidity: pickValidity(item.roleValidity, item.roles),
+    policyValidity: pickValidity(item.policyValidity, item.policies)
+});
+
+const toRole = (item: Record<string, any>): Role => ({
+    id: item.PK.slice("ROLE#".length),
+    name: item.name,
+    policies: item.policies,
+    parentRoles: Array.from(item.parentRoles || []),
+    policyValidity: pickValidity(item.policyValidity, item.policies)
+});
+
+const toGroup = (item: Record<string, any>): Group => ({
+    id: item.PK.slice("GROUP#".length),
+    name: item.name,
+    members: item.members,
+    roles: item.roles,
+    policies: item.policies
+});
+
+const toPolicy = (item: Record<string, any>): Policy => ({
+    id: item.PK.slice("POLICY#".length),
+    document: item.document
+});
+
+/**
+ * Returns the keys of the relationship items for the assignments stored on an entity item,
+ * as written by relationChanges
+ */
+const relationKeys = (item: Record<string, any>): Record<string, string>[] => {
+    const separator = item.PK.indexOf("#");
+    const entityType = item.PK.slice(0, separator);
+    const id = item.PK.slice(separator + 1);
+    const keys = (targetType: string, targetIds: Iterable<string> | undefined, holderType: string) =>
+        Array.from(new Set(targetIds || [])).map(targetId => ({ PK: `${targetType}#${targetId}`, SK: `${holderType}#${id}` }));
+
+    switch (entityType) {
+        case "USER":
+        case "GROUP":
+            return [...keys("ROLE", item.roles, entityType), ...keys("POLICY", item.policies, entityType)];
+        case "ROLE":
+            return [...keys("POLICY", item.policies, "ROLE"), ...keys("ROLE", item.parentRoles, "CHILD")];
+        default:
+            return [];
+    }
+};
+
+const encodeCursor = (key: Record<string, any>): string =>
+    Buffer.from(JSON.stringify(key)).toString("base64");
+
+const decodeCursor = (cursor: string): Record<string, any> => {
+    try {
+        return JSON.parse(Buffer.from(cursor, "base64").toString("utf8"));
+    } catch (err) {
+        throw new ValidationError(`Invalid cursor: ${cursor}`, undefined, { cause: err });
+    }
+};
+
+const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
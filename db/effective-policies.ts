@@ -0,0 +1,93 @@
+import { EffectivePolicies } from "./base-repo";
+import { Group, Policy, Role, User } from "../models";
+import { AttachedPolicy, PolicySource } from "../policy/types";
+import { isAssignmentActive } from "./validity";
+
+/**
+ * Reads the entities needed to resolve a user's effective policies
+ *
+ * Each method reads all requested entities at once, returns them in the requested order,
+ * and fails with the matching not-found error if any of them does not exist.
+ */
+export interface EntityBatchLoader {
+    getUser(userId: string): Promise<User>;
+    getGroups(groupIds: string[]): Promise<Group[]>;
+    getRoles(roleIds: string[]): Promise<Role[]>;
+    getPolicies(policyIds: string[]): Promise<Policy[]>;
+}
+
+interface PolicyAttachment {
+    policyId: string;
+    source: PolicySource;
+}
+
+/**
+ * Loads a user and every policy that applies to them: directly, through their groups,
+ * and through the roles assigned to them or their groups and those roles' ancestors
+ *
+ * Reads the user, then their groups, then one level of the role hierarchy at a time,
+ * and finally every policy at once, so the number of reads does not grow with the
+ * number of roles or policies. Roles and policies assigned to the user or attached to a role
+ * outside their validity window are skipped.
+ *
+ * @param userId - ID of the user
+ * @param loader - Reads the entities
+ * @returns Promise containing the user and their policies with the attachment each came from
+ */
+export const loadEffectivePolicies = async (userId: string, loader: EntityBatchLoader): Promise<EffectivePolicies> => {
+    const now = new Date();
+    const user = await loader.getUser(userId);
+    const groups = await loader.getGroups(unique(user.groups || []));
+
+    const roles = await resolveRoles([
+        ...(user.roles || []).filter(roleId => isAssignmentActive(user.roleValidity?.[roleId], now))
+            .map((roleId): PolicySource => ({ type: 'role', id: roleId })),
+        ...groups.flatMap(group => (group.roles || []).map((roleId): PolicySource => ({ type: 'role', id: roleId, group: group.id })))
+    ], loader);
+
+    const attachments: PolicyAttachment[] = [
+        ...(user.policies || []).filter(policyId => isAssignmentActive(user.policyValidity?.[policyId], now))
+            .map((policyId): PolicyAttachment => ({ policyId, source: { type: 'user', id: user.id } })),
+        ...groups.flatMap(group => (group.policies || []).map((policyId): PolicyAttachment => ({ policyId, source: { type: 'group', id: group.id } }))),
+        ...roles.flatMap(({ role, source }) => (role.policies || []).filter(policyId => isAssignmentActive(role.policyValidity?.[policyId], now))
+            .map((policyId): PolicyAttachment => ({ policyId, source })))
+    ];
+
+    const policies = await loader.getPolicies(unique(attachments.map(({ policyId }) => policyId)));
+    const policiesById = new Map(policies.map(policy => [policy.id, policy]));
+
+    return {
+        user,
+        policies: attachments.map(({ policyId, source }): AttachedPolicy => ({ policy: policiesById.get(policyId)!, source }))
+    };
+};
+
+/**
+ * Resolves assigned roles to all roles they include transitively, reading one level at a time
+ * Each role is returned once, with the source it was first reached through, and cycles are tolerated
+ */
+const resolveRoles = async (assignments: PolicySource[], loader: EntityBatchLoader): Promise<{ role: Role; source: PolicySource }[]> => {
+    const reached = new Map<string, { role: Role; source: PolicySource }>();
+    let frontier = assignments;
+
+    while (frontier.length > 0) {
+        const level = new Map<string, PolicySource>();
+        for (const source of frontier) {
+            if (!reached.has(source.id) && !level.has(source.id)) {
+                level.set(source.id, source);
+            }
+        }
+
+        const roles = await loader.getRoles(Array.from(level.keys()));
+        roles.forEach(role => reached.set(role.id, { role, source: level.get(role.id)! }));
+
+        frontier = roles.flatMap(role => (role.parentRoles || []).map((parentRoleId): PolicySource => {
+            const source = level.get(role.id)!;
+            return { ...source, id: parentRoleId, via: source.via || source.id };
+        }));
+    }
+
+    return Array.from(reached.values());
+};
+
+const unique = (ids: string[]): string[] => Array.from(new Set(ids));
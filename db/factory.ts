@@ -4,6 +4,7 @@
  * @module factory
  */
 import { IBaseRepository } from "./base-repo";
+import { ValidationError } from "../errors";
 
 /**
  * Type definition for repository constructors with generic client type T
@@ -17,7 +18,7 @@ type RepositoryConstructor<T> = new (client: T) => IBaseRepository;
  * @param {T} client - Database client instance
  * @param {RepositoryConstructor<T>} repositoryConstructor - Constructor function for the repository implementation
  * @returns {IBaseRepository} Repository implementation instance
- * @throws {Error} When client or repository constructor is not provided
+ * @throws {ValidationError} When client or repository constructor is not provided
  * @example
  * // Using with DynamoDB
  * import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
@@ -28,10 +29,10 @@ type RepositoryConstructor<T> = new (client: T) => IBaseRepository;
  */
 export function createRepository<T>(client: T, repositoryConstructor: RepositoryConstructor<T>): IBaseRepository {
     if (!client) {
-        throw new Error("Client is required to create a repository");
+        throw new ValidationError("Client is required to create a repository");
     }
     if (!repositoryConstructor) {
-        throw new Error("Repository constructor is required to create a repository");
+        throw new ValidationError("Repository constructor is required to create a repository");
     }
     return new repositoryConstructor(client);
 }
\ No newline at end of file
@@ -0,0 +1,528 @@
+import { promises as fs } from "fs";
+import { DEFAULT_PAGE_SIZE, DeleteOptions, EffectivePolicies, IBaseRepository, ListOptions, Page } from "./base-repo";
+import { loadEffectivePolicies } from "./effective-policies";
+import { pickValidity, setValidity } from "./validity";
+import { Group, Policy, Role, User, ValidityWindow } from "../models";
+import {
+    DuplicateEntityError,
+    EntityInUseError,
+    EntityReference,
+    EntityType,
+    GroupNotFoundError,
+    PolicyNotFoundError,
+    RbacError,
+    RepositoryUnavailableError,
+    RoleNotFoundError,
+    UserNotFoundError,
+    ValidationError,
+    toRepositoryError
+} from "../errors";
+
+/**
+ * Options for an InMemoryRepository
+ */
+export interface InMemoryRepositoryOptions {
+    /**
+     * Path of a JSON file to load data from in setupTables and to write with saveSnapshot
+     */
+    snapshotFile?: string;
+    /**
+     * Writes the snapshot file after every change (requires snapshotFile)
+     */
+    autoSave?: boolean;
+}
+
+/**
+ * Serialized contents of an InMemoryRepository
+ */
+export interface InMemorySnapshot {
+    users: User[];
+    roles: Role[];
+    policies: Policy[];
+    groups: Group[];
+}
+
+/**
+ * Repository that keeps all data in memory
+ *
+ * Intended for tests and local development. It behaves like DynamoDBRepository,
+ * including the errors it throws, so code written against one works with the other.
+ *
+ * @example
+ * import { AccessControl, InMemoryRepository } from "rbac-engine";
+ *
+ * const accessControl = new AccessControl({ snapshotFile: "./rbac.json", autoSave: true }, InMemoryRepository);
+ * await accessControl.init(); // loads ./rbac.json if it exists
+ */
+export class InMemoryRepository implements IBaseRepository {
+    private users = new Map<string, User>();
+    private roles = new Map<string, Role>();
+    private policies = new Map<string, Policy>();
+    private groups = new Map<string, Group>();
+
+    constructor(private options: InMemoryRepositoryOptions = {}) {}
+
+    async setupTables(): Promise<void> {
+        if (!this.options.snapshotFile) {
+            return;
+        }
+
+        try {
+            this.loadSnapshot(JSON.parse(await fs.readFile(this.options.snapshotFile, "utf8")));
+        } catch (err: any) {
+            if (err.code !== "ENOENT") {
+                throw new RepositoryUnavailableError(`Failed to load snapshot ${this.options.snapshotFile}: ${err.message}`, undefined, { cause: err });
+            }
+        }
+    }
+
+    /**
+     * Returns a copy of all stored data
+     */
+    getSnapshot(): InMemorySnapshot {
+        return clone({
+            users: Array.from(this.users.values()),
+            roles: Array.from(this.roles.values()),
+            policies: Array.from(this.policies.values()),
+            groups: Array.from(this.groups.values())
+        });
+    }
+
+    /**
+     * Replaces all stored data with the contents of a snapshot
+     */
+    loadSnapshot(snapshot: Partial<InMemorySnapshot>): void {
+        this.users = toMap((snapshot.users || []).map(normalizeUser));
+        this.roles = toMap((snapshot.roles || []).map(normalizeRole));
+        this.policies = toMap(clone(snapshot.policies || []));
+        this.groups = toMap((snapshot.groups || []).map(normalizeGroup));
+    }
+
+    /**
+     * Writes all stored data to the configured snapshot file
+     */
+    async saveSnapshot(): Promise<void> {
+        if (!this.options.snapshotFile) {
+            throw new ValidationError("A snapshotFile is required to save a snapshot");
+        }
+
+        try {
+            await fs.writeFile(this.options.snapshotFile, JSON.stringify(this.getSnapshot(), null, 2));
+        } catch (err) {
+            throw toRepositoryError(err);
+        }
+    }
+
+    async createUser(user: User): Promise<User> {
+        this.assertNew(this.users, user.id, "User");
+        const groupIds = Array.from(new Set(user.groups || []));
+        const groups = groupIds.map(groupId => this.find(this.groups, groupId, GroupNotFoundError));
+
+        this.users.set(user.id, normalizeUser({ ...user, groups: groupIds }));
+        groups.forEach(group => group.members = addToList(group.members, user.id));
+        await this.changed();
+
+        return user;
+    }
+
+    async getUser(userId: string): Promise<User> {
+        return clone(this.find(this.users, userId, UserNotFoundError));
+    }
+
+    async updateUser(user: User): Promise<User> {
+        // Membership is only changed through addUserToGroup/removeUserFromGroup, and
+        // assignments left in the user keep their windows unless new ones are given
+        const stored = this.find(this.users, user.id, UserNotFoundError);
+        this.users.set(user.id, normalizeUser({
+            ...user,
+            groups: stored.groups,
+            roleValidity: user.roleValidity || stored.roleValidity,
+            policyValidity: user.policyValidity || stored.policyValidity
+        }));
+        await this.changed();
+
+        return user;
+    }
+
+    async deleteUser(userId: string): Promise<void> {
+        const user = this.find(this.users, userId, UserNotFoundError);
+        const groups = (user.groups || []).map(groupId => this.find(this.groups, groupId, GroupNotFoundError));
+
+        this.users.delete(userId);
+        groups.forEach(group => group.members = removeFromList(group.members, userId));
+        await this.changed();
+    }
+
+    async createRole(role: Role): Promise<Role> {
+        this.assertNew(this.roles, role.id, "Role");
+        this.roles.set(role.id, normalizeRole(role));
+        await this.changed();
+
+        return role;
+    }
+
+    async getRole(roleId: string): Promise<Role> {
+        return clone(this.find(this.roles, roleId, RoleNotFoundError));
+    }
+
+    async assignRoleToUser(userId: string, roleId: string, validity?: ValidityWindow): Promise<User> {
+        const user = this.find(this.users, userId, UserNotFoundError);
+        this.find(this.roles, roleId, RoleNotFoundError);
+        user.roles = addToList(user.roles, roleId);
+        user.roleValidity = pickValidity(setValidity(user.roleValidity, roleId, validity), user.roles);
+        await this.changed();
+
+        return clone(user);
+    }
+
+    async createPolicy(policy: Policy): Promise<Policy> {
+        this.assertNew(this.policies, policy.id, "Policy");
+        this.policies.set(policy.id, clone(policy));
+        await this.changed();
+
+        return policy;
+    }
+
+    async getPolicy(policyId: string): Promise<Policy> {
+        return this.findPolicy(policyId);
+    }
+
+    async attachPolicyToRole(policyId: string, roleId: string, validity?: ValidityWindow): Promise<void> {
+        const role = this.find(this.roles, roleId, RoleNotFoundError);
+        this.find(this.policies, policyId, PolicyNotFoundError);
+        role.policies = addToList(role.policies, policyId);
+        role.policyValidity = pickValidity(setValidity(role.policyValidity, policyId, validity), role.policies);
+        await this.changed();
+    }
+
+    async getUserPolicies(userId: string): Promise<Policy[]> {
+        const user = await this.getUser(userId);
+        return (user.policies || []).map(policyId => this.findPolicy(policyId));
+    }
+
+    async getRolePolicies(roleId: string): Promise<Policy[]> {
+        const role = await this.getRole(roleId);
+        return (role.policies || []).map(policyId => this.findPolicy(policyId));
+    }
+
+    async updateRole(role: Role): Promise<Role> {
+        const stored = this.find(this.roles, role.id, RoleNotFoundError);
+        this.roles.set(role.id, normalizeRole({ ...role, policyValidity: role.policyValidity || stored.policyValidity }));
+        await this.changed();
+
+        return role;
+    }
+
+    async updatePolicy(policy: Policy): Promise<Policy> {
+        this.find(this.policies, policy.id, PolicyNotFoundError);
+        this.policies.set(policy.id, clone(policy));
+        await this.changed();
+
+        return policy;
+    }
+
+    async deletePolicy(policyId: string, options: DeleteOptions = {}): Promise<void> {
+        const users = referencing(this.users, user => user.policies, policyId);
+        const roles = referencing(this.roles, role => role.policies, policyId);
+        const groups = referencing(this.groups, group => group.policies, policyId);
+        this.assertUnused("Policy", policyId, { User: users, Role: roles, Group: groups }, options);
+
+        this.policies.delete(policyId);
+        users.forEach(user => {
+            user.policies = removeFromList(user.policies, policyId);
+            user.policyValidity = pickValidity(user.policyValidity, user.policies);
+        });
+        roles.forEach(role => {
+            role.policies = removeFromList(role.policies, policyId);
+            role.policyValidity = pickValidity(role.policyValidity, role.policies);
+        });
+        groups.forEach(group => group.policies = removeFromList(group.policies, policyId));
+        await this.changed();
+    }
+
+    async deleteRole(roleId: string, options: DeleteOptions = {}): Promise<void> {
+        const users = referencing(this.users, user => user.roles, roleId);
+        const groups = referencing(this.groups, group => group.roles, roleId);
+        const children = referencing(this.roles, role => role.parentRoles, roleId).filter(role => role.id !== roleId);
+        this.assertUnused("Role", roleId, { User: users, Group: groups, Role: children }, options);
+
+        this.roles.delete(roleId);
+        users.forEach(user => {
+            user.roles = removeFromList(user.roles, roleId);
+            user.roleValidity = pickValidity(user.roleValidity, user.roles);
+        });
+        groups.forEach(group => group.roles = removeFromList(group.roles, roleId));
+        children.forEach(role => role.parentRoles = removeFromList(role.parentRoles, roleId));
+        await this.changed();
+    }
+
+    async detachPolicyFromRole(policyId: string, roleId: string): Promise<void> {
+        const role = this.find(this.roles, roleId, RoleNotFoundError);
+        role.policies = removeFromList(role.policies, policyId);
+        role.policyValidity = pickValidity(role.policyValidity, role.policies);
+        await this.changed();
+    }
+
+    async detachPolicyFromUser(policyId: string, userId: string): Promise<void> {
+        const user = this.find(this.users, userId, UserNotFoundError);
+        user.policies = removeFromList(user.policies, policyId);
+        user.policyValidity = pickValidity(user.policyValidity, user.policies);
+        await this.changed();
+    }
+
+    async removeRoleFromUser(userId: string, roleId: string): Promise<void> {
+        const user = this.find(this.users, userId, UserNotFoundError);
+        user.roles = removeFromList(user.roles, roleId);
+        user.roleValidity = pickValidity(user.roleValidity, user.roles);
+        await this.changed();
+    }
+
+    async attachPolicyToUser(policyId: string, userId: string, validity?: ValidityWindow): Promise<void> {
+        const user = this.find(this.users, userId, UserNotFoundError);
+        this.find(this.policies, policyId, PolicyNotFoundError);
+        user.policies = addToList(user.policies, policyId);
+        user.policyValidity = pickValidity(setValidity(user.policyValidity, policyId, validity), user.policies);
+        await this.changed();
+    }
+
+    async addParentRole(roleId: string, parentRoleId: string): Promise<void> {
+        const role = this.find(this.roles, roleId, RoleNotFoundError);
+        role.parentRoles = addToList(role.parentRoles, parentRoleId);
+        await this.changed();
+    }
+
+    async removeParentRole(roleId: string, parentRoleId: string): Promise<void> {
+        const role = this.find(this.roles, roleId, RoleNotFoundError);
+        role.parentRoles = removeFromList(role.parentRoles, parentRoleId);
+        await this.changed();
+    }
+
+    async createGroup(group: Group): Promise<Group> {
+        this.assertNew(this.groups, group.id, "Group");
+        const members = Array.from(new Set(group.members || []));
+        const users = members.map(userId => this.find(this.users, userId, UserNotFoundError));
+
+        this.groups.set(group.id, normalizeGroup({ ...group, members }));
+        users.forEach(user => user.groups = addToList(user.groups, group.id));
+        await this.changed();
+
+        return group;
+    }
+
+    async getGroup(groupId: string): Promise<Group> {
+        return clone(this.find(this.groups, groupId, GroupNotFoundError));
+    }
+
+    async updateGroup(group: Group): Promise<Group> {
+        // Membership is only changed through addUserToGroup/removeUserFromGroup
+        const stored = this.find(this.groups, group.id, GroupNotFoundError);
+        stored.name = group.name;
+        stored.roles = [...(group.roles || [])];
+        stored.policies = [...(group.policies || [])];
+        await this.changed();
+
+        return group;
+    }
+
+    async deleteGroup(groupId: string): Promise<void> {
+        const group = this.find(this.groups, groupId, GroupNotFoundError);
+        const users = (group.members || []).map(userId => this.find(this.users, userId, UserNotFoundError));
+
+        this.groups.delete(groupId);
+        users.forEach(user => user.groups = removeFromList(user.groups, groupId));
+        await this.changed();
+    }
+
+    async addUserToGroup(userId: string, groupId: string): Promise<void> {
+        const user = this.find(this.users, userId, UserNotFoundError);
+        const group = this.find(this.groups, groupId, GroupNotFoundError);
+
+        user.groups = addToList(user.groups, groupId);
+        group.members = addToList(group.members, userId);
+        await this.changed();
+    }
+
+    async removeUserFromGroup(userId: string, groupId: string): Promise<void> {
+        const user = this.find(this.users, userId, UserNotFoundError);
+        const group = this.find(this.groups, groupId, GroupNotFoundError);
+
+        user.groups = removeFromList(user.groups, groupId);
+        group.members = removeFromList(group.members, userId);
+        await this.changed();
+    }
+
+    async assignRoleToGroup(groupId: string, roleId: string): Promise<void> {
+        const group = this.find(this.groups, groupId, GroupNotFoundError);
+        this.find(this.roles, roleId, RoleNotFoundError);
+        group.roles = addToList(group.roles, roleId);
+        await this.changed();
+    }
+
+    async removeRoleFromGroup(groupId: string, roleId: string): Promise<void> {
+        const group = this.find(this.groups, groupId, GroupNotFoundError);
+        group.roles = removeFromList(group.roles, roleId);
+        await this.changed();
+    }
+
+    async attachPolicyToGroup(policyId: string, groupId: string): Promise<void> {
+        const group = this.find(this.groups, groupId, GroupNotFoundError);
+        this.find(this.policies, policyId, PolicyNotFoundError);
+        group.policies = addToList(group.policies, policyId);
+        await this.changed();
+    }
+
+    async detachPolicyFromGroup(policyId: string, groupId: string): Promise<void> {
+        const group = this.find(this.groups, groupId, GroupNotFoundError);
+        group.policies = removeFromList(group.policies, policyId);
+        await this.changed();
+    }
+
+    async getGroupPolicies(groupId: string): Promise<Policy[]> {
+        const group = await this.getGroup(groupId);
+        return (group.policies || []).map(policyId => this.findPolicy(policyId));
+    }
+
+    async getEffectivePolicies(userId: string): Promise<EffectivePolicies> {
+        return await loadEffectivePolicies(userId, {
+            getUser: id => this.getUser(id),
+            getGroups: async ids => ids.map(id => clone(this.find(this.groups, id, GroupNotFoundError))),
+            getRoles: async ids => ids.map(id => clone(this.find(this.roles, id, RoleNotFoundError))),
+            getPolicies: async ids => ids.map(id => this.findPolicy(id))
+        });
+    }
+
+    async getUsersWithRole(roleId: string): Promise<User[]> {
+        return clone(referencing(this.users, user => user.roles, roleId));
+    }
+
+    async getRolesWithPolicy(policyId: string): Promise<Role[]> {
+        return clone(referencing(this.roles, role => role.policies, policyId));
+    }
+
+    async getUsersWithPolicy(policyId: string): Promise<User[]> {
+        return clone(referencing(this.users, user => user.policies, policyId));
+    }
+
+    async listUsers(options: ListOptions = {}): Promise<Page<User>> {
+        return paginate(this.users, options, user => user.name);
+    }
+
+    async listRoles(options: ListOptions = {}): Promise<Page<Role>> {
+        return paginate(this.roles, options, role => role.name);
+    }
+
+    async listPolicies(options: ListOptions = {}): Promise<Page<Policy>> {
+        return paginate(this.policies, options, policy => policy.id);
+    }
+
+    /**
+     * Looks up a stored entity
+     * @throws The given not-found error if the entity does not exist
+     */
+    private find<E>(entities: Map<string, E>, id: string, NotFoundError: new (id: string) => RbacError): E {
+        const entity = entities.get(id);
+        if (!entity) {
+            throw new NotFoundError(id);
+        }
+        return entity;
+    }
+
+    /**
+     * Ensures no entity with the ID exists yet
+     * @throws DuplicateEntityError if the ID is taken
+     */
+    private assertNew(entities: Map<string, unknown>, id: string, entityType: EntityType): void {
+        if (entities.has(id)) {
+            throw new DuplicateEntityError(entityType, id);
+        }
+    }
+
+    /**
+     * Ensures a deleted entity is no longer referenced, unless the delete cascades
+     * @throws EntityInUseError if there are references and cascade is not set
+     */
+    private assertUnused(entityType: EntityType, id: string, holders: Partial<Record<EntityType, { id: string }[]>>, options: DeleteOptions): void {
+        const references: EntityReference[] = Object.entries(holders).flatMap(([holderType, entities]) =>
+            (entities || []).map(entity => ({ entityType: holderType as EntityType, entityId: entity.id })));
+
+        if (references.length > 0 && !options.cascade) {
+            throw new EntityInUseError(entityType, id, references);
+        }
+    }
+
+    private findPolicy(policyId: string): Policy {
+        return clone(this.find(this.policies, policyId, PolicyNotFoundError));
+    }
+
+    /**
+     * Persists the snapshot after a change when autoSave is enabled
+     */
+    private async changed(): Promise<void> {
+        if (this.options.autoSave) {
+            await this.saveSnapshot();
+        }
+    }
+}
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const toMap = <E extends { id: string }>(entities: E[]): Map<string, E> =>
+    new Map(entities.map(entity => [entity.id, entity]));
+
+const addToList = (list: string[] | undefined, value: string): string[] =>
+    Array.from(new Set([...(list || []), value]));
+
+const removeFromList = (list: string[] | undefined, value: string): string[] =>
+    (list || []).filter(item => item !== value);
+
+const byId = <E extends { id: string }>(a: E, b: E): number => a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+
+/**
+ * Returns the stored entities whose list contains an ID, ordered by ID
+ */
+const referencing = <E extends { id: string }>(entities: Map<string, E>, list: (entity: E) => string[] | undefined, id: string): E[] =>
+    Array.from(entities.values()).filter(entity => (list(entity) || []).includes(id)).sort(byId);
+
+/**
+ * Returns one page of entities ordered by ID, using the last returned ID as the cursor
+ */
+const paginate = <E extends { id: string }>(entities: Map<string, E>, options: ListOptions, filterKey: (entity: E) => string): Page<E> => {
+    const limit = options.limit || DEFAULT_PAGE_SIZE;
+    const matches = Array.from(entities.values())
+        .filter(entity => options.cursor === undefined || entity.id > options.cursor)
+        .filter(entity => !options.prefix || filterKey(entity).startsWith(options.prefix))
+        .sort(byId);
+    const items = matches.slice(0, limit);
+
+    return {
+        items: clone(items),
+        nextCursor: matches.length > limit ? items[items.length - 1].id : undefined
+    };
+};
+
+const normalizeUser = (user: User): User => ({
+    id: user.id,
+    name: user.name,
+    roles: [...(user.roles || [])],
+    policies: [...(user.policies || [])],
+    groups: [...(user.groups || [])],
+    attributes: clone(user.attributes || {}),
+    roleValidity: pickValidity(user.roleValidity, user.roles),
+    policyValidity: pickValidity(user.policyValidity, user.policies)
+});
+
+const normalizeRole = (role: Role): Role => ({
+    id: role.id,
+    name: role.name,
+    policies: [...(role.policies || [])],
+    parentRoles: Array.from(new Set(role.parentRoles || [])),
+    policyValidity: pickValidity(role.policyValidity, role.policies)
+});
+
+const normalizeGroup = (group: Group): Group => ({
+    id: group.id,
+    name: group.name,
+    members: [...(group.members || [])],
+    roles: [...(group.roles || [])],
+    policies: [...(group.policies || [])]
+});
@@ -0,0 +1,759 @@
+import type { Pool, PoolClient, QueryResult } from "pg";
+import { DEFAULT_PAGE_SIZE, DeleteOptions, IBaseRepository, ListOptions, Page } from "./base-repo";
+import { Group, Policy, Role, User, ValidityWindow } from "../models";
+import { ValidityMap, pickValidity, setValidity } from "./validity";
+import {
+    DuplicateEntityError,
+    EntityInUseError,
+    EntityReference,
+    EntityType,
+    GroupNotFoundError,
+    PolicyNotFoundError,
+    RoleNotFoundError,
+    UserNotFoundError,
+    toRepositoryError
+} from "../errors";
+
+/**
+ * PostgreSQL error code of unique constraint violations
+ */
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Creates a handler that reports primary key conflicts as a DuplicateEntityError
+ */
+const rethrowDuplicate = (entityType: EntityType, id: string) => (err: any): never => {
+    throw err?.code === UNIQUE_VIOLATION ? new DuplicateEntityError(entityType, id, { cause: err }) : err;
+};
+
+/**
+ * Builds the query adding an assignment, or replacing the validity window of an existing one
+ */
+const upsertAssignment = (
+    table: string,
+    ownerColumn: string,
+    valueColumn: string,
+    ownerId: string,
+    value: string,
+    validity?: ValidityWindow
+): { text: string; values: unknown[] } => ({
+    text: `INSERT INTO ${table} (${ownerColumn}, ${valueColumn}, start_date, end_date) VALUES ($1, $2, $3, $4)
+           ON CONFLICT (${ownerColumn}, ${valueColumn}) DO UPDATE SET start_date = EXCLUDED.start_date, end_date = EXCLUDED.end_date`,
+    values: [ownerId, value, validity?.startDate ?? null, validity?.endDate ?? null]
+});
+
+/**
+ * Assignment tables referencing a role or policy, used to check and cascade deletes
+ */
+interface ReferenceTable {
+    entityType: EntityType;
+    table: string;
+    ownerColumn: string;
+    valueColumn: string;
+}
+
+const POLICY_REFERENCES: ReferenceTable[] = [
+    { entityType: "User", table: "rbac_user_policies", ownerColumn: "user_id", valueColumn: "policy_id" },
+    { entityType: "Role", table: "rbac_role_policies", ownerColumn: "role_id", valueColumn: "policy_id" },
+    { entityType: "Group", table: "rbac_group_policies", ownerColumn: "group_id", valueColumn: "policy_id" }
+];
+
+const ROLE_REFERENCES: ReferenceTable[] = [
+    { entityType: "User", table: "rbac_user_roles", ownerColumn: "user_id", valueColumn: "role_id" },
+    { entityType: "Group", table: "rbac_group_roles", ownerColumn: "group_id", valueColumn: "role_id" },
+    { entityType: "Role", table: "rbac_role_parents", ownerColumn: "role_id", valueColumn: "parent_role_id" }
+];
+
+/**
+ * Statements creating the normalized schema
+ * Assignment tables reference their owner so rows are removed with it, but not the
+ * assigned entity, matching the behavior of the other repositories. The assigned
+ * entity's column is indexed for reverse lookups and reference checks.
+ */
+const SCHEMA = [
+    `CREATE TABLE IF NOT EXISTS rbac_users (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        attributes JSONB NOT NULL DEFAULT '{}'
+    )`,
+    // Tables created before user attributes were stored lack the column
+    `ALTER TABLE rbac_users ADD COLUMN IF NOT EXISTS attributes JSONB NOT NULL DEFAULT '{}'`,
+    `CREATE TABLE IF NOT EXISTS rbac_roles (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL
+    )`,
+    `CREATE TABLE IF NOT EXISTS rbac_policies (
+        id TEXT PRIMARY KEY,
+        document JSONB NOT NULL
+    )`,
+    `CREATE TABLE IF NOT EXISTS rbac_groups (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL
+    )`,
+    `CREATE TABLE IF NOT EXISTS rbac_user_roles (
+        user_id TEXT NOT NULL REFERENCES rbac_users (id) ON DELETE CASCADE,
+        role_id TEXT NOT NULL,
+        position BIGSERIAL,
+        start_date TIMESTAMPTZ,
+        end_date TIMESTAMPTZ,
+        PRIMARY KEY (user_id, role_id)
+    )`,
+    `CREATE INDEX IF NOT EXISTS rbac_user_roles_role_id ON rbac_user_roles (role_id)`,
+    `CREATE TABLE IF NOT EXISTS rbac_user_policies (
+        user_id TEXT NOT NULL REFERENCES rbac_users (id) ON DELETE CASCADE,
+        policy_id TEXT NOT NULL,
+        position BIGSERIAL,
+        start_date TIMESTAMPTZ,
+        end_date TIMESTAMPTZ,
+        PRIMARY KEY (user_id, policy_id)
+    )`,
+    `CREATE INDEX IF NOT EXISTS rbac_user_policies_policy_id ON rbac_user_policies (policy_id)`,
+    `CREATE TABLE IF NOT EXISTS rbac_role_policies (
+        role_id TEXT NOT NULL REFERENCES rbac_roles (id) ON DELETE CASCADE,
+        policy_id TEXT NOT NULL,
+        position BIGSERIAL,
+        start_date TIMESTAMPTZ,
+        end_date TIMESTAMPTZ,
+        PRIMARY KEY (role_id, policy_id)
+    )`,
+    `CREATE INDEX IF NOT EXISTS rbac_role_policies_policy_id ON rbac_role_policies (policy_id)`,
+    // Tables created before assignments could be time-limited lack the validity window
+    ...["rbac_user_roles", "rbac_user_policies", "rbac_role_policies"].map(table =>
+        `ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS start_date TIMESTAMPTZ, ADD COLUMN IF NOT EXISTS end_date TIMESTAMPTZ`),
+    `CREATE TABLE IF NOT EXISTS rbac_role_parents (
+        role_id TEXT NOT NULL REFERENCES rbac_roles (id) ON DELETE CASCADE,
+        parent_role_id TEXT NOT NULL,
+        position BIGSERIAL,
+        PRIMARY KEY (role_id, parent_role_id)
+    )`,
+    `CREATE INDEX IF NOT EXISTS rbac_role_parents_parent_role_id ON rbac_role_parents (parent_role_id)`,
+    `CREATE TABLE IF NOT EXISTS rbac_group_members (
+        group_id TEXT NOT NULL REFERENCES rbac_groups (id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES rbac_users (id) ON DELETE CASCADE,
+        position BIGSERIAL,
+        PRIMARY KEY (group_id, user_id)
+    )`,
+    `CREATE INDEX IF NOT EXISTS rbac_group_members_user_id ON rbac_group_members (user_id)`,
+    `CREATE TABLE IF NOT EXISTS rbac_group_roles (
+        group_id TEXT NOT NULL REFERENCES rbac_groups (id) ON DELETE CASCADE,
+        role_id TEXT NOT NULL,
+        position BIGSERIAL,
+        PRIMARY KEY (group_id, role_id)
+    )`,
+    `CREATE INDEX IF NOT EXISTS rbac_group_roles_role_id ON rbac_group_roles (role_id)`,
+    `CREATE TABLE IF NOT EXISTS rbac_group_policies (
+        group_id TEXT NOT NULL REFERENCES rbac_groups (id) ON DELETE CASCADE,
+        policy_id TEXT NOT NULL,
+        position BIGSERIAL,
+        PRIMARY KEY (group_id, policy_id)
+    )`,
+    `CREATE INDEX IF NOT EXISTS rbac_group_policies_policy_id ON rbac_group_policies (policy_id)`
+];
+
+/**
+ * Repository backed by PostgreSQL through a `pg` connection pool
+ *
+ * Users, roles, policies and groups are stored in their own tables, with one table
+ * per assignment. Changes spanning several rows run in a transaction.
+ *
+ * @example
+ * import { Pool } from "pg";
+ * import { AccessControl, PostgresRepository } from "rbac-engine";
+ *
+ * const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+ * const accessControl = new AccessControl(pool, PostgresRepository);
+ * await accessControl.init();
+ */
+export class PostgresRepository implements IBaseRepository {
+    constructor(private pool: Pool) {}
+
+    async setupTables(): Promise<void> {
+        await this.transaction(async client => {
+            for (const statement of SCHEMA) {
+                await client.query(statement);
+            }
+        });
+    }
+
+    async createUser(user: User): Promise<User> {
+        const groupIds = Array.from(new Set(user.groups || []));
+        await Promise.all(groupIds.map(groupId => this.getGroup(groupId)));
+
+        await this.transaction(async client => {
+            await client.query(
+                "INSERT INTO rbac_users (id, name, attributes) VALUES ($1, $2, $3)",
+                [user.id, user.name, JSON.stringify(user.attributes || {})]
+            ).catch(rethrowDuplicate("User", user.id));
+            await this.replaceUserLists(client, user);
+            for (const groupId of groupIds) {
+                await client.query("INSERT INTO rbac_group_members (group_id, user_id) VALUES ($1, $2)", [groupId, user.id]);
+            }
+        });
+
+        return user;
+    }
+
+    async getUser(userId: string): Promise<User> {
+        const result = await this.query("SELECT name, attributes FROM rbac_users WHERE id = $1", [userId]);
+
+        if (result.rows.length === 0) {
+            throw new UserNotFoundError(userId);
+        }
+
+        const [roles, policies, groups, roleValidity, policyValidity] = await Promise.all([
+            this.selectList("rbac_user_roles", "user_id", "role_id", userId),
+            this.selectList("rbac_user_policies", "user_id", "policy_id", userId),
+            this.selectList("rbac_group_members", "user_id", "group_id", userId),
+            this.selectValidity("rbac_user_roles", "user_id", "role_id", userId),
+            this.selectValidity("rbac_user_policies", "user_id", "policy_id", userId)
+        ]);
+
+        return {
+            id: userId,
+            name: result.rows[0].name,
+            roles,
+            policies,
+            groups,
+            attributes: result.rows[0].attributes,
+            roleValidity,
+            policyValidity
+        }
+    }
+
+    async updateUser(user: User): Promise<User> {
+        // Membership is only changed through addUserToGroup/removeUserFromGroup
+        await this.transaction(async client => {
+            const result = await client.query(
+                "UPDATE rbac_users SET name = $2, attributes = $3 WHERE id = $1",
+                [user.id, user.name, JSON.stringify(user.attributes || {})]
+            );
+            if (result.rowCount === 0) {
+                throw new UserNotFoundError(user.id);
+            }
+            // Assignments left in the user keep their windows unless new ones are given
+            await this.replaceUserLists(client, {
+                ...user,
+                roleValidity: user.roleValidity || await this.selectValidity("rbac_user_roles", "user_id", "role_id", user.id, client),
+                policyValidity: user.policyValidity || await this.selectValidity("rbac_user_policies", "user_id", "policy_id", user.id, client)
+            });
+        });
+
+        return user;
+    }
+
+    async deleteUser(userId: string): Promise<void> {
+        await this.getUser(userId);
+
+        // Role, policy and group assignments are removed by the foreign keys
+        await this.query("DELETE FROM rbac_users WHERE id = $1", [userId]);
+    }
+
+    async createRole(role: Role): Promise<Role> {
+        await this.transaction(async client => {
+            await client.query("INSERT INTO rbac_roles (id, name) VALUES ($1, $2)", [role.id, role.name])
+                .catch(rethrowDuplicate("Role", role.id));
+            await this.replaceRoleLists(client, role);
+        });
+
+        return role;
+    }
+
+    async getRole(roleId: string): Promise<Role> {
+        const result = await this.query("SELECT name FROM rbac_roles WHERE id = $1", [roleId]);
+
+        if (result.rows.length === 0) {
+            throw new RoleNotFoundError(roleId);
+        }
+
+        const [policies, parentRoles, policyValidity] = await Promise.all([
+            this.selectList("rbac_role_policies", "role_id", "policy_id", roleId),
+            this.selectList("rbac_role_parents", "role_id", "parent_role_id", roleId),
+            this.selectValidity("rbac_role_policies", "role_id", "policy_id", roleId)
+        ]);
+
+        return {
+            id: roleId,
+            name: result.rows[0].name,
+            policies,
+            parentRoles,
+            policyValidity
+        }
+    }
+
+    async assignRoleToUser(userId: string, roleId: string, validity?: ValidityWindow): Promise<User> {
+        const user = await this.getUser(userId);
+        await this.getRole(roleId);
+
+        const upsert = upsertAssignment("rbac_user_roles", "user_id", "role_id", userId, roleId, validity);
+        await this.query(upsert.text, upsert.values);
+
+        const roles = Array.from(new Set([...(user.roles || []), roleId]));
+        return { ...user, roles, roleValidity: pickValidity(setValidity(user.roleValidity, roleId, validity), roles) };
+    }
+
+    async createPolicy(policy: Policy): Promise<Policy> {
+        await this.query(
+            "INSERT INTO rbac_policies (id, document) VALUES ($1, $2)",
+            [policy.id, JSON.stringify(policy.document)]
+        ).catch(rethrowDuplicate("Policy", policy.id));
+
+        return policy;
+    }
+
+    async attachPolicyToRole(policyId: string, roleId: string, validity?: ValidityWindow): Promise<void> {
+        await this.getRole(roleId);
+        await this.getPolicy(policyId);
+
+        const upsert = upsertAssignment("rbac_role_policies", "role_id", "policy_id", roleId, policyId, validity);
+        await this.query(upsert.text, upsert.values);
+    }
+
+    async getUserPolicies(userId: string): Promise<Policy[]> {
+        const user = await this.getUser(userId);
+        return await this.getPolicies(user.policies || []);
+    }
+
+    async getRolePolicies(roleId: string): Promise<Policy[]> {
+        const role = await this.getRole(roleId);
+        return await this.getPolicies(role.policies || []);
+    }
+
+    async updateRole(role: Role): Promise<Role> {
+        await this.transaction(async client => {
+            const result = await client.query("UPDATE rbac_roles SET name = $2 WHERE id = $1", [role.id, role.name]);
+            if (result.rowCount === 0) {
+                throw new RoleNotFoundError(role.id);
+            }
+            // Policies left in the role keep their windows unless new ones are given
+            await this.replaceRoleLists(client, {
+                ...role,
+                policyValidity: role.policyValidity || await this.selectValidity("rbac_role_policies", "role_id", "policy_id", role.id, client)
+            });
+        });
+
+        return role;
+    }
+
+    async updatePolicy(policy: Policy): Promise<Policy> {
+        const result = await this.query(
+            "UPDATE rbac_policies SET document = $2 WHERE id = $1",
+            [policy.id, JSON.stringify(policy.document)]
+        );
+
+        if (result.rowCount === 0) {
+            throw new PolicyNotFoundError(policy.id);
+        }
+
+        return policy;
+    }
+
+    async deletePolicy(policyId: string, options: DeleteOptions = {}): Promise<void> {
+        await this.transaction(async client => {
+            await this.removeReferences(client, "Policy", policyId, POLICY_REFERENCES, options);
+            await client.query("DELETE FROM rbac_policies WHERE id = $1", [policyId]);
+        });
+    }
+
+    async deleteRole(roleId: string, options: DeleteOptions = {}): Promise<void> {
+        await this.transaction(async client => {
+            await this.removeReferences(client, "Role", roleId, ROLE_REFERENCES, options);
+            await client.query("DELETE FROM rbac_roles WHERE id = $1", [roleId]);
+        });
+    }
+
+    async detachPolicyFromRole(policyId: string, roleId: string): Promise<void> {
+        await this.getRole(roleId);
+
+        await this.query(
+            "DELETE FROM rbac_role_policies WHERE role_id = $1 AND policy_id = $2",
+            [roleId, policyId]
+        );
+    }
+
+    async detachPolicyFromUser(policyId: string, userId: string): Promise<void> {
+        await this.getUser(userId);
+
+        await this.query(
+            "DELETE FROM rbac_user_policies WHERE user_id = $1 AND policy_id = $2",
+            [userId, policyId]
+        );
+    }
+
+    async removeRoleFromUser(userId: string, roleId: string): Promise<void> {
+        await this.getUser(userId);
+
+        await this.query(
+            "DELETE FROM rbac_user_roles WHERE user_id = $1 AND role_id = $2",
+            [userId, roleId]
+        );
+    }
+
+    async attachPolicyToUser(policyId: string, userId: string, validity?: ValidityWindow): Promise<void> {
+        await this.getUser(userId);
+        await this.getPolicy(policyId);
+
+        const upsert = upsertAssignment("rbac_user_policies", "user_id", "policy_id", userId, policyId, validity);
+        await this.query(upsert.text, upsert.values);
+    }
+
+    async addParentRole(roleId: string, parentRoleId: string): Promise<void> {
+        await this.getRole(roleId);
+
+        await this.query(
+            "INSERT INTO rbac_role_parents (role_id, parent_role_id) VALUES ($1, $2) ON CONFLICT DO NOTHING",
+            [roleId, parentRoleId]
+        );
+    }
+
+    async removeParentRole(roleId: string, parentRoleId: string): Promise<void> {
+        await this.getRole(roleId);
+
+        await this.query(
+            "DELETE FROM rbac_role_parents WHERE role_id = $1 AND parent_role_id = $2",
+            [roleId, parentRoleId]
+        );
+    }
+
+    async createGroup(group: Group): Promise<Group> {
+        const members = Array.from(new Set(group.members || []));
+        await Promise.all(members.map(userId => this.getUser(userId)));
+
+        await this.transaction(async client => {
+            await client.query("INSERT INTO rbac_groups (id, name) VALUES ($1, $2)", [group.id, group.name])
+                .catch(rethrowDuplicate("Group", group.id));
+            await this.replaceGroupLists(client, group);
+            await this.replaceList(client, "rbac_group_members", "group_id", "user_id", group.id, members);
+        });
+
+        return group;
+    }
+
+    async getGroup(groupId: string): Promise<Group> {
+        const result = await this.query("SELECT name FROM rbac_groups WHERE id = $1", [groupId]);
+
+        if (result.rows.length === 0) {
+            throw new GroupNotFoundError(groupId);
+        }
+
+        const [members, roles, policies] = await Promise.all([
+            this.selectList("rbac_group_members", "group_id", "user_id", groupId),
+            this.selectList("rbac_group_roles", "group_id", "role_id", groupId),
+            this.selectList("rbac_group_policies", "group_id", "policy_id", groupId)
+        ]);
+
+        return {
+            id: groupId,
+            name: result.rows[0].name,
+            members,
+            roles,
+            policies
+        }
+    }
+
+    async updateGroup(group: Group): Promise<Group> {
+        // Membership is only changed through addUserToGroup/removeUserFromGroup
+        await this.transaction(async client => {
+            const result = await client.query("UPDATE rbac_groups SET name = $2 WHERE id = $1", [group.id, group.name]);
+            if (result.rowCount === 0) {
+                throw new GroupNotFoundError(group.id);
+            }
+            await this.replaceGroupLists(client, group);
+        });
+
+        return group;
+    }
+
+    async deleteGroup(groupId: string): Promise<void> {
+        await this.getGroup(groupId);
+
+        await this.query("DELETE FROM rbac_groups WHERE id = $1", [groupId]);
+    }
+
+    async addUserToGroup(userId: string, groupId: string): Promise<void> {
+        await Promise.all([this.getUser(userId), this.getGroup(groupId)]);
+
+        await this.query(
+            "INSERT INTO rbac_group_members (group_id, user_id) VALUES ($1, $2) ON CONFLICT DO NOTHING",
+            [groupId, userId]
+        );
+    }
+
+    async removeUserFromGroup(userId: string, groupId: string): Promise<void> {
+        await Promise.all([this.getUser(userId), this.getGroup(groupId)]);
+
+        await this.query(
+            "DELETE FROM rbac_group_members WHERE group_id = $1 AND user_id = $2",
+            [groupId, userId]
+        );
+    }
+
+    async assignRoleToGroup(groupId: string, roleId: string): Promise<void> {
+        await this.getGroup(groupId);
+        await this.getRole(roleId);
+
+        await this.query(
+            "INSERT INTO rbac_group_roles (group_id, role_id) VALUES ($1, $2) ON CONFLICT DO NOTHING",
+            [groupId, roleId]
+        );
+    }
+
+    async removeRoleFromGroup(groupId: string, roleId: string): Promise<void> {
+        await this.getGroup(groupId);
+
+        await this.query(
+            "DELETE FROM rbac_group_roles WHERE group_id = $1 AND role_id = $2",
+            [groupId, roleId]
+        );
+    }
+
+    async attachPolicyToGroup(policyId: string, groupId: string): Promise<void> {
+        await this.getGroup(groupId);
+        await this.getPolicy(policyId);
+
+        await this.query(
+            "INSERT INTO rbac_group_policies (group_id, policy_id) VALUES ($1, $2) ON CONFLICT DO NOTHING",
+            [groupId, policyId]
+        );
+    }
+
+    async detachPolicyFromGroup(policyId: string, groupId: string): Promise<void> {
+        await this.getGroup(groupId);
+
+        await this.query(
+            "DELETE FROM rbac_group_policies WHERE group_id = $1 AND policy_id = $2",
+            [groupId, policyId]
+        );
+    }
+
+    async getGroupPolicies(groupId: string): Promise<Policy[]> {
+        const group = await this.getGroup(groupId);
+        return await this.getPolicies(group.policies || []);
+    }
+
+    async getUsersWithRole(roleId: string): Promise<User[]> {
+        const userIds = await this.selectHolders("rbac_user_roles", "role_id", "user_id", roleId);
+        return await Promise.all(userIds.map(userId => this.getUser(userId)));
+    }
+
+    async getRolesWithPolicy(policyId: string): Promise<Role[]> {
+        const roleIds = await this.selectHolders("rbac_role_policies", "policy_id", "role_id", policyId);
+        return await Promise.all(roleIds.map(roleId => this.getRole(roleId)));
+    }
+
+    async getUsersWithPolicy(policyId: string): Promise<User[]> {
+        const userIds = await this.selectHolders("rbac_user_policies", "policy_id", "user_id", policyId);
+        return await Promise.all(userIds.map(userId => this.getUser(userId)));
+    }
+
+    async listUsers(options: ListOptions = {}): Promise<Page<User>> {
+        const page = await this.listIds("rbac_users", "name", options);
+        return { ...page, items: await Promise.all(page.items.map(userId => this.getUser(userId))) };
+    }
+
+    async listRoles(options: ListOptions = {}): Promise<Page<Role>> {
+        const page = await this.listIds("rbac_roles", "name", options);
+        return { ...page, items: await Promise.all(page.items.map(roleId => this.getRole(roleId))) };
+    }
+
+    async listPolicies(options: ListOptions = {}): Promise<Page<Policy>> {
+        const page = await this.listIds("rbac_policies", "id", options);
+        return { ...page, items: await this.getPolicies(page.items) };
+    }
+
+    async getPolicy(policyId: string): Promise<Policy> {
+        return (await this.getPolicies([policyId]))[0];
+    }
+
+    /**
+     * Loads policies by ID in a single query, preserving the order of the IDs
+     */
+    private async getPolicies(policyIds: string[]): Promise<Policy[]> {
+        if (policyIds.length === 0) {
+            return [];
+        }
+
+        const result = await this.query(
+            "SELECT id, document FROM rbac_policies WHERE id = ANY($1)",
+            [policyIds]
+        );
+        const documents = new Map(result.rows.map(row => [row.id, row.document]));
+
+        return policyIds.map(policyId => {
+            if (!documents.has(policyId)) {
+                throw new PolicyNotFoundError(policyId);
+            }
+            return { id: policyId, document: documents.get(policyId) };
+        });
+    }
+
+    /**
+     * Reads one page of IDs, using the last returned ID as the cursor
+     * IDs are compared bytewise so the order does not depend on the database collation
+     */
+    private async listIds(table: string, filterColumn: string, options: ListOptions): Promise<Page<string>> {
+        const limit = options.limit || DEFAULT_PAGE_SIZE;
+        const result = await this.query(
+            `SELECT id FROM ${table}
+             WHERE ($1::text IS NULL OR id COLLATE "C" > $1) AND left(${filterColumn}, length($2)) = $2
+             ORDER BY id COLLATE "C" LIMIT $3`,
+            [options.cursor ?? null, options.prefix || "", limit + 1]
+        );
+        const ids: string[] = result.rows.map(row => row.id);
+        const items = ids.slice(0, limit);
+
+        return { items, nextCursor: ids.length > limit ? items[items.length - 1] : undefined };
+    }
+
+    private async replaceUserLists(client: PoolClient, user: User): Promise<void> {
+        await this.replaceList(client, "rbac_user_roles", "user_id", "role_id", user.id, user.roles, user.roleValidity);
+        await this.replaceList(client, "rbac_user_policies", "user_id", "policy_id", user.id, user.policies, user.policyValidity);
+    }
+
+    private async replaceRoleLists(client: PoolClient, role: Role): Promise<void> {
+        await this.replaceList(client, "rbac_role_policies", "role_id", "policy_id", role.id, role.policies, role.policyValidity);
+        await this.replaceList(client, "rbac_role_parents", "role_id", "parent_role_id", role.id, role.parentRoles);
+    }
+
+    private async replaceGroupLists(client: PoolClient, group: Group): Promise<void> {
+        await this.replaceList(client, "rbac_group_roles", "group_id", "role_id", group.id, group.roles);
+        await this.replaceList(client, "rbac_group_policies", "group_id", "policy_id", group.id, group.policies);
+    }
+
+    /**
+     * Reads the values of an assignment table for one owner, in the order they were added
+     */
+    private async selectList(table: string, ownerColumn: string, valueColumn: string, ownerId: string): Promise<string[]> {
+        const result = await this.query(
+            `SELECT ${valueColumn} AS value FROM ${table} WHERE ${ownerColumn} = $1 ORDER BY position`,
+            [ownerId]
+        );
+        return result.rows.map(row => row.value);
+    }
+
+    /**
+     * Reads the validity windows of an assignment table for one owner
+     * @param client - Reads within the transaction of this connection instead of from the pool
+     * @returns The windows by assigned value, or undefined if no assignment is time-limited
+     */
+    private async selectValidity(
+        table: string,
+        ownerColumn: string,
+        valueColumn: string,
+        ownerId: string,
+        client?: PoolClient
+    ): Promise<ValidityMap | undefined> {
+        const text = `SELECT ${valueColumn} AS value, start_date, end_date FROM ${table}
+             WHERE ${ownerColumn} = $1 AND (start_date IS NOT NULL OR end_date IS NOT NULL)`;
+        const result = client ? await client.query(text, [ownerId]) : await this.query(text, [ownerId]);
+
+        const validity: ValidityMap = {};
+        for (const row of result.rows as { value: string; start_date: Date | null; end_date: Date | null }[]) {
+            validity[row.value] = {
+                ...(row.start_date ? { startDate: row.start_date.toISOString() } : {}),
+                ...(row.end_date ? { endDate: row.end_date.toISOString() } : {})
+            };
+        }
+        return result.rows.length > 0 ? validity : undefined;
+    }
+
+    /**
+     * Reads the owners of an assigned value, ordered by ID
+     * Uses the index on the value column of the assignment table
+     */
+    private async selectHolders(table: string, valueColumn: string, ownerColumn: string, value: string): Promise<string[]> {
+        const result = await this.query(
+            `SELECT ${ownerColumn} AS owner FROM ${table} WHERE ${valueColumn} = $1 ORDER BY ${ownerColumn} COLLATE "C"`,
+            [value]
+        );
+        return result.rows.map(row => row.owner);
+    }
+
+    /**
+     * Removes a role or policy from every assignment table referencing it
+     * A role listed as its own parent does not count as a reference
+     * @throws EntityInUseError if there are references and the delete does not cascade
+     */
+    private async removeReferences(client: PoolClient, entityType: EntityType, id: string, tables: ReferenceTable[], options: DeleteOptions): Promise<void> {
+        const references: EntityReference[] = [];
+        for (const { entityType: ownerType, table, ownerColumn, valueColumn } of tables) {
+            const result = await client.query(
+                `SELECT ${ownerColumn} AS owner FROM ${table} WHERE ${valueColumn} = $1 ORDER BY ${ownerColumn} COLLATE "C"`,
+                [id]
+            );
+            references.push(...result.rows
+                .filter(row => ownerType !== entityType || row.owner !== id)
+                .map(row => ({ entityType: ownerType, entityId: row.owner })));
+        }
+
+        if (references.length > 0 && !options.cascade) {
+            throw new EntityInUseError(entityType, id, references);
+        }
+
+        for (const { table, valueColumn } of tables) {
+            await client.query(`DELETE FROM ${table} WHERE ${valueColumn} = $1`, [id]);
+        }
+    }
+
+    /**
+     * Replaces all values of an assignment table for one owner
+     * Validity windows are only written to the tables of assignments that can be time-limited
+     */
+    private async replaceList(
+        client: PoolClient,
+        table: string,
+        ownerColumn: string,
+        valueColumn: string,
+        ownerId: string,
+        values: string[] = [],
+        validity?: ValidityMap
+    ): Promise<void> {
+        await client.query(`DELETE FROM ${table} WHERE ${ownerColumn} = $1`, [ownerId]);
+
+        for (const value of Array.from(new Set(values))) {
+            if (validity?.[value]) {
+                await client.query(upsertAssignment(table, ownerColumn, valueColumn, ownerId, value, validity[value]));
+            } else {
+                await client.query(
+                    `INSERT INTO ${table} (${ownerColumn}, ${valueColumn}) VALUES ($1, $2)`,
+                    [ownerId, value]
+                );
+            }
+        }
+    }
+
+    /**
+     * Runs a query on the pool, translating driver errors into errors of this library
+     */
+    private async query(text: string, values: unknown[]): Promise<QueryResult> {
+        try {
+            return await this.pool.query(text, values);
+        } catch (err) {
+            throw toRepositoryError(err);
+        }
+    }
+
+    /**
+     * Runs queries on a dedicated connection inside a transaction
+     * The transaction is rolled back if the callback throws
+     */
+    private async transaction<R>(callback: (client: PoolClient) => Promise<R>): Promise<R> {
+        let client: PoolClient;
+        try {
+            client = await this.pool.connect();
+        } catch (err) {
+            throw toRepositoryError(err);
+        }
+
+        try {
+            await client.query("BEGIN");
+            const result = await callback(client);
+            await client.query("COMMIT");
+            return result;
+        } catch (err) {
+            await client.query("ROLLBACK");
+            throw toRepositoryError(err);
+        } finally {
+            client.release();
+        }
+    }
+}
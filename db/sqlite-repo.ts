@@ -0,0 +1,674 @@
+import type { Database, RunResult } from "better-sqlite3";
+import { DEFAULT_PAGE_SIZE, DeleteOptions, IBaseRepository, ListOptions, Page } from "./base-repo";
+import { Group, Policy, Role, User, ValidityWindow } from "../models";
+import { ValidityMap, pickValidity, setValidity } from "./validity";
+import {
+    DuplicateEntityError,
+    EntityInUseError,
+    EntityReference,
+    EntityType,
+    GroupNotFoundError,
+    PolicyNotFoundError,
+    RoleNotFoundError,
+    UserNotFoundError,
+    toRepositoryError
+} from "../errors";
+
+const PRIMARY_KEY_VIOLATION = "SQLITE_CONSTRAINT_PRIMARYKEY";
+
+/**
+ * Assignment tables referencing a role or policy, used to check and cascade deletes
+ */
+interface ReferenceTable {
+    entityType: EntityType;
+    table: string;
+    ownerColumn: string;
+    valueColumn: string;
+}
+
+const POLICY_REFERENCES: ReferenceTable[] = [
+    { entityType: "User", table: "rbac_user_policies", ownerColumn: "user_id", valueColumn: "policy_id" },
+    { entityType: "Role", table: "rbac_role_policies", ownerColumn: "role_id", valueColumn: "policy_id" },
+    { entityType: "Group", table: "rbac_group_policies", ownerColumn: "group_id", valueColumn: "policy_id" }
+];
+
+const ROLE_REFERENCES: ReferenceTable[] = [
+    { entityType: "User", table: "rbac_user_roles", ownerColumn: "user_id", valueColumn: "role_id" },
+    { entityType: "Group", table: "rbac_group_roles", ownerColumn: "group_id", valueColumn: "role_id" },
+    { entityType: "Role", table: "rbac_role_parents", ownerColumn: "role_id", valueColumn: "parent_role_id" }
+];
+
+/**
+ * Statements creating the schema
+ * Assignment tables reference their owner so rows are removed with it, but not the
+ * assigned entity, matching the behavior of the other repositories. Each assignment
+ * table is indexed by the assigned entity for reverse lookups. Assignments that can be
+ * time-limited store their validity window as ISO date strings.
+ */
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS rbac_users (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        attributes TEXT NOT NULL DEFAULT '{}' CHECK (json_valid(attributes))
+    );
+    CREATE TABLE IF NOT EXISTS rbac_roles (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS rbac_policies (
+        id TEXT PRIMARY KEY,
+        document TEXT NOT NULL CHECK (json_valid(document))
+    );
+    CREATE TABLE IF NOT EXISTS rbac_groups (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS rbac_user_roles (
+        user_id TEXT NOT NULL REFERENCES rbac_users (id) ON DELETE CASCADE,
+        role_id TEXT NOT NULL,
+        start_date TEXT,
+        end_date TEXT,
+        PRIMARY KEY (user_id, role_id)
+    );
+    CREATE INDEX IF NOT EXISTS rbac_user_roles_role_id ON rbac_user_roles (role_id);
+    CREATE TABLE IF NOT EXISTS rbac_user_policies (
+        user_id TEXT NOT NULL REFERENCES rbac_users (id) ON DELETE CASCADE,
+        policy_id TEXT NOT NULL,
+        start_date TEXT,
+        end_date TEXT,
+        PRIMARY KEY (user_id, policy_id)
+    );
+    CREATE INDEX IF NOT EXISTS rbac_user_policies_policy_id ON rbac_user_policies (policy_id);
+    CREATE TABLE IF NOT EXISTS rbac_role_policies (
+        role_id TEXT NOT NULL REFERENCES rbac_roles (id) ON DELETE CASCADE,
+        policy_id TEXT NOT NULL,
+        start_date TEXT,
+        end_date TEXT,
+        PRIMARY KEY (role_id, policy_id)
+    );
+    CREATE INDEX IF NOT EXISTS rbac_role_policies_policy_id ON rbac_role_policies (policy_id);
+    CREATE TABLE IF NOT EXISTS rbac_role_parents (
+        role_id TEXT NOT NULL REFERENCES rbac_roles (id) ON DELETE CASCADE,
+        parent_role_id TEXT NOT NULL,
+        PRIMARY KEY (role_id, parent_role_id)
+    );
+    CREATE INDEX IF NOT EXISTS rbac_role_parents_parent_role_id ON rbac_role_parents (parent_role_id);
+    CREATE TABLE IF NOT EXISTS rbac_group_members (
+        group_id TEXT NOT NULL REFERENCES rbac_groups (id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES rbac_users (id) ON DELETE CASCADE,
+        PRIMARY KEY (group_id, user_id)
+    );
+    CREATE INDEX IF NOT EXISTS rbac_group_members_user_id ON rbac_group_members (user_id);
+    CREATE TABLE IF NOT EXISTS rbac_group_roles (
+        group_id TEXT NOT NULL REFERENCES rbac_groups (id) ON DELETE CASCADE,
+        role_id TEXT NOT NULL,
+        PRIMARY KEY (group_id, role_id)
+    );
+    CREATE INDEX IF NOT EXISTS rbac_group_roles_role_id ON rbac_group_roles (role_id);
+    CREATE TABLE IF NOT EXISTS rbac_group_policies (
+        group_id TEXT NOT NULL REFERENCES rbac_groups (id) ON DELETE CASCADE,
+        policy_id TEXT NOT NULL,
+        PRIMARY KEY (group_id, policy_id)
+    );
+    CREATE INDEX IF NOT EXISTS rbac_group_policies_policy_id ON rbac_group_policies (policy_id);
+`;
+
+/**
+ * Adds the attributes column to user tables created before user attributes were stored
+ */
+const ADD_USER_ATTRIBUTES = `
+    ALTER TABLE rbac_users ADD COLUMN attributes TEXT NOT NULL DEFAULT '{}' CHECK (json_valid(attributes));
+`;
+
+/**
+ * Assignment tables with validity windows, which lack the window columns when created by earlier versions
+ */
+const VALIDITY_TABLES = ["rbac_user_roles", "rbac_user_policies", "rbac_role_policies"];
+
+/**
+ * Repository backed by a SQLite database file through `better-sqlite3`
+ *
+ * Uses the same tables as PostgresRepository, with policy documents stored as JSON text.
+ * Changes spanning several rows run in a transaction.
+ *
+ * @example
+ * import Database from "better-sqlite3";
+ * import { AccessControl, SqliteRepository } from "rbac-engine";
+ *
+ * const db = new Database("rbac.db");
+ * const accessControl = new AccessControl(db, SqliteRepository);
+ * await accessControl.init();
+ */
+export class SqliteRepository implements IBaseRepository {
+    constructor(private db: Database) {
+        // Foreign keys are off by default and must be enabled per connection
+        this.db.pragma("foreign_keys = ON");
+    }
+
+    async setupTables(): Promise<void> {
+        this.execute(() => {
+            this.db.exec(SCHEMA);
+            const columns = this.db.pragma("table_info(rbac_users)") as { name: string }[];
+            if (!columns.some(column => column.name === "attributes")) {
+                this.db.exec(ADD_USER_ATTRIBUTES);
+            }
+            for (const table of VALIDITY_TABLES) {
+                const tableColumns = this.db.pragma(`table_info(${table})`) as { name: string }[];
+                if (!tableColumns.some(column => column.name === "start_date")) {
+                    this.db.exec(`ALTER TABLE ${table} ADD COLUMN start_date TEXT; ALTER TABLE ${table} ADD COLUMN end_date TEXT;`);
+                }
+            }
+        });
+    }
+
+    async createUser(user: User): Promise<User> {
+        const groupIds = Array.from(new Set(user.groups || []));
+        await Promise.all(groupIds.map(groupId => this.getGroup(groupId)));
+
+        this.transaction(() => {
+            this.insertEntity(
+                "User",
+                "INSERT INTO rbac_users (id, name, attributes) VALUES (?, ?, ?)",
+                user.id, user.name, JSON.stringify(user.attributes || {})
+            );
+            this.replaceUserLists(user);
+            for (const groupId of groupIds) {
+                this.db.prepare("INSERT INTO rbac_group_members (group_id, user_id) VALUES (?, ?)").run(groupId, user.id);
+            }
+        });
+
+        return user;
+    }
+
+    async getUser(userId: string): Promise<User> {
+        return this.execute(() => {
+            const row = this.db.prepare("SELECT name, attributes FROM rbac_users WHERE id = ?").get(userId) as { name: string; attributes: string } | undefined;
+
+            if (!row) {
+                throw new UserNotFoundError(userId);
+            }
+
+            return {
+                id: userId,
+                name: row.name,
+                roles: this.selectList("rbac_user_roles", "user_id", "role_id", userId),
+                policies: this.selectList("rbac_user_policies", "user_id", "policy_id", userId),
+                groups: this.selectList("rbac_group_members", "user_id", "group_id", userId),
+                attributes: JSON.parse(row.attributes),
+                roleValidity: this.selectValidity("rbac_user_roles", "user_id", "role_id", userId),
+                policyValidity: this.selectValidity("rbac_user_policies", "user_id", "policy_id", userId)
+            }
+        });
+    }
+
+    async updateUser(user: User): Promise<User> {
+        // Membership is only changed through addUserToGroup/removeUserFromGroup
+        this.transaction(() => {
+            const result = this.db.prepare("UPDATE rbac_users SET name = ?, attributes = ? WHERE id = ?")
+                .run(user.name, JSON.stringify(user.attributes || {}), user.id);
+            if (result.changes === 0) {
+                throw new UserNotFoundError(user.id);
+            }
+            // Assignments left in the user keep their windows unless new ones are given
+            this.replaceUserLists({
+                ...user,
+                roleValidity: user.roleValidity || this.selectValidity("rbac_user_roles", "user_id", "role_id", user.id),
+                policyValidity: user.policyValidity || this.selectValidity("rbac_user_policies", "user_id", "policy_id", user.id)
+            });
+        });
+
+        return user;
+    }
+
+    async deleteUser(userId: string): Promise<void> {
+        await this.getUser(userId);
+
+        // Role, policy and group assignments are removed by the foreign keys
+        this.run("DELETE FROM rbac_users WHERE id = ?", userId);
+    }
+
+    async createRole(role: Role): Promise<Role> {
+        this.transaction(() => {
+            this.insertEntity("Role", "INSERT INTO rbac_roles (id, name) VALUES (?, ?)", role.id, role.name);
+            this.replaceRoleLists(role);
+        });
+
+        return role;
+    }
+
+    async getRole(roleId: string): Promise<Role> {
+        return this.execute(() => {
+            const row = this.db.prepare("SELECT name FROM rbac_roles WHERE id = ?").get(roleId) as { name: string } | undefined;
+
+            if (!row) {
+                throw new RoleNotFoundError(roleId);
+            }
+
+            return {
+                id: roleId,
+                name: row.name,
+                policies: this.selectList("rbac_role_policies", "role_id", "policy_id", roleId),
+                parentRoles: this.selectList("rbac_role_parents", "role_id", "parent_role_id", roleId),
+                policyValidity: this.selectValidity("rbac_role_policies", "role_id", "policy_id", roleId)
+            }
+        });
+    }
+
+    async assignRoleToUser(userId: string, roleId: string, validity?: ValidityWindow): Promise<User> {
+        const user = await this.getUser(userId);
+        await this.getRole(roleId);
+
+        this.upsertAssignment("rbac_user_roles", "user_id", "role_id", userId, roleId, validity);
+
+        const roles = Array.from(new Set([...(user.roles || []), roleId]));
+        return { ...user, roles, roleValidity: pickValidity(setValidity(user.roleValidity, roleId, validity), roles) };
+    }
+
+    async createPolicy(policy: Policy): Promise<Policy> {
+        this.execute(() => this.insertEntity(
+            "Policy",
+            "INSERT INTO rbac_policies (id, document) VALUES (?, ?)",
+            policy.id,
+            JSON.stringify(policy.document)
+        ));
+
+        return policy;
+    }
+
+    async attachPolicyToRole(policyId: string, roleId: string, validity?: ValidityWindow): Promise<void> {
+        await this.getRole(roleId);
+        await this.getPolicy(policyId);
+
+        this.upsertAssignment("rbac_role_policies", "role_id", "policy_id", roleId, policyId, validity);
+    }
+
+    async getUserPolicies(userId: string): Promise<Policy[]> {
+        const user = await this.getUser(userId);
+        return this.getPolicies(user.policies || []);
+    }
+
+    async getRolePolicies(roleId: string): Promise<Policy[]> {
+        const role = await this.getRole(roleId);
+        return this.getPolicies(role.policies || []);
+    }
+
+    async updateRole(role: Role): Promise<Role> {
+        this.transaction(() => {
+            const result = this.db.prepare("UPDATE rbac_roles SET name = ? WHERE id = ?").run(role.name, role.id);
+            if (result.changes === 0) {
+                throw new RoleNotFoundError(role.id);
+            }
+            // Policies left in the role keep their windows unless new ones are given
+            this.replaceRoleLists({
+                ...role,
+                policyValidity: role.policyValidity || this.selectValidity("rbac_role_policies", "role_id", "policy_id", role.id)
+            });
+        });
+
+        return role;
+    }
+
+    async updatePolicy(policy: Policy): Promise<Policy> {
+        const result = this.run("UPDATE rbac_policies SET document = ? WHERE id = ?", JSON.stringify(policy.document), policy.id);
+
+        if (result.changes === 0) {
+            throw new PolicyNotFoundError(policy.id);
+        }
+
+        return policy;
+    }
+
+    async deletePolicy(policyId: string, options: DeleteOptions = {}): Promise<void> {
+        this.transaction(() => {
+            this.removeReferences("Policy", policyId, POLICY_REFERENCES, options);
+            this.db.prepare("DELETE FROM rbac_policies WHERE id = ?").run(policyId);
+        });
+    }
+
+    async deleteRole(roleId: string, options: DeleteOptions = {}): Promise<void> {
+        this.transaction(() => {
+            this.removeReferences("Role", roleId, ROLE_REFERENCES, options);
+            this.db.prepare("DELETE FROM rbac_roles WHERE id = ?").run(roleId);
+        });
+    }
+
+    async detachPolicyFromRole(policyId: string, roleId: string): Promise<void> {
+        await this.getRole(roleId);
+
+        this.run("DELETE FROM rbac_role_policies WHERE role_id = ? AND policy_id = ?", roleId, policyId);
+    }
+
+    async detachPolicyFromUser(policyId: string, userId: string): Promise<void> {
+        await this.getUser(userId);
+
+        this.run("DELETE FROM rbac_user_policies WHERE user_id = ? AND policy_id = ?", userId, policyId);
+    }
+
+    async removeRoleFromUser(userId: string, roleId: string): Promise<void> {
+        await this.getUser(userId);
+
+        this.run("DELETE FROM rbac_user_roles WHERE user_id = ? AND role_id = ?", userId, roleId);
+    }
+
+    async attachPolicyToUser(policyId: string, userId: string, validity?: ValidityWindow): Promise<void> {
+        await this.getUser(userId);
+        await this.getPolicy(policyId);
+
+        this.upsertAssignment("rbac_user_policies", "user_id", "policy_id", userId, policyId, validity);
+    }
+
+    async addParentRole(roleId: string, parentRoleId: string): Promise<void> {
+        await this.getRole(roleId);
+
+        this.run("INSERT OR IGNORE INTO rbac_role_parents (role_id, parent_role_id) VALUES (?, ?)", roleId, parentRoleId);
+    }
+
+    async removeParentRole(roleId: string, parentRoleId: string): Promise<void> {
+        await this.getRole(roleId);
+
+        this.run("DELETE FROM rbac_role_parents WHERE role_id = ? AND parent_role_id = ?", roleId, parentRoleId);
+    }
+
+    async createGroup(group: Group): Promise<Group> {
+        const members = Array.from(new Set(group.members || []));
+        await Promise.all(members.map(userId => this.getUser(userId)));
+
+        this.transaction(() => {
+            this.insertEntity("Group", "INSERT INTO rbac_groups (id, name) VALUES (?, ?)", group.id, group.name);
+            this.replaceGroupLists(group);
+            this.replaceList("rbac_group_members", "group_id", "user_id", group.id, members);
+        });
+
+        return group;
+    }
+
+    async getGroup(groupId: string): Promise<Group> {
+        return this.execute(() => {
+            const row = this.db.prepare("SELECT name FROM rbac_groups WHERE id = ?").get(groupId) as { name: string } | undefined;
+
+            if (!row) {
+                throw new GroupNotFoundError(groupId);
+            }
+
+            return {
+                id: groupId,
+                name: row.name,
+                members: this.selectList("rbac_group_members", "group_id", "user_id", groupId),
+                roles: this.selectList("rbac_group_roles", "group_id", "role_id", groupId),
+                policies: this.selectList("rbac_group_policies", "group_id", "policy_id", groupId)
+            }
+        });
+    }
+
+    async updateGroup(group: Group): Promise<Group> {
+        // Membership is only changed through addUserToGroup/removeUserFromGroup
+        this.transaction(() => {
+            const result = this.db.prepare("UPDATE rbac_groups SET name = ? WHERE id = ?").run(group.name, group.id);
+            if (result.changes === 0) {
+                throw new GroupNotFoundError(group.id);
+            }
+            this.replaceGroupLists(group);
+        });
+
+        return group;
+    }
+
+    async deleteGroup(groupId: string): Promise<void> {
+        await this.getGroup(groupId);
+
+        this.run("DELETE FROM rbac_groups WHERE id = ?", groupId);
+    }
+
+    async addUserToGroup(userId: string, groupId: string): Promise<void> {
+        await Promise.all([this.getUser(userId), this.getGroup(groupId)]);
+
+        this.run("INSERT OR IGNORE INTO rbac_group_members (group_id, user_id) VALUES (?, ?)", groupId, userId);
+    }
+
+    async removeUserFromGroup(userId: string, groupId: string): Promise<void> {
+        await Promise.all([this.getUser(userId), this.getGroup(groupId)]);
+
+        this.run("DELETE FROM rbac_group_members WHERE group_id = ? AND user_id = ?", groupId, userId);
+    }
+
+    async assignRoleToGroup(groupId: string, roleId: string): Promise<void> {
+        await this.getGroup(groupId);
+        await this.getRole(roleId);
+
+        this.run("INSERT OR IGNORE INTO rbac_group_roles (group_id, role_id) VALUES (?, ?)", groupId, roleId);
+    }
+
+    async removeRoleFromGroup(groupId: string, roleId: string): Promise<void> {
+        await this.getGroup(groupId);
+
+        this.run("DELETE FROM rbac_group_roles WHERE group_id = ? AND role_id = ?", groupId, roleId);
+    }
+
+    async attachPolicyToGroup(policyId: string, groupId: string): Promise<void> {
+        await this.getGroup(groupId);
+        await this.getPolicy(policyId);
+
+        this.run("INSERT OR IGNORE INTO rbac_group_policies (group_id, policy_id) VALUES (?, ?)", groupId, policyId);
+    }
+
+    async detachPolicyFromGroup(policyId: string, groupId: string): Promise<void> {
+        await this.getGroup(groupId);
+
+        this.run("DELETE FROM rbac_group_policies WHERE group_id = ? AND policy_id = ?", groupId, policyId);
+    }
+
+    async getGroupPolicies(groupId: string): Promise<Policy[]> {
+        const group = await this.getGroup(groupId);
+        return this.getPolicies(group.policies || []);
+    }
+
+    async getUsersWithRole(roleId: string): Promise<User[]> {
+        const userIds = this.selectHolders("rbac_user_roles", "role_id", "user_id", roleId);
+        return await Promise.all(userIds.map(userId => this.getUser(userId)));
+    }
+
+    async getRolesWithPolicy(policyId: string): Promise<Role[]> {
+        const roleIds = this.selectHolders("rbac_role_policies", "policy_id", "role_id", policyId);
+        return await Promise.all(roleIds.map(roleId => this.getRole(roleId)));
+    }
+
+    async getUsersWithPolicy(policyId: string): Promise<User[]> {
+        const userIds = this.selectHolders("rbac_user_policies", "policy_id", "user_id", policyId);
+        return await Promise.all(userIds.map(userId => this.getUser(userId)));
+    }
+
+    async listUsers(options: ListOptions = {}): Promise<Page<User>> {
+        const page = this.listIds("rbac_users", "name", options);
+        return { ...page, items: await Promise.all(page.items.map(userId => this.getUser(userId))) };
+    }
+
+    async listRoles(options: ListOptions = {}): Promise<Page<Role>> {
+        const page = this.listIds("rbac_roles", "name", options);
+        return { ...page, items: await Promise.all(page.items.map(roleId => this.getRole(roleId))) };
+    }
+
+    async listPolicies(options: ListOptions = {}): Promise<Page<Policy>> {
+        const page = this.listIds("rbac_policies", "id", options);
+        return { ...page, items: this.getPolicies(page.items) };
+    }
+
+    async getPolicy(policyId: string): Promise<Policy> {
+        return this.getPolicies([policyId])[0];
+    }
+
+    /**
+     * Loads policies by ID, preserving the order of the IDs
+     */
+    private getPolicies(policyIds: string[]): Policy[] {
+        return this.execute(() => {
+            const statement = this.db.prepare("SELECT document FROM rbac_policies WHERE id = ?");
+
+            return policyIds.map(policyId => {
+                const row = statement.get(policyId) as { document: string } | undefined;
+                if (!row) {
+                    throw new PolicyNotFoundError(policyId);
+                }
+                return { id: policyId, document: JSON.parse(row.document) };
+            });
+        });
+    }
+
+    /**
+     * Reads one page of IDs, using the last returned ID as the cursor
+     */
+    private listIds(table: string, filterColumn: string, options: ListOptions): Page<string> {
+        const limit = options.limit || DEFAULT_PAGE_SIZE;
+        const rows = this.execute(() => this.db.prepare(
+            `SELECT id FROM ${table}
+             WHERE (@cursor IS NULL OR id > @cursor) AND substr(${filterColumn}, 1, length(@prefix)) = @prefix
+             ORDER BY id LIMIT @limit`
+        ).all({ cursor: options.cursor ?? null, prefix: options.prefix || "", limit: limit + 1 }) as { id: string }[]);
+        const items = rows.slice(0, limit).map(row => row.id);
+
+        return { items, nextCursor: rows.length > limit ? items[items.length - 1] : undefined };
+    }
+
+    private replaceUserLists(user: User): void {
+        this.replaceList("rbac_user_roles", "user_id", "role_id", user.id, user.roles, user.roleValidity);
+        this.replaceList("rbac_user_policies", "user_id", "policy_id", user.id, user.policies, user.policyValidity);
+    }
+
+    private replaceRoleLists(role: Role): void {
+        this.replaceList("rbac_role_policies", "role_id", "policy_id", role.id, role.policies, role.policyValidity);
+        this.replaceList("rbac_role_parents", "role_id", "parent_role_id", role.id, role.parentRoles);
+    }
+
+    private replaceGroupLists(group: Group): void {
+        this.replaceList("rbac_group_roles", "group_id", "role_id", group.id, group.roles);
+        this.replaceList("rbac_group_policies", "group_id", "policy_id", group.id, group.policies);
+    }
+
+    /**
+     * Inserts the row of a new entity
+     * @throws DuplicateEntityError if a row with the ID exists
+     */
+    private insertEntity(entityType: EntityType, sql: string, id: string, ...values: unknown[]): void {
+        try {
+            this.db.prepare(sql).run(id, ...values);
+        } catch (err: any) {
+            if (err?.code === PRIMARY_KEY_VIOLATION) {
+                throw new DuplicateEntityError(entityType, id, { cause: err });
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Reads the values of an assignment table for one owner, in the order they were added
+     */
+    private selectList(table: string, ownerColumn: string, valueColumn: string, ownerId: string): string[] {
+        const rows = this.db.prepare(`SELECT ${valueColumn} AS value FROM ${table} WHERE ${ownerColumn} = ? ORDER BY rowid`)
+            .all(ownerId) as { value: string }[];
+        return rows.map(row => row.value);
+    }
+
+    /**
+     * Reads the validity windows of an assignment table for one owner
+     * @returns The windows by assigned value, or undefined if no assignment is time-limited
+     */
+    private selectValidity(table: string, ownerColumn: string, valueColumn: string, ownerId: string): ValidityMap | undefined {
+        const rows = this.db.prepare(
+            `SELECT ${valueColumn} AS value, start_date, end_date FROM ${table}
+             WHERE ${ownerColumn} = ? AND (start_date IS NOT NULL OR end_date IS NOT NULL)`
+        ).all(ownerId) as { value: string; start_date: string | null; end_date: string | null }[];
+
+        const validity: ValidityMap = {};
+        for (const row of rows) {
+            validity[row.value] = {
+                ...(row.start_date ? { startDate: row.start_date } : {}),
+                ...(row.end_date ? { endDate: row.end_date } : {})
+            };
+        }
+        return rows.length > 0 ? validity : undefined;
+    }
+
+    /**
+     * Adds an assignment, or replaces the validity window of an existing one
+     */
+    private upsertAssignment(table: string, ownerColumn: string, valueColumn: string, ownerId: string, value: string, validity?: ValidityWindow): void {
+        this.run(
+            `INSERT INTO ${table} (${ownerColumn}, ${valueColumn}, start_date, end_date) VALUES (?, ?, ?, ?)
+             ON CONFLICT (${ownerColumn}, ${valueColumn}) DO UPDATE SET start_date = excluded.start_date, end_date = excluded.end_date`,
+            ownerId, value, validity?.startDate ?? null, validity?.endDate ?? null
+        );
+    }
+
+    /**
+     * Reads the owners of an assigned value, ordered by ID
+     * Uses the index on the value column of the assignment table
+     */
+    private selectHolders(table: string, valueColumn: string, ownerColumn: string, value: string): string[] {
+        const rows = this.execute(() => this.db.prepare(`SELECT ${ownerColumn} AS owner FROM ${table} WHERE ${valueColumn} = ? ORDER BY ${ownerColumn}`)
+            .all(value) as { owner: string }[]);
+        return rows.map(row => row.owner);
+    }
+
+    /**
+     * Removes a role or policy from every assignment table referencing it
+     * A role listed as its own parent does not count as a reference. Must be called inside a transaction
+     * @throws EntityInUseError if there are references and the delete does not cascade
+     */
+    private removeReferences(entityType: EntityType, id: string, tables: ReferenceTable[], options: DeleteOptions): void {
+        const references: EntityReference[] = tables.flatMap(({ entityType: ownerType, table, ownerColumn, valueColumn }) =>
+            (this.db.prepare(`SELECT ${ownerColumn} AS owner FROM ${table} WHERE ${valueColumn} = ? ORDER BY ${ownerColumn}`)
+                .all(id) as { owner: string }[])
+                .filter(row => ownerType !== entityType || row.owner !== id)
+                .map(row => ({ entityType: ownerType, entityId: row.owner })));
+
+        if (references.length > 0 && !options.cascade) {
+            throw new EntityInUseError(entityType, id, references);
+        }
+
+        for (const { table, valueColumn } of tables) {
+            this.db.prepare(`DELETE FROM ${table} WHERE ${valueColumn} = ?`).run(id);
+        }
+    }
+
+    /**
+     * Replaces all values of an assignment table for one owner
+     * Validity windows are only written to the tables of assignments that can be time-limited.
+     * Must be called inside a transaction
+     */
+    private replaceList(table: string, ownerColumn: string, valueColumn: string, ownerId: string, values: string[] = [], validity?: ValidityMap): void {
+        this.db.prepare(`DELETE FROM ${table} WHERE ${ownerColumn} = ?`).run(ownerId);
+
+        const insert = this.db.prepare(`INSERT INTO ${table} (${ownerColumn}, ${valueColumn}) VALUES (?, ?)`);
+        for (const value of Array.from(new Set(values))) {
+            if (validity?.[value]) {
+                this.upsertAssignment(table, ownerColumn, valueColumn, ownerId, value, validity[value]);
+            } else {
+                insert.run(ownerId, value);
+            }
+        }
+    }
+
+    /**
+     * Runs a single statement
+     */
+    private run(sql: string, ...params: unknown[]): RunResult {
+        return this.execute(() => this.db.prepare(sql).run(...params));
+    }
+
+    /**
+     * Runs statements in a transaction that is rolled back if the callback throws
+     */
+    private transaction(callback: () => void): void {
+        this.execute(() => this.db.transaction(callback)());
+    }
+
+    /**
+     * Runs database calls, translating driver errors into errors of this library
+     */
+    private execute<R>(operation: () => R): R {
+        try {
+            return operation();
+        } catch (err) {
+            throw toRepositoryError(err);
+        }
+    }
+}
@@ -0,0 +1,83 @@
+import { ValidityWindow } from "../models";
+import { ValidationError } from "../errors";
+
+/**
+ * Validity windows of time-limited assignments, keyed by the ID of the assigned role or policy
+ */
+export type ValidityMap = Record<string, ValidityWindow>;
+
+/**
+ * Checks a validity window and converts its dates to ISO format (UTC)
+ * @throws ValidationError if the window has no dates, a date is invalid, or it does not end after it starts
+ */
+export const normalizeValidityWindow = (validity: ValidityWindow): ValidityWindow => {
+    if (!validity.startDate && !validity.endDate) {
+        throw new ValidationError("A validity window needs a startDate or an endDate");
+    }
+
+    const normalized: ValidityWindow = {};
+    for (const key of ["startDate", "endDate"] as const) {
+        const value = validity[key];
+        if (value === undefined) {
+            continue;
+        }
+        const time = new Date(value).getTime();
+        if (isNaN(time)) {
+            throw new ValidationError(`Invalid ${key} in validity window: ${value}`);
+        }
+        normalized[key] = new Date(time).toISOString();
+    }
+
+    if (normalized.startDate && normalized.endDate && normalized.startDate >= normalized.endDate) {
+        throw new ValidationError("The startDate of a validity window must be before its endDate");
+    }
+
+    return normalized;
+};
+
+/**
+ * Checks if an assignment applies at a point in time
+ * Assignments without a window always apply, and windows with invalid dates never do
+ */
+export const isAssignmentActive = (validity: ValidityWindow | undefined, now: Date = new Date()): boolean => {
+    if (!validity) {
+        return true;
+    }
+
+    const startTime = validity.startDate ? new Date(validity.startDate).getTime() : -Infinity;
+    const endTime = validity.endDate ? new Date(validity.endDate).getTime() : Infinity;
+    return startTime <= now.getTime() && now.getTime() < endTime;
+};
+
+/**
+ * Checks if an assignment's window ended at or before a point in time
+ */
+export const isAssignmentExpired = (validity: ValidityWindow | undefined, now: Date = new Date()): boolean =>
+    !!validity?.endDate && new Date(validity.endDate).getTime() <= now.getTime();
+
+/**
+ * Returns a copy of the windows with the window of one assignment set, or removed when none is given
+ */
+export const setValidity = (validity: ValidityMap | undefined, id: string, window?: ValidityWindow): ValidityMap => {
+    const updated = { ...validity };
+    if (window) {
+        updated[id] = window;
+    } else {
+        delete updated[id];
+    }
+    return updated;
+};
+
+/**
+ * Keeps the windows of the listed assignments, or returns undefined if none of them has one
+ * Repositories store windows this way, so removed assignments leave no window behind
+ */
+export const pickValidity = (validity: ValidityMap | undefined, ids: string[] | undefined): ValidityMap | undefined => {
+    const picked: ValidityMap = {};
+    for (const id of ids || []) {
+        if (validity?.[id]) {
+            picked[id] = { ...validity[id] };
+        }
+    }
+    return Object.keys(picked).length > 0 ? picked : undefined;
+};
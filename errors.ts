@@ -0,0 +1,143 @@
+/**
+ * Error classes thrown by repositories and AccessControl
+ */
+
+/**
+ * Kinds of entities stored by a repository
+ */
+export type EntityType = 'User' | 'Role' | 'Policy' | 'Group';
+
+/**
+ * Identifies an entity holding a reference to another one
+ */
+export interface EntityReference {
+    entityType: EntityType;
+    entityId: string;
+}
+
+/**
+ * Options accepted by every RbacError
+ */
+export interface RbacErrorOptions {
+    /** The underlying error, e.g. the database driver error */
+    cause?: unknown;
+}
+
+/**
+ * Base class of all errors thrown by this library
+ */
+export class RbacError extends Error {
+    readonly cause?: unknown;
+
+    constructor(message: string, options: RbacErrorOptions = {}) {
+        super(message);
+        this.name = 'RbacError';
+        this.cause = options.cause;
+    }
+}
+
+/**
+ * Thrown when a user, role, policy or group does not exist
+ */
+export class EntityNotFoundError extends RbacError {
+    constructor(public readonly entityType: EntityType, public readonly entityId: string, options?: RbacErrorOptions) {
+        super(`${entityType} not found: ${entityId}`, options);
+        this.name = 'EntityNotFoundError';
+    }
+}
+
+export class UserNotFoundError extends EntityNotFoundError {
+    constructor(userId: string, options?: RbacErrorOptions) {
+        super('User', userId, options);
+        this.name = 'UserNotFoundError';
+    }
+}
+
+export class RoleNotFoundError extends EntityNotFoundError {
+    constructor(roleId: string, options?: RbacErrorOptions) {
+        super('Role', roleId, options);
+        this.name = 'RoleNotFoundError';
+    }
+}
+
+export class PolicyNotFoundError extends EntityNotFoundError {
+    constructor(policyId: string, options?: RbacErrorOptions) {
+        super('Policy', policyId, options);
+        this.name = 'PolicyNotFoundError';
+    }
+}
+
+export class GroupNotFoundError extends EntityNotFoundError {
+    constructor(groupId: string, options?: RbacErrorOptions) {
+        super('Group', groupId, options);
+        this.name = 'GroupNotFoundError';
+    }
+}
+
+/**
+ * Thrown when creating an entity whose ID is already taken
+ */
+export class DuplicateEntityError extends RbacError {
+    constructor(public readonly entityType: EntityType, public readonly entityId: string, options?: RbacErrorOptions) {
+        super(`${entityType} already exists: ${entityId}`, options);
+        this.name = 'DuplicateEntityError';
+    }
+}
+
+/**
+ * Thrown when deleting a role or policy that is still assigned to users, groups or roles
+ * Delete it with `{ cascade: true }` to remove these references along with it
+ */
+export class EntityInUseError extends RbacError {
+    constructor(
+        public readonly entityType: EntityType,
+        public readonly entityId: string,
+        public readonly references: EntityReference[],
+        options?: RbacErrorOptions
+    ) {
+        super(`${entityType} is still in use: ${entityId}`, options);
+        this.name = 'EntityInUseError';
+    }
+}
+
+/**
+ * Thrown when a before-hook vetoes a change by returning false
+ */
+export class OperationVetoedError extends RbacError {
+    constructor(public readonly event: string, options?: RbacErrorOptions) {
+        super(`Operation vetoed by a ${event} hook`, options);
+        this.name = 'OperationVetoedError';
+    }
+}
+
+/**
+ * Thrown when the underlying store fails, e.g. because it cannot be reached
+ * The driver error is available as `cause`
+ */
+export class RepositoryUnavailableError extends RbacError {
+    constructor(message: string, public readonly entityId?: string, options?: RbacErrorOptions) {
+        super(message, options);
+        this.name = 'RepositoryUnavailableError';
+    }
+}
+
+/**
+ * Thrown when a request is rejected because it is invalid, e.g. a role hierarchy cycle
+ */
+export class ValidationError extends RbacError {
+    constructor(message: string, public readonly entityId?: string, options?: RbacErrorOptions) {
+        super(message, options);
+        this.name = 'ValidationError';
+    }
+}
+
+/**
+ * Passes errors of this library through and wraps any other error in a RepositoryUnavailableError
+ * @param err - The error thrown by a database driver or repository
+ * @param entityId - ID of the entity the failed request was about, if any
+ * @returns An RbacError to throw
+ */
+export const toRepositoryError = (err: unknown, entityId?: string): RbacError =>
+    err instanceof RbacError
+        ? err
+        : new RepositoryUnavailableError(`Repository request failed: ${err instanceof Error ? err.message : err}`, entityId, { cause: err });
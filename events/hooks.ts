@@ -0,0 +1,125 @@
+import { OperationVetoedError } from "../errors";
+import { Policy, User, ValidityWindow } from "../models";
+
+/**
+ * The user, group or role a role or policy is assigned to
+ */
+export interface AssignmentTarget {
+    type: 'user' | 'group' | 'role';
+    id: string;
+}
+
+/**
+ * Payload of each event emitted by AccessControl
+ */
+export interface AccessControlEvents {
+    /** `createUser` */
+    userCreated: { user: User };
+    /** `assignRoleToUser` and `assignRoleToGroup` */
+    roleAssigned: { roleId: string; target: AssignmentTarget; validity?: ValidityWindow };
+    /** `removeRoleFromUser` and `removeRoleFromGroup` */
+    roleRemoved: { roleId: string; target: AssignmentTarget };
+    /** `attachPolicyToUser`, `attachPolicyToRole` and `attachPolicyToGroup` */
+    policyAttached: { policyId: string; target: AssignmentTarget; validity?: ValidityWindow };
+    /** `detachPolicyFromUser`, `detachPolicyFromRole` and `detachPolicyFromGroup` */
+    policyDetached: { policyId: string; target: AssignmentTarget };
+    /** `updatePolicy`, with the policy as it will be stored */
+    policyUpdated: { policy: Policy };
+    /** `deletePolicy` */
+    policyDeleted: { policyId: string; cascade: boolean };
+    /** `hasAccess`, once the decision is made */
+    accessDecided: { userId: string; action: string; resource: string; context: Record<string, any>; allowed: boolean };
+}
+
+export type AccessControlEvent = keyof AccessControlEvents;
+
+/**
+ * Events emitted before a change is made, which before-hooks can veto
+ */
+export type VetoableEvent = Exclude<AccessControlEvent, 'accessDecided'>;
+
+/**
+ * Information about the call that emitted an event
+ */
+export interface HookContext {
+    /** The actor set with `AccessControl.withActor`, if any */
+    actor?: string;
+}
+
+/**
+ * Runs before a change; returning false vetoes it with an OperationVetoedError,
+ * and a thrown error aborts it with that error
+ */
+export type BeforeHook<E extends VetoableEvent> =
+    (payload: AccessControlEvents[E], context: HookContext) => boolean | void | Promise<boolean | void>;
+
+/**
+ * Runs after a change was made or a decision was taken
+ */
+export type AfterHook<E extends AccessControlEvent> =
+    (payload: AccessControlEvents[E], context: HookContext) => void | Promise<void>;
+
+/**
+ * Registry of the hooks run by AccessControl around its changes and decisions
+ *
+ * Hooks run one after another in the order they were registered, and each is awaited.
+ * An error thrown by an after-hook is passed to the caller, although the change was made.
+ *
+ * @example
+ * // Only admins may hand out the admin role
+ * accessControl.hooks.before('roleAssigned', ({ roleId }, { actor }) => roleId !== 'admin' || admins.has(actor!));
+ *
+ * // Tell the team about every role change
+ * accessControl.hooks.after('roleAssigned', ({ roleId, target }) => slack.post(`${target.id} is now ${roleId}`));
+ */
+export class HookRegistry {
+    private beforeHooks = new Map<AccessControlEvent, BeforeHook<any>[]>();
+    private afterHooks = new Map<AccessControlEvent, AfterHook<any>[]>();
+
+    /**
+     * Registers a hook run before a change, which can veto it
+     * @returns A function unregistering the hook
+     */
+    before<E extends VetoableEvent>(event: E, hook: BeforeHook<E>): () => void {
+        return register(this.beforeHooks, event, hook);
+    }
+
+    /**
+     * Registers a hook run after a change was made or a decision was taken
+     * @returns A function unregistering the hook
+     */
+    after<E extends AccessControlEvent>(event: E, hook: AfterHook<E>): () => void {
+        return register(this.afterHooks, event, hook);
+    }
+
+    /**
+     * Runs the before-hooks of an event
+     * @throws OperationVetoedError if a hook returns false
+     */
+    async runBefore<E extends VetoableEvent>(event: E, payload: AccessControlEvents[E], context: HookContext): Promise<void> {
+        for (const hook of this.beforeHooks.get(event) || []) {
+            if (await hook(payload, context) === false) {
+                throw new OperationVetoedError(event);
+            }
+        }
+    }
+
+    /**
+     * Runs the after-hooks of an event
+     */
+    async runAfter<E extends AccessControlEvent>(event: E, payload: AccessControlEvents[E], context: HookContext): Promise<void> {
+        for (const hook of this.afterHooks.get(event) || []) {
+            await hook(payload, context);
+        }
+    }
+}
+
+/**
+ * Adds a hook to an event's list, replacing the list so hooks being run are not affected
+ */
+const register = <H>(hooks: Map<AccessControlEvent, H[]>, event: AccessControlEvent, hook: H): () => void => {
+    hooks.set(event, [...(hooks.get(event) || []), hook]);
+    return () => {
+        hooks.set(event, (hooks.get(event) || []).filter(registered => registered !== hook));
+    };
+};
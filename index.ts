@@ -1,6 +1,19 @@
 export * from './models';
+export * from './errors';
 export * from './db/base-repo';
 export * from './core';
+export * from './policy/types';
+export * from './policy/resource-filter';
 export { createRepository } from './db/factory';
+export * from './cache/store';
+export * from './audit/sink';
+export * from './audit/audit-log';
+export * from './audit/dynamodb-sink';
+export * from './events/hooks';
+export * from './db/cached-repo';
+export * from './db/effective-policies';
 export * from './db/dynamodb-repo';
+export * from './db/in-memory-repo';
+export * from './db/postgres-repo';
+export * from './db/sqlite-repo';
 export * from './builders';
\ No newline at end of file
@@ -10,6 +10,7 @@ module.exports = {
     '!**/dist/**',
     '!**/db/**',
     '!**/test/**',
+    '!**/testing/**',
     '!**/examples/**',
   ],
 };
\ No newline at end of file
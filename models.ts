@@ -9,12 +9,43 @@
  * Represents a user in the system
  * 
  * Users can have roles assigned to them and policies attached directly.
+ * Their attributes (e.g. department, clearance, region) are added to the context
+ * when their access is evaluated, so policy conditions can refer to them.
  */
 export interface User {
     id: string;
     name: string;
     roles?: string[];
     policies?: string[];
+    groups?: string[];
+    attributes?: Record<string, any>;
+    roleValidity?: Record<string, ValidityWindow>;   // Validity windows of time-limited roles, by role ID
+    policyValidity?: Record<string, ValidityWindow>; // Validity windows of time-limited policies, by policy ID
+}
+
+/**
+ * Period during which a role assignment or policy attachment applies
+ * 
+ * Either end may be left open. Outside the window the assignment stays stored
+ * but is ignored when access is evaluated.
+ */
+export interface ValidityWindow {
+    startDate?: string; // ISO format date string for when the assignment becomes active (UTC)
+    endDate?: string;   // ISO format date string for when the assignment expires (UTC)
+}
+
+/**
+ * Represents a group of users in the system
+ * 
+ * Groups sit between users and roles: every member of a group receives the roles
+ * assigned to the group and the policies attached to it.
+ */
+export interface Group {
+    id: string;
+    name: string;
+    members?: string[];
+    roles?: string[];
+    policies?: string[];
 }
 
 /**
@@ -22,11 +53,14 @@ export interface User {
  * 
  * Roles are collections of permissions that can be assigned to users.
  * This makes permission management easier as multiple users can share the same role.
+ * A role inherits the policies of its parent roles (e.g. admin → editor → viewer).
  */
 export interface Role {
     id: string;
     name: string;
     policies?: string[];
+    parentRoles?: string[];
+    policyValidity?: Record<string, ValidityWindow>; // Validity windows of time-limited policies, by policy ID
 }
 
 /**
@@ -37,19 +71,105 @@ export enum Effect {
     Deny = 'Deny'
 }
 
+/**
+ * Operators that can be used as keys of a condition block
+ * 
+ * Each operator may also be suffixed with `IfExists` (e.g. `NumericLessThanIfExists`)
+ * so that the condition passes when the context key is missing.
+ */
+export type ConditionOperator =
+    | 'StringEquals'
+    | 'StringNotEquals'
+    | 'StringEqualsIgnoreCase'
+    | 'StringNotEqualsIgnoreCase'
+    | 'StringLike'
+    | 'StringNotLike'
+    | 'NumericEquals'
+    | 'NumericNotEquals'
+    | 'NumericLessThan'
+    | 'NumericLessThanEquals'
+    | 'NumericGreaterThan'
+    | 'NumericGreaterThanEquals'
+    | 'DateEquals'
+    | 'DateNotEquals'
+    | 'DateLessThan'
+    | 'DateLessThanEquals'
+    | 'DateGreaterThan'
+    | 'DateGreaterThanEquals'
+    | 'Bool'
+    | 'IpAddress'
+    | 'NotIpAddress'
+    | 'Null';
+
+/**
+ * Set qualifiers that can prefix a condition operator (e.g. `ForAnyValue:StringEquals`)
+ * to compare multi-valued context keys
+ * 
+ * - `ForAnyValue`: at least one context value must satisfy the operator
+ * - `ForAllValues`: every context value must satisfy the operator (passes if the key is missing or empty)
+ */
+export type SetQualifier = 'ForAnyValue' | 'ForAllValues';
+
+/**
+ * Conditions of a policy statement
+ * 
+ * Keys are either condition operators mapping context keys to expected values
+ * (e.g. `{ NumericLessThan: { amount: 1000 } }`, optionally prefixed with a set
+ * qualifier such as `ForAllValues:StringLike`) or plain context keys that must
+ * equal the given value (e.g. `{ department: 'engineering' }`). When a context value
+ * is an array, unqualified conditions match if any of its elements matches.
+ */
+export type Condition = Record<string, any>;
+
+/**
+ * Day of the week, as used by the windows of a Schedule
+ */
+export type Weekday = 'Mon' | 'Tue' | 'Wed' | 'Thu' | 'Fri' | 'Sat' | 'Sun';
+
+/**
+ * A weekly recurring period during which a statement applies
+ * 
+ * Times are local to the schedule's time zone, in `HH:MM` format. The window starts on
+ * each of the listed days; if `EndTime` is before `StartTime`, it ends on the next day
+ * (e.g. `22:00`-`06:00` for a night shift). `EndTime` may be `24:00` for the end of the day.
+ */
+export interface ScheduleWindow {
+    Days: Weekday[];
+    StartTime: string;
+    EndTime: string;
+}
+
+/**
+ * Recurring times during which a statement applies, e.g. business hours
+ * 
+ * The statement applies while the current time is within one of the windows,
+ * except for windows starting on one of `ExceptDates`.
+ */
+export interface Schedule {
+    Windows: ScheduleWindow[];
+    TimeZone?: string;      // IANA time zone the windows and dates are in, e.g. 'Europe/Berlin' (default UTC)
+    ExceptDates?: string[]; // Local dates in YYYY-MM-DD format on which no window starts, e.g. public holidays
+}
+
 /**
  * A single statement within a policy document
  * 
  * Each statement defines a permission rule with an effect (Allow/Deny),
  * actions, resources, and optional conditions.
+ * 
+ * A statement specifies either `Action` or `NotAction` (every action except those listed),
+ * and either `Resource` or `NotResource` (every resource except those listed).
  */
 export interface PolicyStatement {
     Effect: Effect;
-    Action: string[];
-    Resource: string[];
-    Condition?: Record<string, any>;
+    Action?: string[];
+    NotAction?: string[];
+    Resource?: string[];
+    NotResource?: string[];
+    Condition?: Condition;
     StartDate?: string; // ISO format date string for when the policy becomes active (UTC)
     EndDate?: string;   // ISO format date string for when the policy expires (UTC)
+    Schedule?: Schedule; // Recurring times during which the statement applies, in addition to StartDate/EndDate
 }
 
 /**
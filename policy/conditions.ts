@@ -0,0 +1,447 @@
+import { Condition, ConditionOperator, SetQualifier } from "../models";
+
+/**
+ * Kind of operand an operator compares, used for validation and error messages
+ */
+type OperandKind = 'string' | 'number' | 'date' | 'boolean' | 'ip';
+
+/**
+ * Definition of a condition operator
+ */
+interface OperatorDefinition {
+    /** Compares a single context value against a single expected value */
+    compare: (actual: any, expected: any) => boolean;
+    /** Negated operators pass when none of the expected values match */
+    negated: boolean;
+    /** Kind of the expected operand */
+    operand: OperandKind;
+}
+
+/**
+ * A condition operator key resolved to its definition
+ */
+interface ParsedOperator {
+    name: ConditionOperator;
+    definition: OperatorDefinition;
+    ifExists: boolean;
+    qualifier?: SetQualifier;
+}
+
+const IF_EXISTS_SUFFIX = 'IfExists';
+const SET_QUALIFIERS: SetQualifier[] = ['ForAnyValue', 'ForAllValues'];
+
+/**
+ * Escapes special regex characters in a string
+ * @param string - The string to escape
+ * @returns A string with all regex special characters escaped
+ */
+export const escapeRegExp = (string: string): string =>
+    string.replace(/[-\/\\^$*+?.()|[\]{}]/g, '\\$&');
+
+/**
+ * Checks if a value is a plain object (not null and not an array)
+ */
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks if a value is a string, number or boolean
+ */
+const isPrimitive = (value: unknown): value is string | number | boolean =>
+    typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+/**
+ * Converts a value to a number, returning NaN for anything that is not numeric
+ */
+const toNumber = (value: unknown): number => {
+    if (typeof value === 'number') {
+        return value;
+    }
+    if (typeof value === 'string' && value.trim() !== '') {
+        return Number(value);
+    }
+    return NaN;
+}
+
+/**
+ * Converts a Date, epoch milliseconds or date string to a timestamp, returning NaN if invalid
+ */
+const toTime = (value: unknown): number => {
+    if (value instanceof Date) {
+        return value.getTime();
+    }
+    if (typeof value === 'number') {
+        return value;
+    }
+    if (typeof value === 'string') {
+        return new Date(value).getTime();
+    }
+    return NaN;
+}
+
+/**
+ * Converts a boolean or a "true"/"false" string to a boolean, returning undefined otherwise
+ */
+const toBool = (value: unknown): boolean | undefined => {
+    if (typeof value === 'boolean') {
+        return value;
+    }
+    if (typeof value === 'string') {
+        const normalized = value.toLowerCase();
+        if (normalized === 'true' || normalized === 'false') {
+            return normalized === 'true';
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Matches a value against a pattern supporting * (any sequence) and ? (any single character)
+ */
+const globMatches = (pattern: string, value: string): boolean => {
+    const regexString = pattern
+        .split('')
+        .map(char => char === '*' ? '.*' : char === '?' ? '.' : escapeRegExp(char))
+        .join('');
+    return new RegExp(`^${regexString}$`).test(value);
+}
+
+/**
+ * Parses a dotted IPv4 address into its 4 bytes
+ */
+const parseIpv4 = (value: string): number[] | undefined => {
+    if (!/^\d{1,3}(\.\d{1,3}){3}$/.test(value)) {
+        return undefined;
+    }
+    const bytes = value.split('.').map(Number);
+    return bytes.every(byte => byte <= 255) ? bytes : undefined;
+}
+
+/**
+ * Parses an IPv6 address (including :: compression and embedded IPv4) into its 16 bytes
+ */
+const parseIpv6 = (value: string): number[] | undefined => {
+    const halves = value.split('::');
+    if (halves.length > 2) {
+        return undefined;
+    }
+
+    const parseGroups = (part: string, allowIpv4Tail: boolean): number[] | undefined => {
+        if (part === '') {
+            return [];
+        }
+        const bytes: number[] = [];
+        const groups = part.split(':');
+        for (let i = 0; i < groups.length; i++) {
+            const group = groups[i];
+            if (allowIpv4Tail && i === groups.length - 1 && group.includes('.')) {
+                const ipv4 = parseIpv4(group);
+                if (!ipv4) {
+                    return undefined;
+                }
+                bytes.push(...ipv4);
+            } else if (/^[0-9a-f]{1,4}$/i.test(group)) {
+                const word = parseInt(group, 16);
+                bytes.push(word >> 8, word & 0xff);
+            } else {
+                return undefined;
+            }
+        }
+        return bytes;
+    };
+
+    const head = parseGroups(halves[0], halves.length === 1);
+    const tail = halves.length === 2 ? parseGroups(halves[1], true) : [];
+    if (!head || !tail) {
+        return undefined;
+    }
+
+    if (halves.length === 1) {
+        return head.length === 16 ? head : undefined;
+    }
+
+    const missing = 16 - head.length - tail.length;
+    if (missing < 2) {
+        return undefined;
+    }
+    return [...head, ...new Array(missing).fill(0), ...tail];
+}
+
+/**
+ * Parses an IP address or CIDR block into its bytes and prefix length
+ */
+const parseCidr = (value: unknown): { bytes: number[]; prefix: number } | undefined => {
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+
+    const [address, prefixPart, ...rest] = value.trim().split('/');
+    if (rest.length > 0) {
+        return undefined;
+    }
+
+    const bytes = address.includes(':') ? parseIpv6(address) : parseIpv4(address);
+    if (!bytes) {
+        return undefined;
+    }
+
+    const maxPrefix = bytes.length * 8;
+    if (prefixPart === undefined) {
+        return { bytes, prefix: maxPrefix };
+    }
+    if (!/^\d{1,3}$/.test(prefixPart) || Number(prefixPart) > maxPrefix) {
+        return undefined;
+    }
+    return { bytes, prefix: Number(prefixPart) };
+}
+
+/**
+ * Checks if an IP address lies within an IP address or CIDR block
+ */
+const ipInRange = (address: unknown, range: unknown): boolean => {
+    const ip = parseCidr(address);
+    const block = parseCidr(range);
+    if (!ip || !block || ip.bytes.length !== block.bytes.length) {
+        return false;
+    }
+
+    for (let bit = 0; bit < block.prefix; bit++) {
+        const byte = bit >> 3;
+        const mask = 0x80 >> (bit & 7);
+        if ((ip.bytes[byte] & mask) !== (block.bytes[byte] & mask)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+const stringEquals = (actual: any, expected: any): boolean =>
+    isPrimitive(actual) && String(actual) === String(expected);
+
+const stringEqualsIgnoreCase = (actual: any, expected: any): boolean =>
+    isPrimitive(actual) && String(actual).toLowerCase() === String(expected).toLowerCase();
+
+const stringLike = (actual: any, expected: any): boolean =>
+    isPrimitive(actual) && globMatches(String(expected), String(actual));
+
+const compareNumbers = (test: (a: number, e: number) => boolean) => (actual: any, expected: any): boolean => {
+    const a = toNumber(actual);
+    const e = toNumber(expected);
+    return !isNaN(a) && !isNaN(e) && test(a, e);
+}
+
+const compareDates = (test: (a: number, e: number) => boolean) => (actual: any, expected: any): boolean => {
+    const a = toTime(actual);
+    const e = toTime(expected);
+    return !isNaN(a) && !isNaN(e) && test(a, e);
+}
+
+const boolEquals = (actual: any, expected: any): boolean => {
+    const a = toBool(actual);
+    return a !== undefined && a === toBool(expected);
+}
+
+const OPERATORS: Record<ConditionOperator, OperatorDefinition> = {
+    StringEquals: { compare: stringEquals, negated: false, operand: 'string' },
+    StringNotEquals: { compare: stringEquals, negated: true, operand: 'string' },
+    StringEqualsIgnoreCase: { compare: stringEqualsIgnoreCase, negated: false, operand: 'string' },
+    StringNotEqualsIgnoreCase: { compare: stringEqualsIgnoreCase, negated: true, operand: 'string' },
+    StringLike: { compare: stringLike, negated: false, operand: 'string' },
+    StringNotLike: { compare: stringLike, negated: true, operand: 'string' },
+    NumericEquals: { compare: compareNumbers((a, e) => a === e), negated: false, operand: 'number' },
+    NumericNotEquals: { compare: compareNumbers((a, e) => a === e), negated: true, operand: 'number' },
+    NumericLessThan: { compare: compareNumbers((a, e) => a < e), negated: false, operand: 'number' },
+    NumericLessThanEquals: { compare: compareNumbers((a, e) => a <= e), negated: false, operand: 'number' },
+    NumericGreaterThan: { compare: compareNumbers((a, e) => a > e), negated: false, operand: 'number' },
+    NumericGreaterThanEquals: { compare: compareNumbers((a, e) => a >= e), negated: false, operand: 'number' },
+    DateEquals: { compare: compareDates((a, e) => a === e), negated: false, operand: 'date' },
+    DateNotEquals: { compare: compareDates((a, e) => a === e), negated: true, operand: 'date' },
+    DateLessThan: { compare: compareDates((a, e) => a < e), negated: false, operand: 'date' },
+    DateLessThanEquals: { compare: compareDates((a, e) => a <= e), negated: false, operand: 'date' },
+    DateGreaterThan: { compare: compareDates((a, e) => a > e), negated: false, operand: 'date' },
+    DateGreaterThanEquals: { compare: compareDates((a, e) => a >= e), negated: false, operand: 'date' },
+    Bool: { compare: boolEquals, negated: false, operand: 'boolean' },
+    IpAddress: { compare: ipInRange, negated: false, operand: 'ip' },
+    NotIpAddress: { compare: ipInRange, negated: true, operand: 'ip' },
+    // Null is special-cased in evaluateOperator since it checks for presence rather than value
+    Null: { compare: () => false, negated: false, operand: 'boolean' }
+};
+
+const OPERAND_VALIDATORS: Record<OperandKind, { isValid: (value: unknown) => boolean; description: string }> = {
+    string: { isValid: isPrimitive, description: 'string values' },
+    number: { isValid: value => isFinite(toNumber(value)), description: 'numeric values' },
+    date: { isValid: value => !isNaN(toTime(value)), description: 'valid dates' },
+    boolean: { isValid: value => toBool(value) !== undefined, description: 'boolean values' },
+    ip: { isValid: value => parseCidr(value) !== undefined, description: 'IP addresses or CIDR blocks' }
+};
+
+/**
+ * Resolves a condition block key such as `NumericLessThanIfExists` or
+ * `ForAllValues:StringLike` to its operator
+ * @param key - The key used in the statement's Condition object
+ * @returns The parsed operator, or undefined if the key is not a known operator
+ */
+export const parseConditionOperator = (key: string): ParsedOperator | undefined => {
+    let name = key;
+    let ifExists = false;
+    let qualifier: SetQualifier | undefined;
+
+    const separatorIndex = name.indexOf(':');
+    if (separatorIndex !== -1) {
+        const prefix = name.slice(0, separatorIndex) as SetQualifier;
+        if (!SET_QUALIFIERS.includes(prefix)) {
+            return undefined;
+        }
+        qualifier = prefix;
+        name = name.slice(separatorIndex + 1);
+    }
+
+    if (name.endsWith(IF_EXISTS_SUFFIX) && name !== `Null${IF_EXISTS_SUFFIX}`) {
+        name = name.slice(0, -IF_EXISTS_SUFFIX.length);
+        ifExists = true;
+    }
+
+    if (!Object.prototype.hasOwnProperty.call(OPERATORS, name)) {
+        return undefined;
+    }
+
+    // Null checks for presence of the key, so it cannot be applied per value
+    if (qualifier && name === 'Null') {
+        return undefined;
+    }
+
+    return {
+        name: name as ConditionOperator,
+        definition: OPERATORS[name as ConditionOperator],
+        ifExists,
+        qualifier
+    };
+}
+
+/**
+ * Evaluates a single operator against one context key
+ * 
+ * Without a set qualifier, an array context value matches if any of its elements
+ * matches (negated operators pass if none does).
+ * 
+ * @param operator - The parsed operator
+ * @param expected - The expected value or list of alternatives from the policy
+ * @param actual - The value of the key in the request context
+ * @returns True if the context value satisfies the operator
+ */
+const evaluateOperator = (operator: ParsedOperator, expected: any, actual: any): boolean => {
+    const { name, definition, ifExists, qualifier } = operator;
+    const expectedValues: any[] = Array.isArray(expected) ? expected : [expected];
+    const isMissing = actual === undefined || actual === null;
+
+    if (name === 'Null') {
+        return expectedValues.some(value => toBool(value) === isMissing);
+    }
+
+    const actualValues: any[] = isMissing ? [] : Array.isArray(actual) ? actual : [actual];
+    const matchesExpected = (value: any): boolean =>
+        expectedValues.some(expectedValue => definition.compare(value, expectedValue));
+    const satisfies = (value: any): boolean => matchesExpected(value) !== definition.negated;
+
+    if (qualifier === 'ForAllValues') {
+        return actualValues.every(satisfies);
+    }
+
+    if (qualifier === 'ForAnyValue') {
+        return actualValues.length > 0 ? actualValues.some(satisfies) : ifExists;
+    }
+
+    if (isMissing) {
+        // A missing key never matches, so negated operators pass
+        return ifExists || definition.negated;
+    }
+
+    const anyMatch = actualValues.some(matchesExpected);
+    return definition.negated ? !anyMatch : anyMatch;
+}
+
+/**
+ * Evaluates a statement's Condition object against the request context
+ *
+ * Operator blocks (e.g. `{ NumericLessThan: { amount: 1000 } }`) are evaluated with the
+ * operator's semantics; any other key is compared for strict equality with the context,
+ * or must be contained in it when the context value is an array.
+ * Unknown operator blocks never match.
+ *
+ * @param condition - The statement's Condition object
+ * @param context - The context object containing values to compare against
+ * @returns True if every condition is satisfied, false otherwise
+ */
+export const evaluateConditions = (condition: Condition, context: Record<string, any>): boolean =>
+    Object.entries(condition).every(([key, value]) => {
+        if (!isPlainObject(value)) {
+            const actual = context[key];
+            return Array.isArray(actual) ? actual.includes(value) : actual === value;
+        }
+
+        const operator = parseConditionOperator(key);
+        if (!operator) {
+            return false;
+        }
+
+        return Object.entries(value).every(([contextKey, expected]) =>
+            evaluateOperator(operator, expected, context[contextKey])
+        );
+    });
+
+/**
+ * Lists the context keys a Condition object refers to
+ * @param condition - The statement's Condition object
+ * @returns The keys compared by plain conditions and operator blocks, once each
+ */
+export const conditionKeys = (condition: Condition): string[] => {
+    const keys = new Set<string>();
+    Object.entries(condition).forEach(([key, value]) => {
+        if (isPlainObject(value)) {
+            Object.keys(value).forEach(contextKey => keys.add(contextKey));
+        } else {
+            keys.add(key);
+        }
+    });
+    return Array.from(keys);
+}
+
+/**
+ * Validates the structure and operand types of a Condition object
+ * @param condition - The Condition object to validate
+ * @returns A list of validation error messages, empty if the condition is valid
+ */
+export const validateCondition = (condition: Condition): string[] => {
+    if (!isPlainObject(condition)) {
+        return ['Conditions must be an object'];
+    }
+
+    const errors: string[] = [];
+
+    for (const [key, value] of Object.entries(condition)) {
+        if (!isPlainObject(value)) {
+            if (!isPrimitive(value)) {
+                errors.push(`Condition "${key}" must be a string, number or boolean`);
+            }
+            continue;
+        }
+
+        const operator = parseConditionOperator(key);
+        if (!operator) {
+            errors.push(`Unknown condition operator "${key}"`);
+            continue;
+        }
+
+        const validator = OPERAND_VALIDATORS[operator.definition.operand];
+        for (const [contextKey, expected] of Object.entries(value)) {
+            const expectedValues: unknown[] = Array.isArray(expected) ? expected : [expected];
+            if (expectedValues.length === 0) {
+                errors.push(`Condition ${key}.${contextKey} must specify at least one value`);
+            } else if (!expectedValues.every(validator.isValid)) {
+                errors.push(`Condition ${key}.${contextKey} expects ${validator.description}`);
+            }
+        }
+    }
+
+    return errors;
+}
@@ -1,21 +1,19 @@
-import { Policy } from "../models";
+import { Condition, Effect, Policy, PolicyStatement, User } from "../models";
+import { escapeRegExp, evaluateConditions } from "./conditions";
+import { DecisionReason, EvaluationTrace, SkippedStatement, SkipReason, StatementActions, StatementMatch } from "./types";
+import { isWithinSchedule } from "./schedule";
+import { resolveStatement } from "./variables";
 
 /**
  * Evaluates if a condition matches the provided context
- * @param condition - Key-value pairs representing conditions to check
+ * Supports plain key-value equality as well as operator blocks such as
+ * `{ NumericLessThan: { amount: 1000 } }` or `{ IpAddress: { sourceIp: '10.0.0.0/8' } }`
+ * @param condition - Conditions to check
  * @param context - The context object containing values to compare against
  * @returns True if all conditions match the context values, false otherwise
  */
-export const evaluateCondition = (condition: Record<string, string>, context: Record<string, any>): boolean =>
-    Object.entries(condition).every(([key, value]) => context[key] === value);
-
-/**
- * Escapes special regex characters in a string
- * @param string - The string to escape
- * @returns A string with all regex special characters escaped
- */
-const escapeRegExp = (string: string): string =>
-    string.replace(/[-\/\\^$*+?.()|[\]{}]/g, '\\$&');
+export const evaluateCondition = (condition: Condition, context: Record<string, any>): boolean =>
+    evaluateConditions(condition, context);
 
 /**
  * Checks if a value matches a pattern or array of patterns
@@ -38,9 +36,38 @@ export const matches = (pattern: string | string[], value: string): boolean => {
 }
 
 /**
- * Checks if a policy statement is active based on its StartDate and EndDate
+ * Checks if a value is covered by a statement element and its negated counterpart
+ * @param patterns - Patterns from the positive element (Action/Resource)
+ * @param notPatterns - Patterns from the negated element (NotAction/NotResource)
+ * @param value - The action or resource to test
+ * @returns True if the value matches the positive element, or does not match the negated element
+ */
+export const matchesElement = (patterns: string | string[] | undefined, notPatterns: string | string[] | undefined, value: string): boolean => {
+    if (patterns !== undefined) {
+        return matches(patterns, value);
+    }
+    if (notPatterns !== undefined) {
+        return !matches(notPatterns, value);
+    }
+    return false;
+}
+
+/**
+ * Checks if a policy statement applies to an action and resource
+ * Supports Action/NotAction and Resource/NotResource elements
+ * @param statement - The policy statement to check
+ * @param action - The action being performed
+ * @param resource - The resource the action is performed on
+ * @returns True if both the action and the resource are covered by the statement
+ */
+export const statementMatches = (statement: PolicyStatement, action: string, resource: string): boolean =>
+    matchesElement(statement.Action, statement.NotAction, action) &&
+    matchesElement(statement.Resource, statement.NotResource, resource);
+
+/**
+ * Checks if a policy statement is active based on its StartDate, EndDate and Schedule
  * @param statement - The policy statement to check
- * @returns True if the statement is active (within date range or no date constraints), false otherwise
+ * @returns True if the statement is active (within date range and schedule, or no time constraints), false otherwise
  */
 export const isStatementActive = (statement: any): boolean => {
     const now = new Date();
@@ -78,50 +105,166 @@ export const isStatementActive = (statement: any): boolean => {
             return false;
         }
     }
+
+    // Check Schedule if it exists
+    if (statement.Schedule) {
+        try {
+            if (!isWithinSchedule(statement.Schedule, now)) {
+                return false; // Outside the recurring windows
+            }
+        } catch (e) {
+            console.warn(`Invalid Schedule in policy statement: ${e}`);
+            return false;
+        }
+    }
     
-    return true; // No date constraints or within date range
+    return true; // No time constraints or within date range and schedule
 }
 
 /**
- * Evaluates access policies to determine if an action on a resource is allowed
+ * Evaluates access policies and records which statements matched or were skipped
  * Follows deny-override logic: explicit deny takes precedence over allows
  * 
+ * Policy variables such as `${user.id}` or `${context.tenantId}` in Action, Resource
+ * and Condition values are resolved from the user and context before matching.
+ * Statements are only reported as skipped if they cover the requested action and
+ * resource (or if their variables could not be resolved).
+ * 
  * @param policies - Array of Policy objects to evaluate
  * @param action - The action being performed
  * @param resource - The resource the action is performed on
  * @param context - Optional context for condition evaluation
- * @returns True if the action is allowed, false otherwise
+ * @param user - Optional user requesting access, used to resolve `${user.*}` variables
+ * @returns A trace with the final decision and the statements that led to it
  */
-export const evaluate = (
+export const explain = (
     policies: Policy[],
     action: string,
     resource: string,
-    context: Record<string, string> = {}
-): boolean => {
-    let isAllowed = false;
+    context: Record<string, any> = {},
+    user?: User
+): EvaluationTrace => {
+    const matchedStatements: StatementMatch[] = [];
+    const skippedStatements: SkippedStatement[] = [];
+
     for (const policy of policies) {
         const { document } = policy;
         const statements = Array.isArray(document.Statement) ? document.Statement : [document.Statement];
 
-        for (const statement of statements) {
+        statements.forEach((rawStatement, statementIndex) => {
+            const entry: StatementMatch = { policyId: policy.id, statementIndex, effect: rawStatement.Effect };
+
+            // Skip if the statement references variables that cannot be resolved
+            const statement = resolveStatement(rawStatement, { user, context });
+            if (!statement) {
+                skippedStatements.push({ ...entry, reason: SkipReason.UnresolvedVariable });
+                return;
+            }
+
+            if (!statementMatches(statement, action, resource)) {
+                return;
+            }
+
             // Skip if statement is not active based on date/time constraints
             if (!isStatementActive(statement)) {
-                continue;
+                skippedStatements.push({ ...entry, reason: SkipReason.NotActive });
+                return;
             }
-            
+
             // Skip if conditions don't match
             if (statement.Condition && !evaluateCondition(statement.Condition, context)) {
+                skippedStatements.push({ ...entry, reason: SkipReason.ConditionNotMet });
+                return;
+            }
+
+            matchedStatements.push(entry);
+        });
+    }
+
+    const isDenied = matchedStatements.some(match => match.effect === Effect.Deny);
+    const isAllowed = !isDenied && matchedStatements.some(match => match.effect === Effect.Allow);
+
+    return {
+        allowed: isAllowed,
+        effect: isAllowed ? Effect.Allow : Effect.Deny,
+        reason: isDenied ? DecisionReason.ExplicitDeny : isAllowed ? DecisionReason.Allowed : DecisionReason.ImplicitDeny,
+        matchedStatements,
+        skippedStatements
+    };
+}
+
+/**
+ * Evaluates access policies to determine if an action on a resource is allowed
+ * Follows deny-override logic: explicit deny takes precedence over allows
+ * 
+ * @param policies - Array of Policy objects to evaluate
+ * @param action - The action being performed
+ * @param resource - The resource the action is performed on
+ * @param context - Optional context for condition evaluation
+ * @param user - Optional user requesting access, used to resolve `${user.*}` variables
+ * @returns True if the action is allowed, false otherwise
+ */
+export const evaluate = (
+    policies: Policy[],
+    action: string,
+    resource: string,
+    context: Record<string, any> = {},
+    user?: User
+): boolean => explain(policies, action, resource, context, user).allowed;
+
+/**
+ * Collects the actions that Allow statements applying to a resource could grant
+ * 
+ * Only statements that cover the resource, are active and whose conditions match the
+ * context are considered. The actions found are candidates: Deny statements are not
+ * applied here, so each of them still has to be checked with `evaluate`.
+ * 
+ * @param policies - Array of Policy objects to walk
+ * @param resource - The resource the actions would be performed on
+ * @param context - Optional context for condition evaluation
+ * @param user - Optional user requesting access, used to resolve `${user.*}` variables
+ * @returns The literal actions found, and whether any statement allows actions by wildcard or NotAction
+ */
+export const collectStatementActions = (
+    policies: Policy[],
+    resource: string,
+    context: Record<string, any> = {},
+    user?: User
+): StatementActions => {
+    const actions = new Set<string>();
+    let wildcard = false;
+
+    for (const policy of policies) {
+        const { document } = policy;
+        const statements = Array.isArray(document.Statement) ? document.Statement : [document.Statement];
+
+        for (const rawStatement of statements) {
+            if (rawStatement.Effect !== Effect.Allow) {
                 continue;
             }
-            
-            if (matches(statement.Action, action) && matches(statement.Resource, resource)) {
-                if (statement.Effect === 'Allow') {
-                    isAllowed = true;
-                } else if (statement.Effect === 'Deny') {
-                    return false;
+
+            const statement = resolveStatement(rawStatement, { user, context });
+            if (!statement ||
+                !matchesElement(statement.Resource, statement.NotResource, resource) ||
+                !isStatementActive(statement) ||
+                (statement.Condition && !evaluateCondition(statement.Condition, context))) {
+                continue;
+            }
+
+            if (statement.Action === undefined) {
+                wildcard = wildcard || statement.NotAction !== undefined;
+                continue;
+            }
+
+            for (const action of statement.Action) {
+                if (action.includes('*')) {
+                    wildcard = true;
+                } else {
+                    actions.add(action);
                 }
             }
         }
     }
-    return isAllowed;
-}
\ No newline at end of file
+
+    return { actions: Array.from(actions), wildcard };
+}
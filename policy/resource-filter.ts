@@ -0,0 +1,271 @@
+import { Effect, Policy, User } from "../models";
+import { ValidationError } from "../errors";
+import { conditionKeys, evaluateConditions } from "./conditions";
+import { isStatementActive, matches, matchesElement } from "./evaluator";
+import { ResourceFilter, ResourceRule } from "./types";
+import { resolveStatement } from "./variables";
+
+/**
+ * Options for turning a ResourceFilter into SQL
+ */
+export interface SqlWhereOptions {
+    /**
+     * Column holding the resource (defaults to "resource"); inserted as is, so it must not come from user input
+     */
+    column?: string;
+    /**
+     * Returns the placeholder for the parameter at a 1-based index (defaults to `?`; use `i => '$' + i` for PostgreSQL)
+     */
+    placeholder?: (index: number) => string;
+}
+
+/**
+ * A SQL condition and the parameters for its placeholders
+ */
+export interface SqlWhereClause {
+    sql: string;
+    params: string[];
+}
+
+/**
+ * Checks if a resource, with optional per-resource context, is allowed by a ResourceFilter
+ */
+export type ResourcePredicate = (resource: string, context?: Record<string, any>) => boolean;
+
+/**
+ * Partially evaluates policies for an action on every resource starting with a prefix
+ *
+ * Applies the same rules as `evaluate` to everything that does not depend on the resource:
+ * statements for other actions, inactive statements, statements with unresolvable variables
+ * and statements whose Condition fails for the context are dropped. Conditions referring to
+ * keys missing from the context are kept on their rule, to be decided per resource.
+ *
+ * The result is normalized: patterns that cannot match a resource with the prefix are
+ * removed, unconditional `Resource` patterns are merged into one rule per effect, allowed
+ * literal resources matched by an unconditional Deny are removed, and if an unconditional
+ * Deny covers the whole prefix, or nothing is allowed, both rule lists are empty.
+ *
+ * @param policies - Array of Policy objects to evaluate
+ * @param action - The action being performed
+ * @param prefix - Only resources starting with this prefix are considered
+ * @param context - Optional context for condition evaluation
+ * @param user - Optional user requesting access, used to resolve `${user.*}` variables
+ * @returns The filter describing the allowed resources
+ */
+export const partialEvaluate = (
+    policies: Policy[],
+    action: string,
+    prefix: string,
+    context: Record<string, any> = {},
+    user?: User
+): ResourceFilter => {
+    const rules: Record<Effect, ResourceRule[]> = { [Effect.Allow]: [], [Effect.Deny]: [] };
+
+    for (const policy of policies) {
+        const { document } = policy;
+        const statements = Array.isArray(document.Statement) ? document.Statement : [document.Statement];
+
+        for (const rawStatement of statements) {
+            const statement = resolveStatement(rawStatement, { user, context });
+            if (!statement ||
+                !matchesElement(statement.Action, statement.NotAction, action) ||
+                !isStatementActive(statement)) {
+                continue;
+            }
+
+            let condition = statement.Condition;
+            if (condition && conditionKeys(condition).every(key => context[key] !== undefined)) {
+                if (!evaluateConditions(condition, context)) {
+                    continue;
+                }
+                condition = undefined;
+            }
+
+            const rule = restrictToPrefix(statement.Resource, statement.NotResource, prefix);
+            if (rule) {
+                rules[statement.Effect].push(condition ? { ...rule, condition } : rule);
+            }
+        }
+    }
+
+    return normalize(prefix, rules[Effect.Allow], rules[Effect.Deny], context);
+}
+
+/**
+ * Turns a ResourceFilter into a SQL condition on the resource column
+ *
+ * Wildcard patterns become `LIKE` comparisons and the prefix is required with `LIKE 'prefix%'`.
+ * Note that SQLite compares ASCII letters case-insensitively with `LIKE` unless
+ * `PRAGMA case_sensitive_like` is on, whereas policies are matched case-sensitively.
+ *
+ * @param filter - The filter to translate
+ * @param options - The column name and placeholder style
+ * @returns The condition, to be used in a WHERE clause, and its parameters
+ * @throws ValidationError if a rule has a condition, which cannot be checked in SQL;
+ * pass the keys it refers to in the context, or check rows with toResourcePredicate
+ *
+ * @example
+ * const filter = await accessControl.getResourceFilter('alice', 'read', 'document/');
+ * const { sql, params } = toSqlWhere(filter, { column: 'arn', placeholder: i => `$${i}` });
+ * await pool.query(`SELECT * FROM documents WHERE ${sql}`, params);
+ */
+export const toSqlWhere = (filter: ResourceFilter, options: SqlWhereOptions = {}): SqlWhereClause => {
+    const column = options.column ?? 'resource';
+    const placeholder = options.placeholder ?? (() => '?');
+    const params: string[] = [];
+
+    if ([...filter.allow, ...filter.deny].some(rule => rule.condition)) {
+        throw new ValidationError('Resource filter has conditions that cannot be evaluated in SQL');
+    }
+
+    const like = (likePattern: string): string => {
+        params.push(likePattern);
+        return `${column} LIKE ${placeholder(params.length)} ESCAPE '\\'`;
+    };
+    const compare = (pattern: string): string => {
+        if (pattern.includes('*')) {
+            return like(pattern.split('*').map(escapeLike).join('%'));
+        }
+        params.push(pattern);
+        return `${column} = ${placeholder(params.length)}`;
+    };
+    const anyOf = (patterns: string[]): string => `(${patterns.map(compare).join(' OR ')})`;
+    const ruleSql = (rule: ResourceRule): string =>
+        rule.resources ? anyOf(rule.resources) : `NOT ${anyOf(rule.notResources!)}`;
+    const anyRule = (rules: ResourceRule[]): string =>
+        rules.length === 1 ? ruleSql(rules[0]) : `(${rules.map(ruleSql).join(' OR ')})`;
+
+    if (filter.allow.length === 0) {
+        return { sql: '1 = 0', params: [] };
+    }
+
+    const clauses: string[] = [];
+    if (filter.prefix) {
+        clauses.push(like(`${escapeLike(filter.prefix)}%`));
+    }
+    clauses.push(anyRule(filter.allow));
+    if (filter.deny.length > 0) {
+        clauses.push(`NOT ${anyRule(filter.deny)}`);
+    }
+
+    return { sql: clauses.join(' AND '), params };
+}
+
+/**
+ * Turns a ResourceFilter into a function checking single resources
+ *
+ * Unresolved conditions are evaluated against the filter's context merged with the
+ * context passed for the resource, e.g. the resource's own attributes.
+ *
+ * @param filter - The filter to check resources against
+ * @returns A predicate returning true for allowed resources
+ *
+ * @example
+ * const isAllowed = toResourcePredicate(await accessControl.getResourceFilter('alice', 'read', 'document/'));
+ * const readable = documents.filter(doc => isAllowed(doc.arn, { department: doc.department }));
+ */
+export const toResourcePredicate = (filter: ResourceFilter): ResourcePredicate => (resource, context = {}) => {
+    if (!resource.startsWith(filter.prefix)) {
+        return false;
+    }
+
+    const combinedContext = { ...filter.context, ...context };
+    const covers = (rule: ResourceRule): boolean =>
+        matchesElement(rule.resources, rule.notResources, resource) &&
+        (!rule.condition || evaluateConditions(rule.condition, combinedContext));
+
+    return filter.allow.some(covers) && !filter.deny.some(covers);
+}
+
+/**
+ * Restricts a statement's Resource or NotResource element to resources starting with the prefix
+ * @returns The rule, or undefined if it covers no resource with the prefix
+ */
+const restrictToPrefix = (resources: string[] | undefined, notResources: string[] | undefined, prefix: string): ResourceRule | undefined => {
+    if (resources !== undefined) {
+        const reachable = resources.filter(pattern => prefixStates(pattern, prefix).length > 0);
+        return reachable.length > 0 ? { resources: reachable } : undefined;
+    }
+
+    if (notResources === undefined || notResources.some(pattern => coversPrefix(pattern, prefix))) {
+        return undefined;
+    }
+
+    // Exclusions that cannot match a resource with the prefix exclude nothing
+    const excluded = notResources.filter(pattern => prefixStates(pattern, prefix).length > 0);
+    return excluded.length > 0 ? { notResources: excluded } : { resources: [`${prefix}*`] };
+}
+
+/**
+ * Merges unconditional Resource rules and removes rules that cannot change the result
+ */
+const normalize = (prefix: string, allow: ResourceRule[], deny: ResourceRule[], context: Record<string, any>): ResourceFilter => {
+    const merge = (rules: ResourceRule[]): { patterns: string[]; others: ResourceRule[] } => ({
+        patterns: Array.from(new Set(rules.filter(isPlainResourceRule).flatMap(rule => rule.resources!))),
+        others: rules.filter(rule => !isPlainResourceRule(rule))
+    });
+
+    const denied = merge(deny);
+    if (denied.patterns.some(pattern => coversPrefix(pattern, prefix))) {
+        return { prefix, allow: [], deny: [], context };
+    }
+
+    const allowed = merge(allow);
+    const allowedPatterns = allowed.patterns.filter(pattern => pattern.includes('*') || !matches(denied.patterns, pattern));
+    const allowRules = [
+        ...(allowedPatterns.length > 0 ? [{ resources: allowedPatterns }] : []),
+        ...allowed.others
+    ];
+    if (allowRules.length === 0) {
+        return { prefix, allow: [], deny: [], context };
+    }
+
+    return {
+        prefix,
+        allow: allowRules,
+        deny: [...(denied.patterns.length > 0 ? [{ resources: denied.patterns }] : []), ...denied.others],
+        context
+    };
+}
+
+const isPlainResourceRule = (rule: ResourceRule): boolean => rule.resources !== undefined && !rule.condition;
+
+/**
+ * Positions in a wildcard pattern that can be reached after matching the prefix
+ * Each `*` may match any number of characters, as in `matches`
+ */
+const prefixStates = (pattern: string, prefix: string): number[] => {
+    const closure = (states: Set<number>): Set<number> => {
+        for (const state of states) {
+            if (pattern[state] === '*') {
+                states.add(state + 1);
+            }
+        }
+        return states;
+    };
+
+    let states = closure(new Set([0]));
+    for (const char of prefix) {
+        const next = new Set<number>();
+        for (const state of states) {
+            if (pattern[state] === '*') {
+                next.add(state);
+            } else if (state < pattern.length && pattern[state] === char) {
+                next.add(state + 1);
+            }
+        }
+        states = closure(next);
+    }
+    return Array.from(states);
+}
+
+/**
+ * Checks if a wildcard pattern matches every resource starting with the prefix
+ */
+const coversPrefix = (pattern: string, prefix: string): boolean =>
+    prefixStates(pattern, prefix).some(state => state < pattern.length && /^\*+$/.test(pattern.slice(state)));
+
+/**
+ * Escapes the LIKE wildcards in a literal string with a backslash
+ */
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, char => `\\${char}`);
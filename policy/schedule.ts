@@ -0,0 +1,181 @@
+import { Schedule, Weekday } from "../models";
+
+/**
+ * Weekdays in the order of `Date.getUTCDay()`
+ */
+const WEEKDAYS: Weekday[] = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const END_OF_DAY = '24:00';
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * A calendar day in a schedule's time zone
+ */
+interface LocalDay {
+    /** The date in YYYY-MM-DD format */
+    date: string;
+    /** Index into WEEKDAYS */
+    weekday: number;
+}
+
+/**
+ * Formatters by time zone, since creating one is much slower than using it
+ */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Returns a formatter splitting times into their parts in a time zone
+ * @throws RangeError if the time zone is unknown
+ */
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hour12: false,
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit'
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+};
+
+/**
+ * Converts a calendar date to a LocalDay
+ */
+const toLocalDay = (year: number, month: number, day: number): LocalDay => {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return { date: date.toISOString().slice(0, 10), weekday: date.getUTCDay() };
+};
+
+/**
+ * Parses a time in HH:MM format to minutes since midnight
+ * @returns The minutes, or NaN if the time is invalid
+ */
+const parseTime = (time: unknown, allowEndOfDay = false): number => {
+    if (allowEndOfDay && time === END_OF_DAY) {
+        return MINUTES_PER_DAY;
+    }
+    const match = typeof time === 'string' ? TIME_PATTERN.exec(time) : null;
+    return match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+};
+
+/**
+ * Checks if a value is a date in YYYY-MM-DD format that exists in the calendar
+ */
+const isValidDate = (value: unknown): boolean => {
+    const match = typeof value === 'string' ? DATE_PATTERN.exec(value) : null;
+    return !!match && toLocalDay(Number(match[1]), Number(match[2]), Number(match[3])).date === value;
+};
+
+/**
+ * Checks if a time zone is a valid IANA time zone name
+ */
+const isValidTimeZone = (timeZone: unknown): boolean => {
+    if (typeof timeZone !== 'string' || !timeZone) {
+        return false;
+    }
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch (e) {
+        return false;
+    }
+};
+
+/**
+ * Checks if a point in time is within a schedule
+ *
+ * A window applies from its StartTime on each of its days until its EndTime, on the
+ * same day or, for windows ending before they start, on the next day. Windows starting
+ * on one of the ExceptDates do not apply. Windows with invalid times never apply.
+ *
+ * @param schedule - The schedule to check
+ * @param now - The point in time to check
+ * @returns True if one of the schedule's windows applies at that time
+ * @throws RangeError if the schedule's time zone is unknown
+ */
+export const isWithinSchedule = (schedule: Schedule, now: Date = new Date()): boolean => {
+    const parts: Record<string, number> = {};
+    for (const { type, value } of getFormatter(schedule.TimeZone || 'UTC').formatToParts(now)) {
+        parts[type] = Number(value);
+    }
+
+    const today = toLocalDay(parts.year, parts.month, parts.day);
+    const yesterday = toLocalDay(parts.year, parts.month, parts.day - 1);
+    // Some platforms format midnight as 24:00
+    const minutes = (parts.hour % 24) * 60 + parts.minute;
+    const exceptDates = schedule.ExceptDates || [];
+    const startsOn = (days: Weekday[], day: LocalDay): boolean =>
+        days.includes(WEEKDAYS[day.weekday]) && !exceptDates.includes(day.date);
+
+    return (schedule.Windows || []).some(window => {
+        const days = window.Days || [];
+        const start = parseTime(window.StartTime);
+        const end = parseTime(window.EndTime, true);
+
+        if (isNaN(start) || isNaN(end)) {
+            return false;
+        }
+        if (start < end) {
+            return startsOn(days, today) && start <= minutes && minutes < end;
+        }
+        return (startsOn(days, today) && start <= minutes) || (startsOn(days, yesterday) && minutes < end);
+    });
+};
+
+/**
+ * Validates the structure of a Schedule
+ * @param schedule - The Schedule object to validate
+ * @returns A list of validation error messages, empty if the schedule is valid
+ */
+export const validateSchedule = (schedule: Schedule): string[] => {
+    if (typeof schedule !== 'object' || schedule === null || Array.isArray(schedule)) {
+        return ['Schedule must be an object'];
+    }
+
+    const errors: string[] = [];
+
+    if (!Array.isArray(schedule.Windows) || schedule.Windows.length === 0) {
+        errors.push('Schedule must contain at least one window');
+    }
+
+    (Array.isArray(schedule.Windows) ? schedule.Windows : []).forEach((window, index) => {
+        if (!Array.isArray(window?.Days) || window.Days.length === 0) {
+            errors.push(`Schedule window ${index} must list at least one day`);
+        } else {
+            for (const day of window.Days.filter(day => !WEEKDAYS.includes(day))) {
+                errors.push(`Schedule window ${index} has an unknown day "${day}"; use ${WEEKDAYS.join(', ')}`);
+            }
+        }
+
+        const start = parseTime(window?.StartTime);
+        const end = parseTime(window?.EndTime, true);
+        if (isNaN(start)) {
+            errors.push(`Schedule window ${index} must have a StartTime in HH:MM format`);
+        }
+        if (isNaN(end)) {
+            errors.push(`Schedule window ${index} must have an EndTime in HH:MM format`);
+        }
+        if (start === end) {
+            errors.push(`Schedule window ${index} must not start and end at the same time`);
+        }
+    });
+
+    if (schedule.TimeZone !== undefined && !isValidTimeZone(schedule.TimeZone)) {
+        errors.push(`Unknown time zone "${schedule.TimeZone}"`);
+    }
+
+    if (schedule.ExceptDates !== undefined &&
+        (!Array.isArray(schedule.ExceptDates) || !schedule.ExceptDates.every(isValidDate))) {
+        errors.push('ExceptDates must be dates in YYYY-MM-DD format');
+    }
+
+    return errors;
+};
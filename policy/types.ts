@@ -0,0 +1,151 @@
+/**
+ * Type definitions for policy evaluation results and decision explanations
+ */
+import { Condition, Effect, Policy } from "../models";
+
+/**
+ * Why an access evaluation ended with its result
+ */
+export enum DecisionReason {
+    /** At least one Allow statement matched and no Deny statement matched */
+    Allowed = 'Allowed',
+    /** A Deny statement matched */
+    ExplicitDeny = 'ExplicitDeny',
+    /** No statement matched, so access is denied by default */
+    ImplicitDeny = 'ImplicitDeny'
+}
+
+/**
+ * Why a statement covering the requested action and resource was not applied
+ */
+export enum SkipReason {
+    /** The current time is outside the statement's StartDate/EndDate window or its Schedule */
+    NotActive = 'NotActive',
+    /** The statement's Condition did not match the context */
+    ConditionNotMet = 'ConditionNotMet',
+    /** A NotAction, NotResource or Condition value referenced a policy variable that could not be resolved */
+    UnresolvedVariable = 'UnresolvedVariable'
+}
+
+/**
+ * A statement that matched the requested action and resource
+ */
+export interface StatementMatch {
+    policyId: string;
+    statementIndex: number;
+    effect: Effect;
+}
+
+/**
+ * A statement that was not applied during evaluation
+ */
+export interface SkippedStatement extends StatementMatch {
+    reason: SkipReason;
+}
+
+/**
+ * Detailed result of evaluating policies against a request
+ */
+export interface EvaluationTrace {
+    allowed: boolean;
+    effect: Effect;
+    reason: DecisionReason;
+    matchedStatements: StatementMatch[];
+    skippedStatements: SkippedStatement[];
+}
+
+/**
+ * Actions named by the Allow statements that apply to a resource
+ */
+export interface StatementActions {
+    /** Actions listed literally in `Action`, in the order they appear */
+    actions: string[];
+    /** True if a statement allows actions by wildcard or `NotAction`, which cannot be listed without a catalog */
+    wildcard: boolean;
+}
+
+/**
+ * A set of resources covered by the statements of a ResourceFilter
+ *
+ * Either `resources` or `notResources` is set, as in the statement it came from.
+ */
+export interface ResourceRule {
+    /** The rule covers resources matching any of these patterns */
+    resources?: string[];
+    /** The rule covers resources matching none of these patterns */
+    notResources?: string[];
+    /** Condition that could not be decided because it refers to keys missing from the context */
+    condition?: Condition;
+}
+
+/**
+ * Resources a user may perform an action on, as returned by `AccessControl.getResourceFilter`
+ *
+ * A resource is allowed if it starts with `prefix`, is covered by at least one `allow`
+ * rule and by no `deny` rule. Patterns use the same `*` wildcard as policy statements.
+ */
+export interface ResourceFilter {
+    prefix: string;
+    allow: ResourceRule[];
+    deny: ResourceRule[];
+    /** The context conditions were evaluated against; unresolved conditions are checked against it too */
+    context: Record<string, any>;
+}
+
+/**
+ * One check of a batch passed to `AccessControl.hasAccessBatch`
+ */
+export interface AccessRequest {
+    action: string;
+    resource: string;
+    context?: Record<string, any>;
+}
+
+/**
+ * Where a policy evaluated for a user came from
+ *
+ * - `user`: attached directly to the user (`id` is the user ID)
+ * - `group`: attached to a group the user belongs to (`id` is the group ID)
+ * - `role`: attached to a role assigned to the user (`id` is the role ID), or to
+ *   one of its ancestors, in which case `via` is the assigned role it was inherited through.
+ *   If the role was assigned to one of the user's groups, `group` is that group's ID.
+ */
+export interface PolicySource {
+    type: 'user' | 'group' | 'role';
+    id: string;
+    via?: string;
+    group?: string;
+}
+
+/**
+ * A policy together with the attachment it was loaded through
+ */
+export interface AttachedPolicy {
+    policy: Policy;
+    source: PolicySource;
+}
+
+/**
+ * A matched statement annotated with the attachments its policy came from
+ */
+export interface SourcedStatementMatch extends StatementMatch {
+    sources: PolicySource[];
+}
+
+/**
+ * A skipped statement annotated with the attachments its policy came from
+ */
+export interface SourcedSkippedStatement extends SkippedStatement {
+    sources: PolicySource[];
+}
+
+/**
+ * Explanation of an access decision returned by `AccessControl.explainAccess`
+ */
+export interface AccessDecision extends EvaluationTrace {
+    userId: string;
+    action: string;
+    resource: string;
+    matchedStatements: SourcedStatementMatch[];
+    skippedStatements: SourcedSkippedStatement[];
+}
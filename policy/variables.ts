@@ -0,0 +1,167 @@
+import { Condition, PolicyStatement, User } from "../models";
+
+/**
+ * Values available to policy variables such as `${user.id}` or `${context.tenantId}`
+ */
+export interface PolicyVariables {
+    user?: User;
+    context: Record<string, any>;
+}
+
+const VARIABLE_PATTERN = /\$\{([^}]*)\}/g;
+
+/**
+ * Looks up a dotted path such as `user.id` or `context.tenant.id` in the variables
+ * @param path - The variable path without the surrounding `${}`
+ * @param variables - The values available for substitution
+ * @returns The value as a string, or undefined if it is missing or not a string, number or boolean
+ */
+const lookupVariable = (path: string, variables: PolicyVariables): string | undefined => {
+    let value: any = variables;
+    for (const segment of path.trim().split('.')) {
+        if (value === undefined || value === null || !Object.prototype.hasOwnProperty.call(value, segment)) {
+            return undefined;
+        }
+        value = value[segment];
+    }
+
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+        return undefined;
+    }
+
+    const resolved = String(value);
+    // A substituted value must never act as a wildcard, including `?` in StringLike
+    return /[*?]/.test(resolved) ? undefined : resolved;
+}
+
+/**
+ * Substitutes policy variables in a string
+ * @param template - A string that may contain variables such as `document/${user.id}/*`
+ * @param variables - The values available for substitution
+ * @returns The resolved string, or undefined if any variable cannot be resolved
+ */
+export const resolveVariables = (template: string, variables: PolicyVariables): string | undefined => {
+    if (!template.includes('${')) {
+        return template;
+    }
+
+    let unresolved = false;
+    const resolved = template.replace(VARIABLE_PATTERN, (_match, path: string) => {
+        const value = lookupVariable(path, variables);
+        if (value === undefined) {
+            unresolved = true;
+            return '';
+        }
+        return value;
+    });
+
+    return unresolved ? undefined : resolved;
+}
+
+/**
+ * Resolves variables in Action or Resource patterns
+ * Patterns whose variables cannot be resolved are dropped so they match nothing
+ */
+const resolvePatterns = (patterns: string | string[], variables: PolicyVariables): string[] =>
+    (Array.isArray(patterns) ? patterns : [patterns])
+        .map(pattern => resolveVariables(pattern, variables))
+        .filter((pattern): pattern is string => pattern !== undefined);
+
+/**
+ * Resolves variables in NotAction or NotResource patterns
+ * Dropping an exclusion would widen the statement, so any unresolvable pattern fails the whole element
+ * @returns The resolved patterns, or undefined if any pattern cannot be resolved
+ */
+const resolveExclusions = (patterns: string | string[], variables: PolicyVariables): string[] | undefined => {
+    const list = Array.isArray(patterns) ? patterns : [patterns];
+    const resolved = resolvePatterns(list, variables);
+    return resolved.length === list.length ? resolved : undefined;
+}
+
+/**
+ * Checks if a value is a plain object such as an operator block, rather than e.g. a Date
+ */
+const isPlainObject = (value: unknown): value is Record<string, any> => {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Resolves variables in a condition value, which may be a single value, a list or an operator block
+ * Other values, including Dates, are returned unchanged
+ * @returns The resolved value, or undefined if any variable cannot be resolved
+ */
+const resolveConditionValue = (value: any, variables: PolicyVariables): any => {
+    if (typeof value === 'string') {
+        return resolveVariables(value, variables);
+    }
+
+    if (Array.isArray(value)) {
+        const resolved = value.map(item => resolveConditionValue(item, variables));
+        return resolved.some(item => item === undefined) ? undefined : resolved;
+    }
+
+    if (isPlainObject(value)) {
+        const resolved: Record<string, any> = {};
+        for (const [key, item] of Object.entries(value)) {
+            resolved[key] = resolveConditionValue(item, variables);
+            if (resolved[key] === undefined) {
+                return undefined;
+            }
+        }
+        return resolved;
+    }
+
+    return value;
+}
+
+/**
+ * Resolves policy variables in a statement's Action, Resource and Condition values
+ * (including NotAction and NotResource)
+ *
+ * Action and Resource patterns that reference unresolvable variables match nothing.
+ * If a NotAction, NotResource or Condition value references an unresolvable variable,
+ * the statement cannot apply.
+ *
+ * @param statement - The policy statement to resolve
+ * @param variables - The values available for substitution
+ * @returns The resolved statement, or undefined if the statement cannot apply
+ */
+export const resolveStatement = (statement: PolicyStatement, variables: PolicyVariables): PolicyStatement | undefined => {
+    const resolved: PolicyStatement = { ...statement };
+
+    if (statement.Action !== undefined) {
+        resolved.Action = resolvePatterns(statement.Action, variables);
+    }
+
+    if (statement.Resource !== undefined) {
+        resolved.Resource = resolvePatterns(statement.Resource, variables);
+    }
+
+    if (statement.NotAction !== undefined) {
+        resolved.NotAction = resolveExclusions(statement.NotAction, variables);
+        if (resolved.NotAction === undefined) {
+            return undefined;
+        }
+    }
+
+    if (statement.NotResource !== undefined) {
+        resolved.NotResource = resolveExclusions(statement.NotResource, variables);
+        if (resolved.NotResource === undefined) {
+            return undefined;
+        }
+    }
+
+    if (statement.Condition) {
+        const condition: Condition | undefined = resolveConditionValue(statement.Condition, variables);
+        if (condition === undefined) {
+            return undefined;
+        }
+        resolved.Condition = condition;
+    }
+
+    return resolved;
+}
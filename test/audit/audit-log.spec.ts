@@ -0,0 +1,119 @@
+import { AccessControl } from '../../core';
+import { AuditLog } from '../../audit/audit-log';
+import { MemoryAuditSink } from '../../audit/sink';
+import { InMemoryRepository } from '../../db/in-memory-repo';
+import { DuplicateEntityError, ValidationError } from '../../errors';
+import { Effect, Policy } from '../../models';
+
+describe('Audit log', () => {
+  const readPolicy: Policy = {
+    id: 'p1',
+    document: {
+      Version: '2023-10-17',
+      Statement: [{ Effect: Effect.Allow, Action: ['read'], Resource: ['document/*'] }]
+    }
+  };
+
+  let sink: MemoryAuditSink;
+  let accessControl: AccessControl<InMemoryRepository>;
+
+  beforeEach(() => {
+    sink = new MemoryAuditSink();
+    accessControl = new AccessControl({}, InMemoryRepository, { audit: { sink, actor: 'system' } });
+  });
+
+  it('should record each change with the changed entity before and after it', async () => {
+    await accessControl.createRole({ id: 'editor', name: 'Editor' });
+    await accessControl.createUser({ id: 'alice', name: 'Alice' });
+    await accessControl.assignRoleToUser('alice', 'editor');
+    await accessControl.deleteRole('editor', { cascade: true });
+
+    const { items } = await accessControl.queryAuditLog();
+
+    expect(items.map(record => record.type === 'change' && [record.operation, record.entityType, record.entityId])).toEqual([
+      ['createRole', 'Role', 'editor'],
+      ['createUser', 'User', 'alice'],
+      ['assignRoleToUser', 'User', 'alice'],
+      ['deleteRole', 'Role', 'editor']
+    ]);
+    expect(items[2]).toMatchObject({
+      actor: 'system',
+      details: { roleId: 'editor' },
+      before: { id: 'alice', roles: [] },
+      after: { id: 'alice', roles: ['editor'] }
+    });
+    expect(items[0]).not.toHaveProperty('before');
+    expect(items[3]).toMatchObject({ details: { cascade: true }, before: { id: 'editor' } });
+    expect(items[3]).not.toHaveProperty('after');
+    expect(new Date(items[0].timestamp).getTime()).not.toBeNaN();
+  });
+
+  it('should record the actor of a scoped instance', async () => {
+    await accessControl.withActor('bob').createPolicy(readPolicy);
+    await accessControl.createRole({ id: 'viewer', name: 'Viewer' });
+
+    expect((await accessControl.queryAuditLog({ actor: 'bob' })).items).toEqual([
+      expect.objectContaining({ operation: 'createPolicy', entityId: 'p1', after: readPolicy })
+    ]);
+    expect((await accessControl.queryAuditLog({ actor: 'system' })).items).toHaveLength(1);
+  });
+
+  it('should not record changes that fail', async () => {
+    await accessControl.createRole({ id: 'editor', name: 'Editor' });
+
+    await expect(accessControl.createRole({ id: 'editor', name: 'Editor' })).rejects.toThrow(DuplicateEntityError);
+
+    expect((await accessControl.queryAuditLog()).items).toHaveLength(1);
+  });
+
+  it('should record sampled decisions', async () => {
+    const sampled = new AccessControl({}, InMemoryRepository, { audit: { sink, decisionSampleRate: 0.5 } });
+    await sampled.createPolicy(readPolicy);
+    await sampled.createUser({ id: 'alice', name: 'Alice', policies: ['p1'] });
+
+    const random = jest.spyOn(Math, 'random').mockReturnValueOnce(0.2).mockReturnValueOnce(0.7);
+    try {
+      await sampled.withActor('frontend').hasAccess('alice', 'read', 'document/1', { ip: '10.0.0.1' });
+      await sampled.hasAccess('alice', 'delete', 'document/1');
+    } finally {
+      random.mockRestore();
+    }
+
+    expect((await sampled.queryAuditLog({ type: 'decision' })).items).toEqual([
+      expect.objectContaining({
+        actor: 'frontend',
+        userId: 'alice',
+        action: 'read',
+        resource: 'document/1',
+        context: { ip: '10.0.0.1' },
+        allowed: true
+      })
+    ]);
+  });
+
+  it('should not record decisions by default', async () => {
+    await accessControl.createUser({ id: 'alice', name: 'Alice' });
+
+    await accessControl.hasAccess('alice', 'read', 'document/1');
+
+    expect((await accessControl.queryAuditLog({ type: 'decision' })).items).toEqual([]);
+  });
+
+  it('should set up the tables of the sink', async () => {
+    const setupTables = jest.fn().mockResolvedValue(undefined);
+    const withTables = new AccessControl({}, InMemoryRepository, { audit: { sink: Object.assign(sink, { setupTables }) } });
+
+    await withTables.init();
+
+    expect(setupTables).toHaveBeenCalled();
+  });
+
+  it('should require an audit sink to query the log', async () => {
+    await expect(new AccessControl({}, InMemoryRepository).queryAuditLog()).rejects.toThrow(ValidationError);
+  });
+
+  it('should reject invalid sample rates', () => {
+    expect(() => new AuditLog({ sink, decisionSampleRate: 2 })).toThrow(ValidationError);
+    expect(() => new AuditLog({ sink, decisionSampleRate: NaN })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,175 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, PutCommand, QueryCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { AuditRecord, AuditSink, JsonLinesAuditSink, MemoryAuditSink } from '../../audit/sink';
+import { DynamoDBAuditSink } from '../../audit/dynamodb-sink';
+import { ValidationError } from '../../errors';
+
+const records: AuditRecord[] = [
+  {
+    type: 'change', id: 'a1', timestamp: '2026-01-01T10:00:00.000Z', actor: 'admin',
+    operation: 'createRole', entityType: 'Role', entityId: 'editor', after: { id: 'editor', name: 'Editor' }
+  },
+  {
+    type: 'change', id: 'a2', timestamp: '2026-01-02T10:00:00.000Z', actor: 'bob',
+    operation: 'assignRoleToUser', entityType: 'User', entityId: 'alice', details: { roleId: 'editor' },
+    before: { id: 'alice', name: 'Alice', roles: [] }, after: { id: 'alice', name: 'Alice', roles: ['editor'] }
+  },
+  {
+    type: 'decision', id: 'a3', timestamp: '2026-01-03T10:00:00.000Z',
+    userId: 'alice', action: 'read', resource: 'document/1', context: {}, allowed: true
+  },
+  {
+    type: 'change', id: 'a4', timestamp: '2026-01-04T10:00:00.000Z', actor: 'admin',
+    operation: 'deleteRole', entityType: 'Role', entityId: 'editor', details: { cascade: true }, before: { id: 'editor', name: 'Editor' }
+  }
+];
+
+const ids = (page: { items: AuditRecord[] }) => page.items.map(record => record.id);
+
+const runSinkTests = (createSink: () => AuditSink) => {
+  let sink: AuditSink;
+
+  beforeEach(async () => {
+    sink = createSink();
+    for (const record of records) {
+      await sink.write(record);
+    }
+  });
+
+  it('should return records in the order they were written', async () => {
+    expect((await sink.query()).items).toEqual(records);
+  });
+
+  it('should filter records by every given criterion', async () => {
+    expect(ids(await sink.query({ entityType: 'Role', entityId: 'editor' }))).toEqual(['a1', 'a4']);
+    expect(ids(await sink.query({ actor: 'admin', operation: 'deleteRole' }))).toEqual(['a4']);
+    expect(ids(await sink.query({ type: 'decision', userId: 'alice' }))).toEqual(['a3']);
+    expect(ids(await sink.query({ from: '2026-01-02T10:00:00.000Z', to: '2026-01-04T10:00:00.000Z' }))).toEqual(['a2', 'a3']);
+  });
+
+  it('should page through records', async () => {
+    const first = await sink.query({ type: 'change', limit: 2 });
+    const second = await sink.query({ type: 'change', limit: 2, cursor: first.nextCursor });
+
+    expect(ids(first)).toEqual(['a1', 'a2']);
+    expect(ids(second)).toEqual(['a4']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('should reject invalid cursors', async () => {
+    await expect(sink.query({ cursor: 'abc' })).rejects.toThrow(ValidationError);
+  });
+};
+
+describe('MemoryAuditSink', () => {
+  runSinkTests(() => new MemoryAuditSink());
+});
+
+describe('JsonLinesAuditSink', () => {
+  let directory: string;
+  let count = 0;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'rbac-audit-'));
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  runSinkTests(() => new JsonLinesAuditSink(join(directory, `audit-${++count}.jsonl`)));
+
+  it('should write one JSON object per line, keeping the order of concurrent writes', async () => {
+    const path = join(directory, 'concurrent.jsonl');
+    const sink = new JsonLinesAuditSink(path);
+
+    await Promise.all(records.map(record => sink.write(record)));
+
+    expect(readFileSync(path, 'utf8').trim().split('\n').map(line => JSON.parse(line))).toEqual(records);
+  });
+
+  it('should return no records before the first write', async () => {
+    expect(await new JsonLinesAuditSink(join(directory, 'missing.jsonl')).query()).toEqual({ items: [] });
+  });
+});
+
+describe('DynamoDBAuditSink', () => {
+  const client = new DynamoDBClient({ region: 'local', credentials: { accessKeyId: 'local', secretAccessKey: 'local' } });
+  let send: jest.SpyInstance;
+
+  beforeAll(() => {
+    send = jest.spyOn(DynamoDBDocumentClient.prototype, 'send');
+  });
+
+  beforeEach(() => {
+    send.mockReset();
+    send.mockResolvedValue({ Items: [] });
+  });
+
+  afterAll(() => {
+    send.mockRestore();
+    client.destroy();
+  });
+
+  it('should store changes under their entity and decisions under their user, sorted by time', async () => {
+    const sink = new DynamoDBAuditSink(client, { tableName: 'Audit' });
+
+    await sink.write(records[1]);
+    await sink.write(records[2]);
+
+    const items = send.mock.calls.map(([command]) => (command as PutCommand).input.Item);
+    expect(items[0]).toEqual({ PK: 'CHANGE#User#alice', SK: '2026-01-02T10:00:00.000Z#a2', ...records[1] });
+    expect(items[1]).toMatchObject({ PK: 'DECISION#alice', SK: '2026-01-03T10:00:00.000Z#a3' });
+  });
+
+  it('should query the partition of an entity or user, and scan otherwise', async () => {
+    const sink = new DynamoDBAuditSink(client, { tableName: 'Audit' });
+    send.mockResolvedValueOnce({ Items: [{ PK: 'CHANGE#Role#editor', SK: 'x', ...records[0] }], LastEvaluatedKey: { PK: 'CHANGE#Role#editor', SK: 'x' } });
+
+    const page = await sink.query({ entityType: 'Role', entityId: 'editor', to: '2026-02-01T00:00:00.000Z', limit: 1 });
+    await sink.query({ userId: 'alice' });
+    await sink.query({ actor: 'admin' });
+
+    expect(page.items).toEqual([records[0]]);
+    expect(await sink.query({ cursor: page.nextCursor })).toEqual({ items: [] });
+
+    const [byEntity, byUser, byActor, next] = send.mock.calls.map(([command]) => command);
+    expect(byEntity).toBeInstanceOf(QueryCommand);
+    expect(byEntity.input).toMatchObject({
+      TableName: 'Audit',
+      KeyConditionExpression: 'PK = :partition AND SK < :to',
+      FilterExpression: '#entityType = :v0 AND #entityId = :v1',
+      ExpressionAttributeValues: { ':partition': 'CHANGE#Role#editor', ':to': '2026-02-01T00:00:00.000Z' },
+      Limit: 1
+    });
+    expect(byUser.input.KeyConditionExpression).toBe('PK = :partition');
+    expect(byUser.input.ExpressionAttributeValues[':partition']).toBe('DECISION#alice');
+    expect(byActor).toBeInstanceOf(ScanCommand);
+    expect(next.input.ExclusiveStartKey).toEqual({ PK: 'CHANGE#Role#editor', SK: 'x' });
+  });
+
+  it('should read the time range of a partition by sort key and filter it in scans', async () => {
+    const sink = new DynamoDBAuditSink(client, { tableName: 'Audit' });
+    const from = '2026-01-01T00:00:00.000Z';
+    const to = '2026-02-01T00:00:00.000Z';
+
+    await sink.query({ userId: 'alice', from, to });
+    await sink.query({ userId: 'alice', from });
+    await sink.query({ actor: 'admin', from, to });
+
+    const [range, since, scan] = send.mock.calls.map(([command]) => command.input);
+    expect(range).toMatchObject({
+      KeyConditionExpression: 'PK = :partition AND SK BETWEEN :from AND :to',
+      ExpressionAttributeValues: { ':partition': 'DECISION#alice', ':from': from, ':to': to }
+    });
+    expect(range.FilterExpression).toBe('#userId = :v0');
+    expect(since.KeyConditionExpression).toBe('PK = :partition AND SK >= :from');
+    expect(scan).toMatchObject({
+      FilterExpression: '#actor = :v0 AND #timestamp >= :v1 AND #timestamp < :v2',
+      ExpressionAttributeValues: { ':v0': 'admin', ':v1': from, ':v2': to }
+    });
+  });
+});
@@ -43,6 +43,32 @@ describe('StatementBuilder', () => {
       });
     });
 
+    it('should build a statement with condition operators', () => {
+      const statement = new StatementBuilder()
+        .allow(['approve'])
+        .on(['invoice/*'])
+        .when({ NumericLessThan: { amount: 1000 }, StringLike: { department: 'fin*' } })
+        .build();
+
+      expect(statement.Condition).toEqual({
+        NumericLessThan: { amount: 1000 },
+        StringLike: { department: 'fin*' }
+      });
+    });
+
+    it('should build a statement with NotAction and NotResource', () => {
+      const statement = new StatementBuilder()
+        .denyAllExcept(['read'])
+        .onAllExcept(['billing/*'])
+        .build();
+
+      expect(statement.Effect).toBe(Effect.Deny);
+      expect(statement.NotAction).toEqual(['read']);
+      expect(statement.NotResource).toEqual(['billing/*']);
+      expect(statement.Action).toBeUndefined();
+      expect(statement.Resource).toBeUndefined();
+    });
+
     it('should build a statement with time constraints', () => {
       const startDate = '2025-01-01T00:00:00Z';
       const endDate = '2025-12-31T23:59:59Z';
@@ -57,6 +83,26 @@ describe('StatementBuilder', () => {
       expect(statement.StartDate).toBe(startDate);
       expect(statement.EndDate).toBe(endDate);
     });
+
+    it('should build a statement with a schedule', () => {
+      const statement = new StatementBuilder()
+        .allow(['deploy'])
+        .on(['service/*'])
+        .duringHours(['Mon', 'Tue', 'Wed', 'Thu', 'Fri'], '09:00', '18:00')
+        .duringHours(['Sat'], '22:00', '02:00')
+        .inTimeZone('Europe/Berlin')
+        .exceptOn(['2025-12-25'])
+        .build();
+
+      expect(statement.Schedule).toEqual({
+        Windows: [
+          { Days: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'], StartTime: '09:00', EndTime: '18:00' },
+          { Days: ['Sat'], StartTime: '22:00', EndTime: '02:00' }
+        ],
+        TimeZone: 'Europe/Berlin',
+        ExceptDates: ['2025-12-25']
+      });
+    });
   });
 
   describe('Validation', () => {
@@ -106,6 +152,66 @@ describe('StatementBuilder', () => {
       }).toThrow(BuilderValidationError);
     });
 
+    it('should throw error for invalid schedules', () => {
+      const build = (configure: (builder: StatementBuilder) => StatementBuilder) => () =>
+        configure(new StatementBuilder().allow(['read']).on(['document/*'])).build();
+
+      expect(build(builder => builder.duringHours(['Mon'], '9am', '18:00'))).toThrow(BuilderValidationError);
+      expect(build(builder => builder.duringHours([], '09:00', '18:00'))).toThrow(BuilderValidationError);
+      expect(build(builder => builder.duringHours(['Mon'], '09:00', '18:00').inTimeZone('Berlin'))).toThrow(BuilderValidationError);
+      expect(build(builder => builder.duringHours(['Mon'], '09:00', '18:00').exceptOn(['25.12.2025']))).toThrow(BuilderValidationError);
+      expect(build(builder => builder.inTimeZone('Europe/Berlin'))).toThrow('Invalid statement configuration');
+    });
+
+    it('should throw error when both Action and NotAction are specified', () => {
+      expect(() => {
+        new StatementBuilder()
+          .allow(['read'])
+          .allowAllExcept(['delete'])
+          .on(['document/*'])
+          .build();
+      }).toThrow(BuilderValidationError);
+    });
+
+    it('should throw error when both Resource and NotResource are specified', () => {
+      expect(() => {
+        new StatementBuilder()
+          .allow(['read'])
+          .on(['document/*'])
+          .onAllExcept(['billing/*'])
+          .build();
+      }).toThrow(BuilderValidationError);
+    });
+
+    it('should throw error for empty NotAction', () => {
+      expect(() => {
+        new StatementBuilder()
+          .allowAllExcept([])
+          .on(['document/*'])
+          .build();
+      }).toThrow(BuilderValidationError);
+    });
+
+    it('should throw error for unknown condition operators', () => {
+      expect(() => {
+        new StatementBuilder()
+          .allow(['read'])
+          .on(['document/*'])
+          .when({ NumericLessThen: { amount: 1000 } })
+          .build();
+      }).toThrow(BuilderValidationError);
+    });
+
+    it('should throw error for condition operands of the wrong type', () => {
+      expect(() => {
+        new StatementBuilder()
+          .allow(['read'])
+          .on(['document/*'])
+          .when({ IpAddress: { sourceIp: 'not-an-ip' } })
+          .build();
+      }).toThrow(BuilderValidationError);
+    });
+
     it('should throw error for empty actions', () => {
       expect(() => {
         new StatementBuilder()
@@ -190,6 +296,36 @@ describe('PolicyBuilder', () => {
       expect(statement.StartDate).toBe('2025-01-01T00:00:00Z');
       expect(statement.EndDate).toBe('2025-12-31T23:59:59Z');
     });
+
+    it('should build a simple policy with a schedule', () => {
+      const policy = new PolicyBuilder('on-call')
+        .allow(['restart'])
+        .on(['service/*'])
+        .duringHours(['Sat', 'Sun'], '00:00', '24:00')
+        .inTimeZone('America/New_York')
+        .exceptOn(['2025-12-27'])
+        .build();
+
+      expect(policy.document.Statement[0].Schedule).toEqual({
+        Windows: [{ Days: ['Sat', 'Sun'], StartTime: '00:00', EndTime: '24:00' }],
+        TimeZone: 'America/New_York',
+        ExceptDates: ['2025-12-27']
+      });
+    });
+  });
+
+  describe('Exclusion statements', () => {
+    it('should build a simple policy with NotAction and NotResource', () => {
+      const policy = new PolicyBuilder('policy-except')
+        .allowAllExcept(['delete'])
+        .onAllExcept(['billing/*'])
+        .build();
+
+      const statement = policy.document.Statement[0];
+      expect(statement.Effect).toBe(Effect.Allow);
+      expect(statement.NotAction).toEqual(['delete']);
+      expect(statement.NotResource).toEqual(['billing/*']);
+    });
   });
 
   describe('Complex policy building', () => {
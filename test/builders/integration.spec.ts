@@ -23,10 +23,13 @@ describe('AccessControl Builder Integration', () => {
       setupTables: jest.fn().mockResolvedValue(undefined),
       createUser: jest.fn(),
       getUser: jest.fn(),
+      updateUser: jest.fn(),
+      deleteUser: jest.fn(),
       createRole: jest.fn(),
       getRole: jest.fn(),
       assignRoleToUser: jest.fn(),
       createPolicy: jest.fn(),
+      getPolicy: jest.fn(),
       updatePolicy: jest.fn(),
       updateRole: jest.fn(),
       deletePolicy: jest.fn(),
@@ -37,7 +40,26 @@ describe('AccessControl Builder Integration', () => {
       getRolePolicies: jest.fn(),
       detachPolicyFromRole: jest.fn(),
       detachPolicyFromUser: jest.fn(),
-      removeRoleFromUser: jest.fn()
+      removeRoleFromUser: jest.fn(),
+      addParentRole: jest.fn(),
+      removeParentRole: jest.fn(),
+      createGroup: jest.fn(),
+      getGroup: jest.fn(),
+      updateGroup: jest.fn(),
+      deleteGroup: jest.fn(),
+      addUserToGroup: jest.fn(),
+      removeUserFromGroup: jest.fn(),
+      assignRoleToGroup: jest.fn(),
+      removeRoleFromGroup: jest.fn(),
+      attachPolicyToGroup: jest.fn(),
+      detachPolicyFromGroup: jest.fn(),
+      getGroupPolicies: jest.fn(),
+      getUsersWithRole: jest.fn(),
+      getRolesWithPolicy: jest.fn(),
+      getUsersWithPolicy: jest.fn(),
+      listUsers: jest.fn(),
+      listRoles: jest.fn(),
+      listPolicies: jest.fn()
     };
 
     // Mock the factory to return our mock repository
@@ -0,0 +1,50 @@
+import { MemoryCacheStore } from '../../cache/store';
+
+describe('MemoryCacheStore', () => {
+  let now: jest.SpyInstance;
+
+  beforeEach(() => {
+    now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+  });
+
+  afterEach(() => {
+    now.mockRestore();
+  });
+
+  it('should return stored values until they expire', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('a', '1', 500);
+    await store.set('b', '2');
+
+    now.mockReturnValue(1499);
+    expect(await store.get('a')).toBe('1');
+
+    now.mockReturnValue(1500);
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.get('b')).toBe('2');
+    expect(store.size).toBe(1);
+  });
+
+  it('should evict the least recently used value beyond maxEntries', async () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    await store.set('a', '1');
+    await store.set('b', '2');
+    await store.get('a');
+
+    await store.set('c', '3');
+
+    expect(await store.get('a')).toBe('1');
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBe('3');
+  });
+
+  it('should delete values and ignore missing keys', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('a', '1');
+
+    await store.delete(['a', 'missing']);
+
+    expect(await store.get('a')).toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+});
@@ -1,11 +1,21 @@
 import { AccessControl } from '../../core';
-import { Effect, User, Role, Policy } from '../../models';
-import { evaluate } from '../../policy/evaluator';
+import { Effect, User, Role, Policy, Group } from '../../models';
+import { collectStatementActions, evaluate, explain } from '../../policy/evaluator';
+import { partialEvaluate } from '../../policy/resource-filter';
+import { DecisionReason, SkipReason } from '../../policy/types';
 import { IBaseRepository } from '../../db/base-repo';
+import { UserNotFoundError, ValidationError } from '../../errors';
 
 // Mock the policy evaluator module
 jest.mock('../../policy/evaluator', () => ({
-  evaluate: jest.fn()
+  evaluate: jest.fn(),
+  explain: jest.fn(),
+  collectStatementActions: jest.fn()
+}));
+
+// Mock the resource filter module
+jest.mock('../../policy/resource-filter', () => ({
+  partialEvaluate: jest.fn()
 }));
 
 // Mock the db factory module
@@ -19,10 +29,13 @@ describe('AccessControl', () => {
     setupTables: jest.fn().mockResolvedValue(undefined),
     createUser: jest.fn(),
     getUser: jest.fn(),
+    updateUser: jest.fn(),
+    deleteUser: jest.fn().mockResolvedValue(undefined),
     createRole: jest.fn(),
     getRole: jest.fn(),
     assignRoleToUser: jest.fn(),
     createPolicy: jest.fn(),
+    getPolicy: jest.fn(),
     attachPolicyToRole: jest.fn().mockResolvedValue(undefined),
     attachPolicyToUser: jest.fn().mockResolvedValue(undefined),
     getUserPolicies: jest.fn(),
@@ -33,7 +46,26 @@ describe('AccessControl', () => {
     deleteRole: jest.fn().mockResolvedValue(undefined),
     detachPolicyFromRole: jest.fn().mockResolvedValue(undefined),
     detachPolicyFromUser: jest.fn().mockResolvedValue(undefined),
-    removeRoleFromUser: jest.fn().mockResolvedValue(undefined)
+    removeRoleFromUser: jest.fn().mockResolvedValue(undefined),
+    addParentRole: jest.fn().mockResolvedValue(undefined),
+    removeParentRole: jest.fn().mockResolvedValue(undefined),
+    createGroup: jest.fn(),
+    getGroup: jest.fn(),
+    updateGroup: jest.fn(),
+    deleteGroup: jest.fn().mockResolvedValue(undefined),
+    addUserToGroup: jest.fn().mockResolvedValue(undefined),
+    removeUserFromGroup: jest.fn().mockResolvedValue(undefined),
+    assignRoleToGroup: jest.fn().mockResolvedValue(undefined),
+    removeRoleFromGroup: jest.fn().mockResolvedValue(undefined),
+    attachPolicyToGroup: jest.fn().mockResolvedValue(undefined),
+    detachPolicyFromGroup: jest.fn().mockResolvedValue(undefined),
+    getGroupPolicies: jest.fn(),
+    getUsersWithRole: jest.fn(),
+    getRolesWithPolicy: jest.fn(),
+    getUsersWithPolicy: jest.fn(),
+    listUsers: jest.fn(),
+    listRoles: jest.fn(),
+    listPolicies: jest.fn()
   };
 
   /**
@@ -53,10 +85,13 @@ describe('AccessControl', () => {
     setupTables = mockRepository.setupTables;
     createUser = mockRepository.createUser;
     getUser = mockRepository.getUser;
+    updateUser = mockRepository.updateUser;
+    deleteUser = mockRepository.deleteUser;
     createRole = mockRepository.createRole;
     getRole = mockRepository.getRole;
     assignRoleToUser = mockRepository.assignRoleToUser;
     createPolicy = mockRepository.createPolicy;
+    getPolicy = mockRepository.getPolicy;
     attachPolicyToRole = mockRepository.attachPolicyToRole;
     attachPolicyToUser = mockRepository.attachPolicyToUser;
     getUserPolicies = mockRepository.getUserPolicies;
@@ -68,6 +103,25 @@ describe('AccessControl', () => {
     detachPolicyFromRole = mockRepository.detachPolicyFromRole;
     detachPolicyFromUser = mockRepository.detachPolicyFromUser;
     removeRoleFromUser = mockRepository.removeRoleFromUser;
+    addParentRole = mockRepository.addParentRole;
+    removeParentRole = mockRepository.removeParentRole;
+    createGroup = mockRepository.createGroup;
+    getGroup = mockRepository.getGroup;
+    updateGroup = mockRepository.updateGroup;
+    deleteGroup = mockRepository.deleteGroup;
+    addUserToGroup = mockRepository.addUserToGroup;
+    removeUserFromGroup = mockRepository.removeUserFromGroup;
+    assignRoleToGroup = mockRepository.assignRoleToGroup;
+    removeRoleFromGroup = mockRepository.removeRoleFromGroup;
+    attachPolicyToGroup = mockRepository.attachPolicyToGroup;
+    detachPolicyFromGroup = mockRepository.detachPolicyFromGroup;
+    getGroupPolicies = mockRepository.getGroupPolicies;
+    getUsersWithRole = mockRepository.getUsersWithRole;
+    getRolesWithPolicy = mockRepository.getRolesWithPolicy;
+    getUsersWithPolicy = mockRepository.getUsersWithPolicy;
+    listUsers = mockRepository.listUsers;
+    listRoles = mockRepository.listRoles;
+    listPolicies = mockRepository.listPolicies;
   }
 
   // Mock the factory to return our mock repository
@@ -114,6 +168,15 @@ describe('AccessControl', () => {
       expect(mockRepository.createRole).toHaveBeenCalledWith(mockRole);
       expect(result).toEqual(mockRole);
     });
+
+    it('should reject parent roles that would create a cycle', async () => {
+      mockRepository.getRole.mockImplementation(async (roleId: string) =>
+        ({ id: roleId, name: roleId, parentRoles: roleId === 'r2' ? ['r1'] : [] }));
+
+      await expect(accessControl.createRole({ id: 'r1', name: 'Admin', parentRoles: ['r1'] })).rejects.toThrow(ValidationError);
+      await expect(accessControl.createRole({ id: 'r1', name: 'Admin', parentRoles: ['r3', 'r2'] })).rejects.toThrow('cycle');
+      expect(mockRepository.createRole).not.toHaveBeenCalled();
+    });
   });
 
   describe('assignRoleToUser', () => {
@@ -130,9 +193,30 @@ describe('AccessControl', () => {
 
       const result = await accessControl.assignRoleToUser(userId, roleId);
       
-      expect(mockRepository.assignRoleToUser).toHaveBeenCalledWith(userId, roleId);
+      expect(mockRepository.assignRoleToUser).toHaveBeenCalledWith(userId, roleId, undefined);
       expect(result).toEqual(updatedUser);
     });
+
+    it('should pass the validity window to the repository in ISO format', async () => {
+      mockRepository.assignRoleToUser.mockResolvedValueOnce({ id: 'u1', name: 'Test User', roles: ['r1'] });
+
+      await accessControl.assignRoleToUser('u1', 'r1', { startDate: '2026-03-02', endDate: '2026-03-09T12:00:00+02:00' });
+
+      expect(mockRepository.assignRoleToUser).toHaveBeenCalledWith('u1', 'r1', {
+        startDate: '2026-03-02T00:00:00.000Z',
+        endDate: '2026-03-09T10:00:00.000Z'
+      });
+    });
+
+    it('should reject invalid validity windows', async () => {
+      await expect(accessControl.assignRoleToUser('u1', 'r1', {})).rejects.toBeInstanceOf(ValidationError);
+      await expect(accessControl.attachPolicyToUser('p1', 'u1', { endDate: 'next week' })).rejects.toThrow('Invalid endDate in validity window: next week');
+      await expect(accessControl.attachPolicyToRole('p1', 'r1', { startDate: '2026-03-09', endDate: '2026-03-02' }))
+        .rejects.toBeInstanceOf(ValidationError);
+      expect(mockRepository.assignRoleToUser).not.toHaveBeenCalled();
+      expect(mockRepository.attachPolicyToUser).not.toHaveBeenCalled();
+      expect(mockRepository.attachPolicyToRole).not.toHaveBeenCalled();
+    });
   });
 
   describe('createPolicy', () => {
@@ -165,7 +249,7 @@ describe('AccessControl', () => {
       
       await accessControl.attachPolicyToRole(policyId, roleId);
       
-      expect(mockRepository.attachPolicyToRole).toHaveBeenCalledWith(policyId, roleId);
+      expect(mockRepository.attachPolicyToRole).toHaveBeenCalledWith(policyId, roleId, undefined);
     });
   });
 
@@ -183,6 +267,41 @@ describe('AccessControl', () => {
     });
   });
 
+  describe('updateUser', () => {
+    it('should update a user via the repository', async () => {
+      const mockUser: User = { id: 'u1', name: 'Alice', attributes: { department: 'sales' } };
+      mockRepository.updateUser.mockResolvedValue(mockUser);
+
+      const result = await accessControl.updateUser(mockUser);
+
+      expect(mockRepository.updateUser).toHaveBeenCalledWith(mockUser);
+      expect(result).toEqual(mockUser);
+    });
+  });
+
+  describe('deleteUser', () => {
+    it('should delete a user via the repository', async () => {
+      await accessControl.deleteUser('u1');
+
+      expect(mockRepository.deleteUser).toHaveBeenCalledWith('u1');
+    });
+  });
+
+  describe('getPolicy', () => {
+    it('should retrieve a policy via the repository', async () => {
+      const mockPolicy: Policy = {
+        id: 'p1',
+        document: { Version: '2023-10-17', Statement: [{ Effect: Effect.Allow, Action: ['read'], Resource: ['document'] }] }
+      };
+      mockRepository.getPolicy.mockResolvedValue(mockPolicy);
+
+      const result = await accessControl.getPolicy('p1');
+
+      expect(mockRepository.getPolicy).toHaveBeenCalledWith('p1');
+      expect(result).toEqual(mockPolicy);
+    });
+  });
+
   describe('getRole', () => {
     it('should retrieve a role via the repository', async () => {
       const roleId = 'r1';
@@ -274,6 +393,7 @@ describe('AccessControl', () => {
       ];
       
       mockRepository.getUser.mockResolvedValue(user);
+      mockRepository.getRole.mockImplementation(async (roleId: string) => ({ id: roleId, name: roleId }));
       mockRepository.getUserPolicies.mockResolvedValue(userPolicies);
       mockRepository.getRolePolicies
         .mockResolvedValueOnce(role1Policies)
@@ -294,12 +414,39 @@ describe('AccessControl', () => {
         [...userPolicies, ...role1Policies, ...role2Policies],
         action,
         resource,
-        context
+        context,
+        user
       );
       
       expect(result).toBe(true);
     });
     
+    it('should ignore assignments outside their validity window', async () => {
+      const past = { endDate: '2020-01-01T00:00:00.000Z' };
+      const future = { startDate: '2999-01-01T00:00:00.000Z' };
+      const current = { startDate: '2020-01-01T00:00:00.000Z', endDate: '2999-01-01T00:00:00.000Z' };
+      const policy = (id: string): Policy => ({ id, document: { Version: '2023-10-17', Statement: [] } });
+      const user: User = {
+        id: 'u1',
+        name: 'Test User',
+        roles: ['r1', 'r2'],
+        policies: ['p1', 'p2'],
+        roleValidity: { r2: past },
+        policyValidity: { p1: future, p2: current }
+      };
+
+      mockRepository.getUser.mockResolvedValueOnce(user);
+      mockRepository.getRole.mockResolvedValueOnce({ id: 'r1', name: 'r1', policies: ['p3', 'p4'], policyValidity: { p4: past } });
+      mockRepository.getUserPolicies.mockResolvedValueOnce([policy('p1'), policy('p2')]);
+      mockRepository.getRolePolicies.mockResolvedValueOnce([policy('p3'), policy('p4')]);
+      (evaluate as jest.Mock).mockReturnValueOnce(true);
+
+      await accessControl.hasAccess('u1', 'read', 'document');
+
+      expect(mockRepository.getRole).toHaveBeenCalledTimes(1);
+      expect(evaluate).toHaveBeenCalledWith([policy('p2'), policy('p3')], 'read', 'document', {}, user);
+    });
+
     it('should return false when evaluate returns false', async () => {
       const userId = 'u1';
       const user: User = { id: userId, name: 'Test User', roles: [] };
@@ -313,9 +460,366 @@ describe('AccessControl', () => {
       
       const result = await accessControl.hasAccess(userId, 'read', 'document');
       
-      expect(evaluate).toHaveBeenCalledWith([], 'read', 'document', {});
+      expect(evaluate).toHaveBeenCalledWith([], 'read', 'document', {}, user);
       expect(result).toBe(false);
     });
+
+    it('should add the user\'s attributes to the context', async () => {
+      const user: User = { id: 'u1', name: 'Test User', attributes: { department: 'sales', clearance: 2 } };
+
+      mockRepository.getUser.mockResolvedValue(user);
+      mockRepository.getUserPolicies.mockResolvedValue([]);
+      (evaluate as jest.Mock).mockReturnValue(true);
+
+      await accessControl.hasAccess('u1', 'read', 'document', { clearance: 3, ip: '10.0.0.1' });
+
+      expect(evaluate).toHaveBeenCalledWith(
+        [],
+        'read',
+        'document',
+        { department: 'sales', clearance: 2, ip: '10.0.0.1' },
+        user
+      );
+    });
+
+    it('should load the user and their policies in one call when the repository supports it', async () => {
+      const user: User = { id: 'u1', name: 'Test User', roles: ['viewer'] };
+      const policy: Policy = {
+        id: 'p1',
+        document: { Version: '2023-10-17', Statement: [{ Effect: Effect.Allow, Action: ['read'], Resource: ['document'] }] }
+      };
+      mockRepository.getEffectivePolicies = jest.fn().mockResolvedValue({
+        user,
+        policies: [{ policy, source: { type: 'role', id: 'viewer' } }]
+      });
+      (evaluate as jest.Mock).mockReturnValue(true);
+
+      try {
+        expect(await accessControl.hasAccess('u1', 'read', 'document')).toBe(true);
+      } finally {
+        delete mockRepository.getEffectivePolicies;
+      }
+
+      expect(evaluate).toHaveBeenCalledWith([policy], 'read', 'document', {}, user);
+      expect(mockRepository.getUser).not.toHaveBeenCalled();
+      expect(mockRepository.getRolePolicies).not.toHaveBeenCalled();
+    });
+
+    it('should include policies inherited from parent roles', async () => {
+      const user: User = { id: 'u1', name: 'Test User', roles: ['admin'] };
+      const roles: Record<string, Role> = {
+        admin: { id: 'admin', name: 'Admin', parentRoles: ['editor'] },
+        editor: { id: 'editor', name: 'Editor', parentRoles: ['viewer', 'admin'] },
+        viewer: { id: 'viewer', name: 'Viewer' }
+      };
+      const rolePolicy = (roleId: string): Policy => ({
+        id: `${roleId}-policy`,
+        document: {
+          Version: '2023-10-17',
+          Statement: [{ Effect: Effect.Allow, Action: [roleId], Resource: ['document'] }]
+        }
+      });
+
+      mockRepository.getUser.mockResolvedValue(user);
+      mockRepository.getUserPolicies.mockResolvedValue([]);
+      mockRepository.getRole.mockImplementation(async (roleId: string) => roles[roleId]);
+      mockRepository.getRolePolicies.mockImplementation(async (roleId: string) => [rolePolicy(roleId)]);
+      (evaluate as jest.Mock).mockReturnValue(true);
+
+      await accessControl.hasAccess('u1', 'viewer', 'document');
+
+      // The admin -> editor -> admin cycle is only visited once
+      expect(mockRepository.getRole).toHaveBeenCalledTimes(3);
+      expect(evaluate).toHaveBeenCalledWith(
+        [rolePolicy('admin'), rolePolicy('editor'), rolePolicy('viewer')],
+        'viewer',
+        'document',
+        {},
+        user
+      );
+    });
+    it('should include policies from the user\'s groups and the roles assigned to them', async () => {
+      const user: User = { id: 'u1', name: 'Test User', roles: ['viewer'], groups: ['g1'] };
+      const group: Group = { id: 'g1', name: 'Engineering', members: ['u1'], roles: ['editor'] };
+      const policy = (id: string): Policy => ({
+        id,
+        document: {
+          Version: '2023-10-17',
+          Statement: [{ Effect: Effect.Allow, Action: [id], Resource: ['document'] }]
+        }
+      });
+
+      mockRepository.getUser.mockResolvedValue(user);
+      mockRepository.getGroup.mockResolvedValue(group);
+      mockRepository.getRole.mockImplementation(async (roleId: string) => ({ id: roleId, name: roleId }));
+      mockRepository.getUserPolicies.mockResolvedValue([]);
+      mockRepository.getGroupPolicies.mockResolvedValue([policy('group-policy')]);
+      mockRepository.getRolePolicies.mockImplementation(async (roleId: string) => [policy(`${roleId}-policy`)]);
+      (evaluate as jest.Mock).mockReturnValue(true);
+
+      await accessControl.hasAccess('u1', 'read', 'document');
+
+      expect(mockRepository.getGroup).toHaveBeenCalledWith('g1');
+      expect(mockRepository.getGroupPolicies).toHaveBeenCalledWith('g1');
+      expect(evaluate).toHaveBeenCalledWith(
+        [policy('group-policy'), policy('viewer-policy'), policy('editor-policy')],
+        'read',
+        'document',
+        {},
+        user
+      );
+    });
+  });
+
+  describe('hasAccessBatch', () => {
+    it('should load the user\'s policies once and return a result per request in order', async () => {
+      const user: User = { id: 'u1', name: 'Test User', roles: ['viewer'], attributes: { department: 'sales' } };
+      const policy: Policy = {
+        id: 'p1',
+        document: { Version: '2023-10-17', Statement: [{ Effect: Effect.Allow, Action: ['read'], Resource: ['document/*'] }] }
+      };
+
+      mockRepository.getUser.mockResolvedValue(user);
+      mockRepository.getUserPolicies.mockResolvedValue([]);
+      mockRepository.getRole.mockResolvedValue({ id: 'viewer', name: 'Viewer' });
+      mockRepository.getRolePolicies.mockResolvedValue([policy]);
+      (evaluate as jest.Mock).mockReturnValueOnce(true).mockReturnValueOnce(false).mockReturnValueOnce(true);
+
+      const results = await accessControl.hasAccessBatch('u1', [
+        { action: 'read', resource: 'document/1' },
+        { action: 'delete', resource: 'document/1', context: { mfa: true } },
+        { action: 'read', resource: 'document/2' }
+      ]);
+
+      expect(results).toEqual([true, false, true]);
+      expect(mockRepository.getUser).toHaveBeenCalledTimes(1);
+      expect(mockRepository.getRolePolicies).toHaveBeenCalledTimes(1);
+      expect(evaluate).toHaveBeenCalledTimes(3);
+      expect(evaluate).toHaveBeenCalledWith(
+        [policy],
+        'delete',
+        'document/1',
+        { department: 'sales', mfa: true },
+        user
+      );
+    });
+
+    it('should return no results for no requests', async () => {
+      mockRepository.getUser.mockResolvedValue({ id: 'u1', name: 'Test User' });
+      mockRepository.getUserPolicies.mockResolvedValue([]);
+
+      expect(await accessControl.hasAccessBatch('u1', [])).toEqual([]);
+      expect(evaluate).not.toHaveBeenCalled();
+    });
+
+    it('should fail if the user does not exist', async () => {
+      mockRepository.getUser.mockRejectedValueOnce(new UserNotFoundError('u1'));
+
+      await expect(accessControl.hasAccessBatch('u1', [{ action: 'read', resource: 'document' }]))
+        .rejects.toThrow(UserNotFoundError);
+    });
+  });
+
+  describe('getAllowedActions', () => {
+    const user: User = { id: 'u1', name: 'Test User', attributes: { department: 'sales' } };
+
+    beforeEach(() => {
+      mockRepository.getUser.mockResolvedValue(user);
+      mockRepository.getUserPolicies.mockResolvedValue([]);
+      // Allows every action except delete
+      (evaluate as jest.Mock).mockImplementation((_policies, action) => action !== 'delete');
+    });
+
+    afterEach(() => {
+      (evaluate as jest.Mock).mockReset();
+    });
+
+    it('should return the actions named by statements that evaluate allows', async () => {
+      (collectStatementActions as jest.Mock).mockReturnValueOnce({ actions: ['read', 'delete', 'edit'], wildcard: false });
+
+      expect(await accessControl.getAllowedActions('u1', 'document/1', { mfa: true })).toEqual(['read', 'edit']);
+      expect(collectStatementActions).toHaveBeenCalledWith([], 'document/1', { department: 'sales', mfa: true }, user);
+      expect(evaluate).toHaveBeenCalledWith([], 'edit', 'document/1', { department: 'sales', mfa: true }, user);
+    });
+
+    it('should expand wildcard statements with the registered actions', async () => {
+      (collectStatementActions as jest.Mock).mockReturnValueOnce({ actions: ['read', 'export'], wildcard: true });
+      accessControl.registerActions(['read', 'edit', 'delete']);
+      accessControl.registerActions(['edit']);
+
+      expect(await accessControl.getAllowedActions('u1', 'document/1')).toEqual(['read', 'export', 'edit']);
+    });
+
+    it('should require registered actions to expand wildcard statements', async () => {
+      (collectStatementActions as jest.Mock).mockReturnValueOnce({ actions: ['read'], wildcard: true });
+
+      await expect(accessControl.getAllowedActions('u1', 'document/1')).rejects.toThrow(ValidationError);
+    });
+
+    it('should only check the candidate actions when given', async () => {
+      expect(await accessControl.getAllowedActions('u1', 'document/1', {}, ['delete', 'share'])).toEqual(['share']);
+      expect(collectStatementActions).not.toHaveBeenCalled();
+    });
+
+    it('should reject wildcards in the action catalog', () => {
+      expect(() => accessControl.registerActions(['read', 'document:*'])).toThrow(ValidationError);
+      expect(() => accessControl.registerActions([''])).toThrow(ValidationError);
+    });
+  });
+
+  describe('getResourceFilter', () => {
+    it('should partially evaluate the user\'s policies for the action and prefix', async () => {
+      const user: User = { id: 'u1', name: 'Test User', roles: ['viewer'], attributes: { department: 'sales' } };
+      const policy: Policy = {
+        id: 'p1',
+        document: { Version: '2023-10-17', Statement: [{ Effect: Effect.Allow, Action: ['read'], Resource: ['document/*'] }] }
+      };
+      const filter = { prefix: 'document/', allow: [{ resources: ['document/*'] }], deny: [], context: {} };
+
+      mockRepository.getUser.mockResolvedValue(user);
+      mockRepository.getUserPolicies.mockResolvedValue([]);
+      mockRepository.getRole.mockResolvedValue({ id: 'viewer', name: 'Viewer' });
+      mockRepository.getRolePolicies.mockResolvedValue([policy]);
+      (partialEvaluate as jest.Mock).mockReturnValueOnce(filter);
+
+      expect(await accessControl.getResourceFilter('u1', 'read', 'document/', { mfa: true })).toBe(filter);
+      expect(partialEvaluate).toHaveBeenCalledWith([policy], 'read', 'document/', { department: 'sales', mfa: true }, user);
+    });
+  });
+
+  describe('explainAccess', () => {
+    it('should annotate the evaluation trace with policy sources', async () => {
+      const userId = 'u1';
+      const user: User = { id: userId, name: 'Test User', roles: ['r1', 'r2'] };
+      const sharedPolicy: Policy = {
+        id: 'p1',
+        document: {
+          Version: '2023-10-17',
+          Statement: [{ Effect: Effect.Allow, Action: ['read'], Resource: ['document'] }]
+        }
+      };
+      const denyPolicy: Policy = {
+        id: 'p2',
+        document: {
+          Version: '2023-10-17',
+          Statement: [{ Effect: Effect.Deny, Action: ['read'], Resource: ['document'], Condition: { mfa: false } }]
+        }
+      };
+
+      mockRepository.getUser.mockResolvedValue(user);
+      mockRepository.getRole.mockImplementation(async (roleId: string) => ({ id: roleId, name: roleId }));
+      mockRepository.getUserPolicies.mockResolvedValue([sharedPolicy]);
+      mockRepository.getRolePolicies
+        .mockResolvedValueOnce([sharedPolicy])
+        .mockResolvedValueOnce([denyPolicy]);
+
+      (explain as jest.Mock).mockReturnValue({
+        allowed: true,
+        effect: Effect.Allow,
+        reason: DecisionReason.Allowed,
+        matchedStatements: [{ policyId: 'p1', statementIndex: 0, effect: Effect.Allow }],
+        skippedStatements: [{ policyId: 'p2', statementIndex: 0, effect: Effect.Deny, reason: SkipReason.ConditionNotMet }]
+      });
+
+      const decision = await accessControl.explainAccess(userId, 'read', 'document', { mfa: true });
+
+      // Each policy is evaluated once even if attached several times
+      expect(explain).toHaveBeenCalledWith([sharedPolicy, denyPolicy], 'read', 'document', { mfa: true }, user);
+      expect(decision).toEqual({
+        allowed: true,
+        effect: Effect.Allow,
+        reason: DecisionReason.Allowed,
+        userId,
+        action: 'read',
+        resource: 'document',
+        matchedStatements: [{
+          policyId: 'p1',
+          statementIndex: 0,
+          effect: Effect.Allow,
+          sources: [{ type: 'user', id: userId }, { type: 'role', id: 'r1' }]
+        }],
+        skippedStatements: [{
+          policyId: 'p2',
+          statementIndex: 0,
+          effect: Effect.Deny,
+          reason: SkipReason.ConditionNotMet,
+          sources: [{ type: 'role', id: 'r2' }]
+        }]
+      });
+    });
+    it('should report group attachments as sources', async () => {
+      const user: User = { id: 'u1', name: 'Test User', groups: ['g1'] };
+      const groupPolicy: Policy = {
+        id: 'p1',
+        document: {
+          Version: '2023-10-17',
+          Statement: [{ Effect: Effect.Allow, Action: ['read'], Resource: ['document'] }]
+        }
+      };
+      const roles: Record<string, Role> = {
+        editor: { id: 'editor', name: 'Editor', parentRoles: ['viewer'] },
+        viewer: { id: 'viewer', name: 'Viewer' }
+      };
+
+      mockRepository.getUser.mockResolvedValue(user);
+      mockRepository.getGroup.mockResolvedValue({ id: 'g1', name: 'Engineering', roles: ['editor'] });
+      mockRepository.getRole.mockImplementation(async (roleId: string) => roles[roleId]);
+      mockRepository.getUserPolicies.mockResolvedValue([]);
+      mockRepository.getGroupPolicies.mockResolvedValue([groupPolicy]);
+      mockRepository.getRolePolicies.mockImplementation(async (roleId: string) => roleId === 'viewer' ? [groupPolicy] : []);
+
+      (explain as jest.Mock).mockReturnValue({
+        allowed: true,
+        effect: Effect.Allow,
+        reason: DecisionReason.Allowed,
+        matchedStatements: [{ policyId: 'p1', statementIndex: 0, effect: Effect.Allow }],
+        skippedStatements: []
+      });
+
+      const decision = await accessControl.explainAccess('u1', 'read', 'document');
+
+      expect(decision.matchedStatements[0].sources).toEqual([
+        { type: 'group', id: 'g1' },
+        { type: 'role', id: 'viewer', via: 'editor', group: 'g1' }
+      ]);
+    });
+  });
+
+  describe('addParentRole', () => {
+    const roles: Record<string, Role> = {
+      admin: { id: 'admin', name: 'Admin', parentRoles: ['editor'] },
+      editor: { id: 'editor', name: 'Editor', parentRoles: ['viewer'] },
+      viewer: { id: 'viewer', name: 'Viewer' }
+    };
+
+    beforeEach(() => {
+      mockRepository.getRole.mockImplementation(async (roleId: string) => roles[roleId]);
+    });
+
+    it('should add a parent role via the repository', async () => {
+      await accessControl.addParentRole('admin', 'viewer');
+
+      expect(mockRepository.addParentRole).toHaveBeenCalledWith('admin', 'viewer');
+    });
+
+    it('should reject a role as its own parent', async () => {
+      await expect(accessControl.addParentRole('admin', 'admin')).rejects.toThrow('cycle');
+      expect(mockRepository.addParentRole).not.toHaveBeenCalled();
+    });
+
+    it('should reject parents that would create a cycle', async () => {
+      await expect(accessControl.addParentRole('viewer', 'admin')).rejects.toThrow('cycle');
+      await expect(accessControl.addParentRole('viewer', 'admin')).rejects.toBeInstanceOf(ValidationError);
+      expect(mockRepository.addParentRole).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeParentRole', () => {
+    it('should remove a parent role via the repository', async () => {
+      await accessControl.removeParentRole('editor', 'viewer');
+
+      expect(mockRepository.removeParentRole).toHaveBeenCalledWith('editor', 'viewer');
+    });
   });
 
   describe('updateRole', () => {
@@ -328,6 +832,18 @@ describe('AccessControl', () => {
       expect(mockRepository.updateRole).toHaveBeenCalledWith(mockRole);
       expect(result).toEqual(mockRole);
     });
+
+    it('should reject parent roles that would create a cycle', async () => {
+      const roles: Record<string, Role> = {
+        a: { id: 'a', name: 'A', parentRoles: ['b'] },
+        b: { id: 'b', name: 'B' }
+      };
+      mockRepository.getRole.mockImplementation(async (roleId: string) => roles[roleId]);
+
+      await expect(accessControl.updateRole({ ...roles.b, parentRoles: ['a'] })).rejects.toThrow('cycle');
+      await expect(accessControl.updateRole({ ...roles.b, parentRoles: ['b'] })).rejects.toThrow(ValidationError);
+      expect(mockRepository.updateRole).not.toHaveBeenCalled();
+    });
   });
 
   describe('updatePolicy', () => {
@@ -359,7 +875,13 @@ describe('AccessControl', () => {
       
       await accessControl.deletePolicy(policyId);
       
-      expect(mockRepository.deletePolicy).toHaveBeenCalledWith(policyId);
+      expect(mockRepository.deletePolicy).toHaveBeenCalledWith(policyId, {});
+    });
+
+    it('should pass the cascade option to the repository', async () => {
+      await accessControl.deletePolicy('p1', { cascade: true });
+
+      expect(mockRepository.deletePolicy).toHaveBeenCalledWith('p1', { cascade: true });
     });
   });
 
@@ -369,7 +891,13 @@ describe('AccessControl', () => {
       
       await accessControl.deleteRole(roleId);
       
-      expect(mockRepository.deleteRole).toHaveBeenCalledWith(roleId);
+      expect(mockRepository.deleteRole).toHaveBeenCalledWith(roleId, {});
+    });
+
+    it('should pass the cascade option to the repository', async () => {
+      await accessControl.deleteRole('r1', { cascade: true });
+
+      expect(mockRepository.deleteRole).toHaveBeenCalledWith('r1', { cascade: true });
     });
   });
 
@@ -405,4 +933,111 @@ describe('AccessControl', () => {
       expect(mockRepository.removeRoleFromUser).toHaveBeenCalledWith(userId, roleId);
     });
   });
-});
\ No newline at end of file
+
+  describe('createGroup', () => {
+    it('should create a group via the repository', async () => {
+      const mockGroup: Group = { id: 'g1', name: 'Engineering', members: ['u1'] };
+      mockRepository.createGroup.mockResolvedValue(mockGroup);
+
+      const result = await accessControl.createGroup(mockGroup);
+
+      expect(mockRepository.createGroup).toHaveBeenCalledWith(mockGroup);
+      expect(result).toEqual(mockGroup);
+    });
+  });
+
+  describe('addUserToGroup', () => {
+    it('should add a user to a group via the repository', async () => {
+      await accessControl.addUserToGroup('u1', 'g1');
+
+      expect(mockRepository.addUserToGroup).toHaveBeenCalledWith('u1', 'g1');
+    });
+  });
+
+  describe('assignRoleToGroup', () => {
+    it('should assign a role to a group via the repository', async () => {
+      await accessControl.assignRoleToGroup('g1', 'r1');
+
+      expect(mockRepository.assignRoleToGroup).toHaveBeenCalledWith('g1', 'r1');
+    });
+  });
+
+  describe('attachPolicyToGroup', () => {
+    it('should attach a policy to a group via the repository', async () => {
+      await accessControl.attachPolicyToGroup('p1', 'g1');
+
+      expect(mockRepository.attachPolicyToGroup).toHaveBeenCalledWith('p1', 'g1');
+    });
+  });
+
+  describe('reverse lookups', () => {
+    it('should find the users holding a role via the repository', async () => {
+      const mockUsers: User[] = [{ id: 'u1', name: 'Alice', roles: ['r1'] }];
+      mockRepository.getUsersWithRole.mockResolvedValue(mockUsers);
+
+      expect(await accessControl.getUsersWithRole('r1')).toEqual(mockUsers);
+      expect(mockRepository.getUsersWithRole).toHaveBeenCalledWith('r1');
+    });
+
+    it('should find the roles and users carrying a policy via the repository', async () => {
+      mockRepository.getRolesWithPolicy.mockResolvedValue([{ id: 'r1', name: 'Reader', policies: ['p1'] }]);
+      mockRepository.getUsersWithPolicy.mockResolvedValue([]);
+
+      expect(await accessControl.getRolesWithPolicy('p1')).toEqual([{ id: 'r1', name: 'Reader', policies: ['p1'] }]);
+      expect(await accessControl.getUsersWithPolicy('p1')).toEqual([]);
+      expect(mockRepository.getRolesWithPolicy).toHaveBeenCalledWith('p1');
+      expect(mockRepository.getUsersWithPolicy).toHaveBeenCalledWith('p1');
+    });
+  });
+
+  describe('listUsers', () => {
+    it('should list users via the repository', async () => {
+      const page = { items: [{ id: 'u1', name: 'Alice' }], nextCursor: 'u1' };
+      mockRepository.listUsers.mockResolvedValue(page);
+
+      const result = await accessControl.listUsers({ limit: 1, prefix: 'A' });
+
+      expect(mockRepository.listUsers).toHaveBeenCalledWith({ limit: 1, prefix: 'A' });
+      expect(result).toEqual(page);
+    });
+
+    it('should default to the first page', async () => {
+      mockRepository.listUsers.mockResolvedValue({ items: [] });
+
+      await accessControl.listUsers();
+
+      expect(mockRepository.listUsers).toHaveBeenCalledWith({});
+    });
+
+    it('should reject invalid page sizes', async () => {
+      await expect(accessControl.listRoles({ limit: 0 })).rejects.toBeInstanceOf(ValidationError);
+      await expect(accessControl.listPolicies({ limit: 2.5 })).rejects.toThrow('Invalid page size: 2.5');
+      expect(mockRepository.listRoles).not.toHaveBeenCalled();
+      expect(mockRepository.listPolicies).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeExpiredAssignments', () => {
+    it('should remove expired role assignments and policy attachments from every page', async () => {
+      const expired = { endDate: '2020-01-01T00:00:00.000Z' };
+      const current = { endDate: '2999-01-01T00:00:00.000Z' };
+      mockRepository.listUsers
+        .mockResolvedValueOnce({ items: [{ id: 'u1', name: 'Alice', roles: ['r1', 'r2'], roleValidity: { r1: expired, r2: current } }], nextCursor: 'u1' })
+        .mockResolvedValueOnce({ items: [{ id: 'u2', name: 'Bob', policies: ['p1'], policyValidity: { p1: expired } }] });
+      mockRepository.listRoles.mockResolvedValueOnce({ items: [{ id: 'r1', name: 'Reader', policies: ['p1', 'p2'], policyValidity: { p2: expired } }] });
+
+      const removed = await accessControl.removeExpiredAssignments();
+
+      expect(mockRepository.listUsers).toHaveBeenLastCalledWith({ cursor: 'u1' });
+      expect(mockRepository.removeRoleFromUser).toHaveBeenCalledWith('u1', 'r1');
+      expect(mockRepository.detachPolicyFromUser).toHaveBeenCalledWith('p1', 'u2');
+      expect(mockRepository.detachPolicyFromRole).toHaveBeenCalledWith('p2', 'r1');
+      expect(mockRepository.removeRoleFromUser).toHaveBeenCalledTimes(1);
+      expect(removed).toEqual([
+        { type: 'role', id: 'r1', target: { type: 'user', id: 'u1' }, validity: expired },
+        { type: 'policy', id: 'p1', target: { type: 'user', id: 'u2' }, validity: expired },
+        { type: 'policy', id: 'p2', target: { type: 'role', id: 'r1' }, validity: expired }
+      ]);
+    });
+  });
+});
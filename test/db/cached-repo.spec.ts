@@ -0,0 +1,220 @@
+import { AccessControl } from '../../core';
+import { CachedRepository } from '../../db/cached-repo';
+import { InMemoryRepository } from '../../db/in-memory-repo';
+import { MemoryCacheStore } from '../../cache/store';
+import { runRepositoryConformanceTests } from '../../testing';
+import { Effect, Policy } from '../../models';
+
+describe('CachedRepository', () => {
+  const readPolicy: Policy = {
+    id: 'p1',
+    document: {
+      Version: '2023-10-17',
+      Statement: [{ Effect: Effect.Allow, Action: ['read'], Resource: ['document/*'] }]
+    }
+  };
+
+  let inner: InMemoryRepository;
+  let store: MemoryCacheStore;
+  let repository: CachedRepository;
+
+  beforeEach(async () => {
+    inner = new InMemoryRepository();
+    store = new MemoryCacheStore();
+    repository = new CachedRepository(inner, { store, decisionTtl: 1000 });
+    await repository.createPolicy(readPolicy);
+    await repository.createRole({ id: 'r1', name: 'Reader', policies: ['p1'] });
+    await repository.createUser({ id: 'u1', name: 'Alice', roles: ['r1'] });
+  });
+
+  runRepositoryConformanceTests(() => new CachedRepository(new InMemoryRepository(), { decisionTtl: 1000 }));
+
+  it('should serve repeated reads from the cache', async () => {
+    const getUser = jest.spyOn(inner, 'getUser');
+    const getRole = jest.spyOn(inner, 'getRole');
+    const getPolicy = jest.spyOn(inner, 'getPolicy');
+
+    await repository.getEffectivePolicies('u1');
+    const { policies } = await repository.getEffectivePolicies('u1');
+
+    expect(policies.map(({ policy }) => policy)).toEqual([readPolicy]);
+    expect(getUser).toHaveBeenCalledTimes(1);
+    expect(getRole).toHaveBeenCalledTimes(1);
+    expect(getPolicy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return copies of cached entities', async () => {
+    const user = await repository.getUser('u1');
+    user.roles!.push('admin');
+
+    expect((await repository.getUser('u1')).roles).toEqual(['r1']);
+  });
+
+  it('should only read the entities a change affected again', async () => {
+    await repository.getEffectivePolicies('u1');
+    const getUser = jest.spyOn(inner, 'getUser');
+    const getRole = jest.spyOn(inner, 'getRole');
+
+    await repository.updatePolicy({ ...readPolicy, document: { ...readPolicy.document, Statement: [] } });
+    const { policies } = await repository.getEffectivePolicies('u1');
+
+    expect(policies[0].policy.document.Statement).toEqual([]);
+    expect(getUser).not.toHaveBeenCalled();
+    expect(getRole).not.toHaveBeenCalled();
+  });
+
+  it('should invalidate both sides of a group membership', async () => {
+    await repository.createGroup({ id: 'g1', name: 'Staff' });
+    await repository.getUser('u1');
+    await repository.getGroup('g1');
+
+    await repository.addUserToGroup('u1', 'g1');
+
+    expect((await repository.getUser('u1')).groups).toEqual(['g1']);
+    expect((await repository.getGroup('g1')).members).toEqual(['u1']);
+
+    await repository.deleteUser('u1');
+
+    expect((await repository.getGroup('g1')).members).toEqual([]);
+  });
+
+  it('should invalidate every cached entity on a cascading delete', async () => {
+    await repository.createGroup({ id: 'g1', name: 'Staff', roles: ['r1'] });
+    await repository.getGroup('g1');
+    await repository.getUser('u1');
+
+    await repository.deleteRole('r1', { cascade: true });
+
+    expect((await repository.getGroup('g1')).roles).toEqual([]);
+    expect((await repository.getUser('u1')).roles).toEqual([]);
+  });
+
+  it('should invalidate entities even if a change fails', async () => {
+    await repository.getRole('r1');
+    jest.spyOn(inner, 'updateRole').mockImplementationOnce(async role => {
+      await inner.updateRole(role);
+      throw new Error('lost connection');
+    });
+
+    await expect(repository.updateRole({ id: 'r1', name: 'Renamed', policies: ['p1'] })).rejects.toThrow('lost connection');
+
+    expect((await repository.getRole('r1')).name).toBe('Renamed');
+  });
+
+  it('should share cached entities and invalidations through the store', async () => {
+    const other = new CachedRepository(inner, { store });
+    await other.getUser('u1');
+
+    await repository.createRole({ id: 'r2', name: 'Editor' });
+    await repository.assignRoleToUser('u1', 'r2');
+
+    expect((await other.getUser('u1')).roles).toEqual(['r1', 'r2']);
+  });
+
+  it('should start over when the generation is evicted from the store', async () => {
+    const smallStore = new MemoryCacheStore({ maxEntries: 2 });
+    const cached = new CachedRepository(inner, { store: smallStore });
+    await cached.getUser('u1');
+    await inner.updateUser({ id: 'u1', name: 'Alice Smith', roles: ['r1'] });
+
+    // Evicts the generation key and the cached user
+    await smallStore.set('other-1', 'x');
+    await smallStore.set('other-2', 'x');
+
+    expect((await cached.getUser('u1')).name).toBe('Alice Smith');
+  });
+
+  describe('decisions', () => {
+    it('should not cache decisions without a decisionTtl', async () => {
+      const cached = new CachedRepository(inner, { store });
+
+      await cached.setDecision('u1', 'read', 'document/1', {}, true);
+
+      expect(await cached.getDecision('u1', 'read', 'document/1', {})).toBeUndefined();
+    });
+
+    it('should key decisions by request, regardless of the order of context keys', async () => {
+      await repository.setDecision('u1', 'read', 'document/1', { a: 1, b: { c: 2, d: 3 } }, true);
+
+      expect(await repository.getDecision('u1', 'read', 'document/1', { b: { d: 3, c: 2 }, a: 1 })).toBe(true);
+      expect(await repository.getDecision('u1', 'read', 'document/1', { a: 2, b: { c: 2, d: 3 } })).toBeUndefined();
+      expect(await repository.getDecision('u1', 'read', 'document/2', { a: 1, b: { c: 2, d: 3 } })).toBeUndefined();
+    });
+
+    it('should expire decisions after the decisionTtl', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      try {
+        await repository.setDecision('u1', 'read', 'document/1', {}, false);
+
+        now.mockReturnValue(2000);
+        expect(await repository.getDecision('u1', 'read', 'document/1', {})).toBeUndefined();
+      } finally {
+        now.mockRestore();
+      }
+    });
+
+    it('should invalidate all decisions on any change', async () => {
+      await repository.setDecision('u1', 'read', 'document/1', {}, true);
+
+      await repository.createRole({ id: 'r2', name: 'Unrelated' });
+
+      expect(await repository.getDecision('u1', 'read', 'document/1', {})).toBeUndefined();
+    });
+  });
+
+  describe('with AccessControl', () => {
+    let accessControl: AccessControl<InMemoryRepository>;
+
+    beforeEach(async () => {
+      accessControl = new AccessControl({}, InMemoryRepository, { cache: { decisionTtl: 1000 } });
+      await accessControl.createPolicy(readPolicy);
+      await accessControl.createRole({ id: 'r1', name: 'Reader' });
+      await accessControl.createUser({ id: 'u1', name: 'Alice', roles: ['r1'] });
+    });
+
+    it('should cache decisions and invalidate them when permissions change', async () => {
+      expect(await accessControl.hasAccess('u1', 'read', 'document/1')).toBe(false);
+
+      await accessControl.attachPolicyToRole('p1', 'r1');
+      expect(await accessControl.hasAccess('u1', 'read', 'document/1')).toBe(true);
+
+      await accessControl.removeRoleFromUser('u1', 'r1');
+      expect(await accessControl.hasAccess('u1', 'read', 'document/1')).toBe(false);
+    });
+
+    it('should answer repeated checks from the decision cache', async () => {
+      await accessControl.attachPolicyToRole('p1', 'r1');
+      expect(await accessControl.hasAccess('u1', 'read', 'document/1')).toBe(true);
+
+      const getEffectivePolicies = jest.spyOn(CachedRepository.prototype, 'getEffectivePolicies');
+      try {
+        expect(await accessControl.hasAccess('u1', 'read', 'document/1')).toBe(true);
+        expect(getEffectivePolicies).not.toHaveBeenCalled();
+      } finally {
+        getEffectivePolicies.mockRestore();
+      }
+    });
+
+    it('should answer batch checks from the decision cache and cache their decisions', async () => {
+      await accessControl.attachPolicyToRole('p1', 'r1');
+      expect(await accessControl.hasAccess('u1', 'read', 'document/1')).toBe(true);
+
+      const getEffectivePolicies = jest.spyOn(CachedRepository.prototype, 'getEffectivePolicies');
+      try {
+        expect(await accessControl.hasAccessBatch('u1', [{ action: 'read', resource: 'document/1' }])).toEqual([true]);
+        expect(getEffectivePolicies).not.toHaveBeenCalled();
+
+        expect(await accessControl.hasAccessBatch('u1', [
+          { action: 'read', resource: 'document/2' },
+          { action: 'read', resource: 'document/3' }
+        ])).toEqual([true, true]);
+        expect(getEffectivePolicies).toHaveBeenCalledTimes(1);
+
+        expect(await accessControl.hasAccess('u1', 'read', 'document/3')).toBe(true);
+        expect(getEffectivePolicies).toHaveBeenCalledTimes(1);
+      } finally {
+        getEffectivePolicies.mockRestore();
+      }
+    });
+  });
+});
@@ -0,0 +1,464 @@
+import { CreateTableCommand, DeleteTableCommand, DescribeTableCommand, DynamoDBClient, UpdateTableCommand } from '@aws-sdk/client-dynamodb';
+import { BatchGetCommand, BatchWriteCommand, DeleteCommand, DynamoDBDocumentClient, GetCommand, PutCommand, QueryCommand, ScanCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBRepository } from '../../db/dynamodb-repo';
+import { AccessControl } from '../../core';
+import { EntityInUseError, PolicyNotFoundError, RepositoryUnavailableError, RoleNotFoundError } from '../../errors';
+import { runRepositoryConformanceTests } from '../../testing';
+
+describe('DynamoDBRepository setupTables', () => {
+  const client = new DynamoDBClient({ region: 'local', credentials: { accessKeyId: 'local', secretAccessKey: 'local' } });
+  const send = jest.spyOn(client, 'send');
+  let documentSend: jest.SpyInstance;
+
+  beforeAll(() => {
+    // Restored by the suite below, which spies on the same method
+    documentSend = jest.spyOn(DynamoDBDocumentClient.prototype, 'send');
+  });
+
+  beforeEach(() => {
+    send.mockReset();
+    documentSend.mockReset();
+    documentSend.mockResolvedValue({ Item: { PK: 'SCHEMA', SK: 'SCHEMA', version: 1 } });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    client.destroy();
+  });
+
+  /**
+   * Answers DescribeTable as for a table that does not exist until CreateTable is sent
+   */
+  const mockNewTable = () => {
+    let created = false;
+    send.mockImplementation(async (command: any) => {
+      if (command instanceof CreateTableCommand) {
+        created = true;
+      } else if (command instanceof DescribeTableCommand && !created) {
+        throw Object.assign(new Error('missing'), { name: 'ResourceNotFoundException' });
+      }
+      return { Table: { TableStatus: 'ACTIVE', GlobalSecondaryIndexes: [{ IndexName: 'TypeIndex' }] } };
+    });
+  };
+
+  it('should create the table with the type index', async () => {
+    mockNewTable();
+
+    await new DynamoDBRepository(client).setupTables();
+
+    const create = send.mock.calls[1][0] as CreateTableCommand;
+    expect(create).toBeInstanceOf(CreateTableCommand);
+    expect(create.input.GlobalSecondaryIndexes).toEqual([expect.objectContaining({
+      IndexName: 'TypeIndex',
+      KeySchema: [{ AttributeName: 'type', KeyType: 'HASH' }, { AttributeName: 'PK', KeyType: 'RANGE' }]
+    })]);
+  });
+
+  it('should record the schema version of a created table so it is never backfilled', async () => {
+    mockNewTable();
+    const items = new Map<string, Record<string, any>>();
+    documentSend.mockImplementation(async (command: any) => {
+      if (command instanceof PutCommand) {
+        items.set(command.input.Item!.PK, command.input.Item!);
+      }
+      return command instanceof GetCommand ? { Item: items.get(command.input.Key!.PK) } : {};
+    });
+
+    await new DynamoDBRepository(client).setupTables();
+    await new DynamoDBRepository(client).setupTables();
+
+    expect(items.get('SCHEMA')).toEqual({ PK: 'SCHEMA', SK: 'SCHEMA', version: 1 });
+    expect(documentSend.mock.calls.filter(([command]) => command instanceof ScanCommand)).toEqual([]);
+  });
+
+  it('should add the type index to an existing table', async () => {
+    send.mockImplementation(async () => ({ Table: { TableName: 'Access-Control' } }));
+
+    await new DynamoDBRepository(client).setupTables();
+
+    const update = send.mock.calls[1][0] as UpdateTableCommand;
+    expect(update).toBeInstanceOf(UpdateTableCommand);
+    expect(update.input.GlobalSecondaryIndexUpdates).toEqual([{ Create: expect.objectContaining({ IndexName: 'TypeIndex' }) }]);
+  });
+
+  it('should leave a table with the type index unchanged', async () => {
+    send.mockImplementation(async () => ({ Table: { GlobalSecondaryIndexes: [{ IndexName: 'TypeIndex' }] } }));
+
+    await new DynamoDBRepository(client).setupTables();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(documentSend).toHaveBeenCalledTimes(1);
+  });
+
+  it('should backfill the relationship items of a table written by an earlier version', async () => {
+    send.mockImplementation(async () => ({ Table: { GlobalSecondaryIndexes: [{ IndexName: 'TypeIndex' }] } }));
+    documentSend.mockImplementation(async (command: any) => {
+      if (command instanceof ScanCommand) {
+        return command.input.ExclusiveStartKey
+          ? { Items: [{ PK: 'GROUP#g1', SK: 'GROUP#g1', type: 'GROUP', roles: ['r1'], policies: [] }] }
+          : {
+            Items: [
+              { PK: 'USER#u1', SK: 'USER#u1', type: 'USER', roles: ['r1'], policies: ['p1'], groups: ['g1'] },
+              { PK: 'ROLE#r1', SK: 'ROLE#r1', type: 'ROLE', policies: ['p1'], parentRoles: new Set(['r0']) },
+              { PK: 'POLICY#p1', SK: 'POLICY#p1', type: 'POLICY', document: {} }
+            ],
+            LastEvaluatedKey: { PK: 'POLICY#p1', SK: 'POLICY#p1' }
+          };
+      }
+      return {};
+    });
+
+    await new DynamoDBRepository(client).setupTables();
+
+    const commands = documentSend.mock.calls.map(([command]) => command);
+    expect(commands.filter(command => command instanceof ScanCommand).map(command => command.input)).toEqual([
+      { TableName: 'Access-Control', FilterExpression: 'PK = SK', ExclusiveStartKey: undefined },
+      { TableName: 'Access-Control', FilterExpression: 'PK = SK', ExclusiveStartKey: { PK: 'POLICY#p1', SK: 'POLICY#p1' } }
+    ]);
+    expect(commands.filter(command => command instanceof BatchWriteCommand)
+      .flatMap(command => command.input.RequestItems!['Access-Control'].map((request: any) => request.PutRequest.Item))).toEqual([
+      { PK: 'ROLE#r1', SK: 'USER#u1' },
+      { PK: 'POLICY#p1', SK: 'USER#u1' },
+      { PK: 'POLICY#p1', SK: 'ROLE#r1' },
+      { PK: 'ROLE#r0', SK: 'CHILD#r1' },
+      { PK: 'ROLE#r1', SK: 'GROUP#g1' }
+    ]);
+    const schema = commands[commands.length - 1] as PutCommand;
+    expect(schema).toBeInstanceOf(PutCommand);
+    expect(schema.input.Item).toEqual({ PK: 'SCHEMA', SK: 'SCHEMA', version: 1 });
+  });
+
+  it('should write at most 25 relationship items per request and send unprocessed items again', async () => {
+    const roleIds = Array.from({ length: 30 }, (_, i) => `r${i}`);
+    let writes = 0;
+    documentSend.mockImplementation(async (command: any) => {
+      if (command instanceof ScanCommand) {
+        return { Items: [{ PK: 'USER#u1', SK: 'USER#u1', type: 'USER', roles: roleIds }] };
+      }
+      if (command instanceof BatchWriteCommand && writes++ === 0) {
+        return { UnprocessedItems: { 'Access-Control': command.input.RequestItems!['Access-Control'].slice(20) } };
+      }
+      return {};
+    });
+
+    await new DynamoDBRepository(client).backfillRelations();
+
+    expect(documentSend.mock.calls.filter(([command]) => command instanceof BatchWriteCommand)
+      .map(([command]) => command.input.RequestItems['Access-Control'].length)).toEqual([25, 5, 5]);
+  });
+});
+
+describe('DynamoDBRepository relationship items', () => {
+  const client = new DynamoDBClient({ region: 'local', credentials: { accessKeyId: 'local', secretAccessKey: 'local' } });
+  const send = jest.spyOn(DynamoDBDocumentClient.prototype, 'send');
+  let repository: DynamoDBRepository;
+
+  beforeEach(() => {
+    send.mockReset();
+    repository = new DynamoDBRepository(client);
+  });
+
+  afterAll(() => {
+    send.mockRestore();
+    client.destroy();
+  });
+
+  it('should write the relationship item in the same transaction as the assignment', async () => {
+    send.mockImplementation(async (command: any) =>
+      command instanceof GetCommand ? { Item: { PK: 'USER#u1', name: 'Alice', roles: ['r0'] } } : {});
+
+    await repository.assignRoleToUser('u1', 'r1');
+
+    const transaction = send.mock.calls[1][0] as TransactWriteCommand;
+    expect(transaction).toBeInstanceOf(TransactWriteCommand);
+    expect(transaction.input.TransactItems).toEqual([
+      {
+        ConditionCheck: {
+          TableName: 'Access-Control',
+          Key: { PK: 'ROLE#r1', SK: 'ROLE#r1' },
+          ConditionExpression: 'attribute_exists(PK)'
+        }
+      },
+      { Update: expect.objectContaining({ Key: { PK: 'USER#u1', SK: 'USER#u1' } }) },
+      { Put: { TableName: 'Access-Control', Item: { PK: 'ROLE#r1', SK: 'USER#u1' } } }
+    ]);
+  });
+
+  it('should fail to assign a role deleted before the transaction', async () => {
+    send.mockImplementation(async (command: any) => {
+      if (command instanceof TransactWriteCommand) {
+        throw Object.assign(new Error('cancelled'), {
+          name: 'TransactionCanceledException',
+          CancellationReasons: [{ Code: 'ConditionalCheckFailed' }, { Code: 'None' }, { Code: 'None' }]
+        });
+      }
+      return command instanceof GetCommand ? { Item: { PK: 'GROUP#g1', name: 'Staff', roles: [] } } : {};
+    });
+
+    await expect(repository.assignRoleToUser('u1', 'r1')).rejects.toBeInstanceOf(RoleNotFoundError);
+    await expect(repository.assignRoleToGroup('g1', 'r1')).rejects.toThrow('Role not found: r1');
+  });
+
+  it('should delete the relationship items of removed attachments', async () => {
+    send.mockImplementation(async (command: any) =>
+      command instanceof GetCommand ? { Item: { PK: 'ROLE#r1', name: 'Reader', policies: ['p1', 'p2'] } } : {});
+
+    await repository.updateRole({ id: 'r1', name: 'Reader', policies: ['p2', 'p3'] });
+
+    const transaction = send.mock.calls[1][0] as TransactWriteCommand;
+    expect(transaction.input.TransactItems?.slice(1)).toEqual([
+      { Put: { TableName: 'Access-Control', Item: { PK: 'POLICY#p3', SK: 'ROLE#r1' } } },
+      { Delete: { TableName: 'Access-Control', Key: { PK: 'POLICY#p1', SK: 'ROLE#r1' } } }
+    ]);
+  });
+
+  it('should refuse to delete a policy with relationship items', async () => {
+    send.mockImplementation(async (command: any) =>
+      command instanceof QueryCommand && command.input.ExpressionAttributeValues?.[':holder'] === 'ROLE#'
+        ? { Items: [{ PK: 'POLICY#p1', SK: 'ROLE#r1' }] }
+        : { Items: [] });
+
+    await expect(repository.deletePolicy('p1')).rejects.toMatchObject({
+      name: 'EntityInUseError',
+      references: [{ entityType: 'Role', entityId: 'r1' }]
+    });
+    expect(send.mock.calls.some(([command]) => command instanceof TransactWriteCommand)).toBe(false);
+  });
+
+  it('should find and protect assignments of a table written by an earlier version once it is backfilled', async () => {
+    // Entity items as written before relationship items were kept
+    const table = new Map<string, Record<string, any>>([
+      ['USER#u1', { PK: 'USER#u1', SK: 'USER#u1', type: 'USER', name: 'Alice', roles: ['r1'], policies: ['p1'], groups: [] }],
+      ['ROLE#r1', { PK: 'ROLE#r1', SK: 'ROLE#r1', type: 'ROLE', name: 'Reader', policies: ['p1'] }],
+      ['POLICY#p1', { PK: 'POLICY#p1', SK: 'POLICY#p1', type: 'POLICY', document: { Version: '2023-10-17', Statement: [] } }]
+    ].map(([key, item]) => [`${key}|${key}`, item as Record<string, any>]));
+    const put = (item: Record<string, any>) => table.set(`${item.PK}|${item.SK}`, item);
+    send.mockImplementation(async (command: any) => {
+      const { input } = command;
+      if (command instanceof GetCommand) {
+        return { Item: table.get(`${input.Key.PK}|${input.Key.SK}`) };
+      }
+      if (command instanceof QueryCommand) {
+        const { ':pk': pk, ':holder': holder } = input.ExpressionAttributeValues;
+        return { Items: Array.from(table.values()).filter(item => item.PK === pk && item.SK.startsWith(holder)) };
+      }
+      if (command instanceof ScanCommand) {
+        return { Items: Array.from(table.values()).filter(item => item.PK === item.SK) };
+      }
+      if (command instanceof BatchWriteCommand) {
+        input.RequestItems['Access-Control'].forEach((request: any) => put(request.PutRequest.Item));
+      } else if (command instanceof PutCommand) {
+        put(input.Item);
+      }
+      return {};
+    });
+
+    expect(await repository.getUsersWithRole('r1')).toEqual([]);
+
+    await repository.backfillRelations();
+
+    expect((await repository.getUsersWithRole('r1')).map(user => user.id)).toEqual(['u1']);
+    expect((await repository.getRolesWithPolicy('p1')).map(role => role.id)).toEqual(['r1']);
+    await expect(repository.deleteRole('r1')).rejects.toBeInstanceOf(EntityInUseError);
+    await expect(repository.deletePolicy('p1')).rejects.toMatchObject({
+      references: [{ entityType: 'User', entityId: 'u1' }, { entityType: 'Role', entityId: 'r1' }]
+    });
+  });
+
+  it('should query the partition of the role for its users', async () => {
+    send.mockImplementation(async (command: any) => command instanceof QueryCommand
+      ? { Items: [{ PK: 'ROLE#r1', SK: 'USER#u1' }] }
+      : { Item: { PK: 'USER#u1', name: 'Alice', roles: ['r1'] } });
+
+    expect(await repository.getUsersWithRole('r1')).toEqual([{ id: 'u1', name: 'Alice', roles: ['r1'], policies: undefined, groups: undefined, attributes: {} }]);
+    expect((send.mock.calls[0][0] as QueryCommand).input).toMatchObject({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :holder)',
+      ExpressionAttributeValues: { ':pk': 'ROLE#r1', ':holder': 'USER#' }
+    });
+  });
+});
+
+describe('DynamoDBRepository batched reads', () => {
+  const client = new DynamoDBClient({ region: 'local', credentials: { accessKeyId: 'local', secretAccessKey: 'local' } });
+  let send: jest.SpyInstance;
+  const policyItem = (id: string) => ({
+    PK: `POLICY#${id}`,
+    SK: `POLICY#${id}`,
+    document: { Version: '2023-10-17', Statement: [{ Effect: 'Allow', Action: ['read'], Resource: [`document/${id}`] }] }
+  });
+  let items: Map<string, Record<string, any>>;
+
+  // Serves GetItem and BatchGetItem from the items map, leaving keys unprocessed as requested
+  const serve = (unprocessed: (keys: Record<string, any>[]) => Record<string, any>[] = () => []) =>
+    send.mockImplementation(async (command: any) => {
+      if (command instanceof GetCommand) {
+        return { Item: items.get(command.input.Key!.PK) };
+      }
+      const keys: Record<string, any>[] = command.input.RequestItems['Access-Control'].Keys;
+      const skipped = unprocessed(keys);
+      return {
+        Responses: { 'Access-Control': keys.filter(key => !skipped.includes(key) && items.has(key.PK)).map(key => items.get(key.PK)) },
+        UnprocessedKeys: skipped.length > 0 ? { 'Access-Control': { Keys: skipped } } : {}
+      };
+    });
+  const batchGets = () => send.mock.calls.filter(([command]) => command instanceof BatchGetCommand);
+
+  beforeAll(() => {
+    // Spied here, since the suite above restores the prototype when it finishes
+    send = jest.spyOn(DynamoDBDocumentClient.prototype, 'send');
+  });
+
+  beforeEach(() => {
+    send.mockReset();
+    items = new Map();
+  });
+
+  afterAll(() => {
+    send.mockRestore();
+    client.destroy();
+  });
+
+  it('should check access in a constant number of round trips', async () => {
+    const roleIds = ['r1', 'r2', 'r3', 'r4', 'r5'];
+    items.set('USER#u1', { PK: 'USER#u1', name: 'Alice', roles: roleIds, policies: [], groups: [] });
+    for (const roleId of roleIds) {
+      const policyIds = Array.from({ length: 10 }, (_, i) => `${roleId}-p${i}`);
+      items.set(`ROLE#${roleId}`, { PK: `ROLE#${roleId}`, name: roleId, policies: policyIds });
+      policyIds.forEach(policyId => items.set(`POLICY#${policyId}`, policyItem(policyId)));
+    }
+    serve();
+    const accessControl = new AccessControl(client, DynamoDBRepository);
+
+    expect(await accessControl.hasAccess('u1', 'read', 'document/r5-p9')).toBe(true);
+
+    // The user, their roles and all 50 policies
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(batchGets()).toHaveLength(2);
+  });
+
+  it('should read the role hierarchy one level at a time', async () => {
+    items.set('USER#u1', { PK: 'USER#u1', name: 'Alice', roles: ['r1'], groups: ['g1'] });
+    items.set('GROUP#g1', { PK: 'GROUP#g1', name: 'Staff', members: ['u1'], roles: ['r2'], policies: ['p2'] });
+    items.set('ROLE#r1', { PK: 'ROLE#r1', name: 'Reader', policies: ['p1'], parentRoles: new Set(['r0']) });
+    items.set('ROLE#r2', { PK: 'ROLE#r2', name: 'Writer', policies: ['p1'] });
+    items.set('ROLE#r0', { PK: 'ROLE#r0', name: 'Base', policies: [] });
+    ['p1', 'p2'].forEach(id => items.set(`POLICY#${id}`, policyItem(id)));
+    serve();
+
+    const { policies } = await new DynamoDBRepository(client).getEffectivePolicies('u1');
+
+    expect(policies.map(({ policy, source }) => [policy.id, source])).toEqual([
+      ['p2', { type: 'group', id: 'g1' }],
+      ['p1', { type: 'role', id: 'r1' }],
+      ['p1', { type: 'role', id: 'r2', group: 'g1' }]
+    ]);
+    // Groups, two levels of roles, and the policies once
+    expect(batchGets().map(([command]) => (command as BatchGetCommand).input.RequestItems!['Access-Control'].Keys!.map(key => key.PK)))
+      .toEqual([['GROUP#g1'], ['ROLE#r1', 'ROLE#r2'], ['ROLE#r0'], ['POLICY#p2', 'POLICY#p1']]);
+  });
+
+  it('should split batches into requests of at most 100 keys', async () => {
+    const policyIds = Array.from({ length: 150 }, (_, i) => `p${i}`);
+    items.set('USER#u1', { PK: 'USER#u1', name: 'Alice', policies: policyIds });
+    policyIds.forEach(id => items.set(`POLICY#${id}`, policyItem(id)));
+    serve();
+
+    const policies = await new DynamoDBRepository(client).getUserPolicies('u1');
+
+    expect(policies.map(policy => policy.id)).toEqual(policyIds);
+    expect(batchGets().map(([command]) => (command as BatchGetCommand).input.RequestItems!['Access-Control'].Keys!.length))
+      .toEqual([100, 50]);
+  });
+
+  it('should request unprocessed keys again', async () => {
+    items.set('ROLE#r1', { PK: 'ROLE#r1', name: 'Reader', policies: ['p1', 'p2', 'p3'] });
+    ['p1', 'p2', 'p3'].forEach(id => items.set(`POLICY#${id}`, policyItem(id)));
+    let calls = 0;
+    serve(keys => calls++ === 0 ? keys.slice(1) : []);
+
+    const policies = await new DynamoDBRepository(client).getRolePolicies('r1');
+
+    expect(policies.map(policy => policy.id)).toEqual(['p1', 'p2', 'p3']);
+    expect(batchGets()).toHaveLength(2);
+  });
+
+  it('should give up when keys stay unprocessed', async () => {
+    items.set('ROLE#r1', { PK: 'ROLE#r1', name: 'Reader', policies: ['p1'] });
+    serve(keys => keys);
+
+    await expect(new DynamoDBRepository(client).getRolePolicies('r1')).rejects.toBeInstanceOf(RepositoryUnavailableError);
+    expect(batchGets()).toHaveLength(6);
+  });
+
+  it('should fail for a policy that does not exist', async () => {
+    items.set('ROLE#r1', { PK: 'ROLE#r1', name: 'Reader', policies: ['missing'] });
+    serve();
+
+    await expect(new DynamoDBRepository(client).getRolePolicies('r1')).rejects.toBeInstanceOf(PolicyNotFoundError);
+  });
+});
+
+// Runs against DynamoDB Local when DYNAMODB_ENDPOINT is set, e.g.
+// DYNAMODB_ENDPOINT=http://localhost:8000 npm test
+const describeWithDatabase = process.env.DYNAMODB_ENDPOINT ? describe : describe.skip;
+
+describeWithDatabase('DynamoDBRepository', () => {
+  const client = new DynamoDBClient({
+    endpoint: process.env.DYNAMODB_ENDPOINT,
+    region: 'local',
+    credentials: { accessKeyId: 'local', secretAccessKey: 'local' }
+  });
+  const originalTableName = process.env.TABLE_NAME;
+  let tableCount = 0;
+
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+  afterAll(() => {
+    process.env.TABLE_NAME = originalTableName;
+    client.destroy();
+  });
+
+  it('should backfill the relationship items of a table written by an earlier version', async () => {
+    process.env.TABLE_NAME = `rbac-legacy-${Date.now()}`;
+    const repository = new DynamoDBRepository(client);
+    const docClient = DynamoDBDocumentClient.from(client);
+    await repository.setupTables();
+
+    try {
+      // Entity items as written before relationship items were kept, without a schema item
+      await docClient.send(new DeleteCommand({ TableName: process.env.TABLE_NAME, Key: { PK: 'SCHEMA', SK: 'SCHEMA' } }));
+      for (const item of [
+        { PK: 'USER#u1', SK: 'USER#u1', type: 'USER', name: 'Alice', roles: ['r1'], policies: ['p1'], groups: [] },
+        { PK: 'ROLE#r1', SK: 'ROLE#r1', type: 'ROLE', name: 'Reader', policies: ['p1'] },
+        { PK: 'ROLE#r2', SK: 'ROLE#r2', type: 'ROLE', name: 'Editor', policies: [], parentRoles: new Set(['r1']) },
+        { PK: 'POLICY#p1', SK: 'POLICY#p1', type: 'POLICY', document: { Version: '2023-10-17', Statement: [] } }
+      ]) {
+        await docClient.send(new PutCommand({ TableName: process.env.TABLE_NAME, Item: item }));
+      }
+
+      await repository.setupTables();
+
+      expect((await repository.getUsersWithRole('r1')).map(user => user.id)).toEqual(['u1']);
+      expect((await repository.getUsersWithPolicy('p1')).map(user => user.id)).toEqual(['u1']);
+      expect((await repository.getRolesWithPolicy('p1')).map(role => role.id)).toEqual(['r1']);
+      await expect(repository.deleteRole('r1')).rejects.toMatchObject({
+        references: expect.arrayContaining([{ entityType: 'User', entityId: 'u1' }, { entityType: 'Role', entityId: 'r2' }])
+      });
+      await expect(repository.deletePolicy('p1')).rejects.toBeInstanceOf(EntityInUseError);
+    } finally {
+      await client.send(new DeleteTableCommand({ TableName: process.env.TABLE_NAME }));
+    }
+  });
+
+  // Each test gets its own table, since the repository reads TABLE_NAME when constructed
+  runRepositoryConformanceTests(async () => {
+    process.env.TABLE_NAME = `rbac-conformance-${Date.now()}-${tableCount++}`;
+    const repository = new DynamoDBRepository(client);
+    await repository.setupTables();
+    return repository;
+  }, {
+    teardown: async () => {
+      await client.send(new DeleteTableCommand({ TableName: process.env.TABLE_NAME }));
+    }
+  });
+});
@@ -0,0 +1,130 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AccessControl } from '../../core';
+import { InMemoryRepository } from '../../db/in-memory-repo';
+import { runRepositoryConformanceTests } from '../../testing';
+import { Effect, Policy } from '../../models';
+import { GroupNotFoundError, RepositoryUnavailableError, RoleNotFoundError, ValidationError } from '../../errors';
+
+describe('InMemoryRepository', () => {
+  const readPolicy: Policy = {
+    id: 'p1',
+    document: {
+      Version: '2023-10-17',
+      Statement: [{ Effect: Effect.Allow, Action: ['read'], Resource: ['document/*'] }]
+    }
+  };
+
+  let repository: InMemoryRepository;
+
+  beforeEach(() => {
+    repository = new InMemoryRepository();
+  });
+
+  runRepositoryConformanceTests(() => new InMemoryRepository());
+
+  it('should store and return copies of users, roles and policies', async () => {
+    await repository.createUser({ id: 'u1', name: 'Alice' });
+    await repository.createRole({ id: 'r1', name: 'Reader' });
+    await repository.createPolicy(readPolicy);
+    await repository.attachPolicyToRole('p1', 'r1');
+    const user = await repository.assignRoleToUser('u1', 'r1');
+
+    expect(user).toEqual({ id: 'u1', name: 'Alice', roles: ['r1'], policies: [], groups: [], attributes: {} });
+    expect(await repository.getRole('r1')).toEqual({ id: 'r1', name: 'Reader', policies: ['p1'], parentRoles: [] });
+    expect(await repository.getRolePolicies('r1')).toEqual([readPolicy]);
+
+    user.roles!.push('r2');
+    expect((await repository.getUser('u1')).roles).toEqual(['r1']);
+  });
+
+  it('should throw typed errors for missing items', async () => {
+    await expect(repository.addParentRole('missing', 'r1')).rejects.toBeInstanceOf(RoleNotFoundError);
+    await expect(repository.updateGroup({ id: 'missing', name: 'Missing' })).rejects.toBeInstanceOf(GroupNotFoundError);
+  });
+
+  it('should work as the repository of AccessControl', async () => {
+    const accessControl = new AccessControl({}, InMemoryRepository);
+    await accessControl.init();
+    await accessControl.createUser({ id: 'u1', name: 'Alice' });
+    await accessControl.createRole({ id: 'viewer', name: 'Viewer' });
+    await accessControl.createRole({ id: 'editor', name: 'Editor' });
+    await accessControl.createPolicy(readPolicy);
+    await accessControl.attachPolicyToRole('p1', 'viewer');
+    await accessControl.addParentRole('editor', 'viewer');
+    await accessControl.createGroup({ id: 'g1', name: 'Engineering', members: ['u1'], roles: ['editor'] });
+
+    expect(await accessControl.hasAccess('u1', 'read', 'document/1')).toBe(true);
+    expect(await accessControl.hasAccess('u1', 'write', 'document/1')).toBe(false);
+  });
+
+  it('should not let the request context override stored attributes', async () => {
+    const accessControl = new AccessControl({}, InMemoryRepository);
+    await accessControl.createPolicy({
+      id: 'secret',
+      document: {
+        Version: '2023-10-17',
+        Statement: [{ Effect: Effect.Allow, Action: ['read'], Resource: ['report/*'], Condition: { StringEquals: { clearance: 'high' } } }]
+      }
+    });
+    await accessControl.createUser({ id: 'u1', name: 'Alice', attributes: { clearance: 'low' }, policies: ['secret'] });
+    await accessControl.createUser({ id: 'u2', name: 'Bob', policies: ['secret'] });
+
+    expect(await accessControl.hasAccess('u1', 'read', 'report/1', { clearance: 'high' })).toBe(false);
+    expect((await accessControl.explainAccess('u1', 'read', 'report/1', { clearance: 'high' })).allowed).toBe(false);
+    expect(await accessControl.hasAccess('u2', 'read', 'report/1', { clearance: 'high' })).toBe(true);
+  });
+
+  describe('snapshots', () => {
+    let directory: string;
+    let snapshotFile: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'rbac-engine-'));
+      snapshotFile = path.join(directory, 'snapshot.json');
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should start empty when the snapshot file does not exist', async () => {
+      repository = new InMemoryRepository({ snapshotFile });
+      await repository.setupTables();
+
+      expect(repository.getSnapshot()).toEqual({ users: [], roles: [], policies: [], groups: [] });
+    });
+
+    it('should save and load snapshots', async () => {
+      repository = new InMemoryRepository({ snapshotFile });
+      await repository.createPolicy(readPolicy);
+      await repository.createUser({ id: 'u1', name: 'Alice', policies: ['p1'] });
+      await repository.saveSnapshot();
+
+      const restored = new InMemoryRepository({ snapshotFile });
+      await restored.setupTables();
+
+      expect(await restored.getUserPolicies('u1')).toEqual([readPolicy]);
+    });
+
+    it('should save after every change with autoSave', async () => {
+      repository = new InMemoryRepository({ snapshotFile, autoSave: true });
+      await repository.createRole({ id: 'r1', name: 'Reader' });
+
+      const snapshot = JSON.parse(await fs.readFile(snapshotFile, 'utf8'));
+      expect(snapshot.roles).toEqual([{ id: 'r1', name: 'Reader', policies: [], parentRoles: [] }]);
+    });
+
+    it('should reject invalid snapshot files', async () => {
+      await fs.writeFile(snapshotFile, 'not json');
+      repository = new InMemoryRepository({ snapshotFile });
+
+      await expect(repository.setupTables()).rejects.toBeInstanceOf(RepositoryUnavailableError);
+    });
+
+    it('should require a snapshot file to save', async () => {
+      await expect(repository.saveSnapshot()).rejects.toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import Database from 'better-sqlite3';
+import { AccessControl } from '../../core';
+import { SqliteRepository } from '../../db/sqlite-repo';
+import { runRepositoryConformanceTests } from '../../testing';
+import { Effect, Policy } from '../../models';
+import { RepositoryUnavailableError, UserNotFoundError } from '../../errors';
+
+describe('SqliteRepository', () => {
+  const readPolicy: Policy = {
+    id: 'p1',
+    document: {
+      Version: '2023-10-17',
+      Statement: [{
+        Effect: Effect.Allow,
+        Action: ['read'],
+        Resource: ['document/*'],
+        Condition: { NumericLessThan: { amount: 1000 } },
+        StartDate: '2025-01-01T00:00:00Z'
+      }]
+    }
+  };
+
+  let db: Database.Database;
+  let repository: SqliteRepository;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    repository = new SqliteRepository(db);
+    await repository.setupTables();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  let conformanceDb: Database.Database;
+  runRepositoryConformanceTests(async () => {
+    conformanceDb = new Database(':memory:');
+    const conformanceRepository = new SqliteRepository(conformanceDb);
+    await conformanceRepository.setupTables();
+    return conformanceRepository;
+  }, { teardown: () => { conformanceDb.close(); } });
+
+  it('should cascade deletes to assignment tables', async () => {
+    await repository.createRole({ id: 'r1', name: 'Reader', policies: ['p1', 'p2'], parentRoles: ['r0'] });
+
+    await repository.deleteRole('r1');
+
+    expect(db.prepare('SELECT COUNT(*) AS count FROM rbac_role_policies').get()).toEqual({ count: 0 });
+    expect(db.prepare('SELECT COUNT(*) AS count FROM rbac_role_parents').get()).toEqual({ count: 0 });
+  });
+
+  it('should add the attributes column to a user table created without it', async () => {
+    const legacyDb = new Database(':memory:');
+    legacyDb.exec('CREATE TABLE rbac_users (id TEXT PRIMARY KEY, name TEXT NOT NULL)');
+    legacyDb.exec("INSERT INTO rbac_users (id, name) VALUES ('u1', 'Alice')");
+    const legacyRepository = new SqliteRepository(legacyDb);
+
+    await legacyRepository.setupTables();
+
+    expect((await legacyRepository.getUser('u1')).attributes).toEqual({});
+    await legacyRepository.updateUser({ id: 'u1', name: 'Alice', attributes: { region: 'eu' } });
+    expect((await legacyRepository.getUser('u1')).attributes).toEqual({ region: 'eu' });
+    legacyDb.close();
+  });
+
+  it('should add the validity columns to assignment tables created without them', async () => {
+    const legacyDb = new Database(':memory:');
+    legacyDb.exec('CREATE TABLE rbac_users (id TEXT PRIMARY KEY, name TEXT NOT NULL, attributes TEXT)');
+    legacyDb.exec('CREATE TABLE rbac_user_roles (user_id TEXT NOT NULL, role_id TEXT NOT NULL, PRIMARY KEY (user_id, role_id))');
+    legacyDb.exec("INSERT INTO rbac_users (id, name) VALUES ('u1', 'Alice')");
+    legacyDb.exec("INSERT INTO rbac_user_roles (user_id, role_id) VALUES ('u1', 'r1')");
+    const legacyRepository = new SqliteRepository(legacyDb);
+
+    await legacyRepository.setupTables();
+
+    expect((await legacyRepository.getUser('u1')).roles).toEqual(['r1']);
+    await legacyRepository.createRole({ id: 'r2', name: 'Editor' });
+    await legacyRepository.assignRoleToUser('u1', 'r2', { endDate: '2030-01-01T00:00:00.000Z' });
+    expect((await legacyRepository.getUser('u1')).roleValidity).toEqual({ r2: { endDate: '2030-01-01T00:00:00.000Z' } });
+    legacyDb.close();
+  });
+
+  it('should roll back a failed multi-row change', async () => {
+    await repository.createGroup({ id: 'g1', name: 'Staff' });
+    db.exec("CREATE TRIGGER reject_members BEFORE INSERT ON rbac_group_members BEGIN SELECT RAISE(ABORT, 'rejected'); END");
+
+    // The membership row is inserted last, after the user and role rows
+    await expect(repository.createUser({ id: 'u1', name: 'Alice', roles: ['r1'], groups: ['g1'] }))
+      .rejects.toBeInstanceOf(RepositoryUnavailableError);
+
+    await expect(repository.getUser('u1')).rejects.toBeInstanceOf(UserNotFoundError);
+    expect(db.prepare('SELECT COUNT(*) AS count FROM rbac_user_roles').get()).toEqual({ count: 0 });
+  });
+
+  it('should work as the repository of AccessControl', async () => {
+    const accessControl = new AccessControl(db, SqliteRepository);
+    await accessControl.createUser({ id: 'u1', name: 'Alice' });
+    await accessControl.createRole({ id: 'viewer', name: 'Viewer' });
+    await accessControl.createPolicy(readPolicy);
+    await accessControl.attachPolicyToRole('p1', 'viewer');
+    await accessControl.assignRoleToUser('u1', 'viewer');
+
+    expect(await accessControl.hasAccess('u1', 'read', 'document/1', { amount: 10 })).toBe(true);
+    expect(await accessControl.hasAccess('u1', 'read', 'document/1', { amount: 5000 })).toBe(false);
+  });
+});
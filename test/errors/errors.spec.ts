@@ -0,0 +1,53 @@
+import {
+  DuplicateEntityError,
+  EntityNotFoundError,
+  RbacError,
+  RepositoryUnavailableError,
+  RoleNotFoundError,
+  UserNotFoundError,
+  ValidationError,
+  toRepositoryError
+} from '../../errors';
+
+describe('Errors', () => {
+  it('should describe missing entities', () => {
+    const error = new UserNotFoundError('u1');
+
+    expect(error).toBeInstanceOf(EntityNotFoundError);
+    expect(error).toBeInstanceOf(RbacError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toMatchObject({ name: 'UserNotFoundError', entityType: 'User', entityId: 'u1', message: 'User not found: u1' });
+  });
+
+  it('should describe duplicate entities', () => {
+    const cause = new Error('duplicate key');
+    const error = new DuplicateEntityError('Role', 'r1', { cause });
+
+    expect(error).toMatchObject({ name: 'DuplicateEntityError', entityType: 'Role', entityId: 'r1', message: 'Role already exists: r1' });
+    expect(error.cause).toBe(cause);
+  });
+
+  it('should keep the entity ID of validation errors', () => {
+    const error = new ValidationError('Invalid parent role', 'r1');
+
+    expect(error).toBeInstanceOf(RbacError);
+    expect(error).toMatchObject({ name: 'ValidationError', entityId: 'r1' });
+  });
+
+  describe('toRepositoryError', () => {
+    it('should pass errors of this library through', () => {
+      const error = new RoleNotFoundError('r1');
+
+      expect(toRepositoryError(error)).toBe(error);
+    });
+
+    it('should wrap other errors with their cause', () => {
+      const cause = new Error('connect ECONNREFUSED');
+      const error = toRepositoryError(cause, 'u1');
+
+      expect(error).toBeInstanceOf(RepositoryUnavailableError);
+      expect(error.message).toBe('Repository request failed: connect ECONNREFUSED');
+      expect(error).toMatchObject({ entityId: 'u1', cause });
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { AccessControl } from '../../core';
+import { HookRegistry } from '../../events/hooks';
+import { InMemoryRepository } from '../../db/in-memory-repo';
+import { OperationVetoedError } from '../../errors';
+import { Effect, Policy } from '../../models';
+
+describe('HookRegistry', () => {
+  it('should run hooks in the order they were registered, until they are unregistered', async () => {
+    const hooks = new HookRegistry();
+    const calls: string[] = [];
+    hooks.after('roleRemoved', async () => { calls.push('first'); });
+    const unregister = hooks.after('roleRemoved', () => { calls.push('second'); });
+
+    await hooks.runAfter('roleRemoved', { roleId: 'r1', target: { type: 'user', id: 'u1' } }, {});
+    unregister();
+    await hooks.runAfter('roleRemoved', { roleId: 'r1', target: { type: 'user', id: 'u1' } }, {});
+
+    expect(calls).toEqual(['first', 'second', 'first']);
+  });
+
+  it('should veto when a before-hook returns false', async () => {
+    const hooks = new HookRegistry();
+    const later = jest.fn();
+    hooks.before('policyDeleted', () => undefined);
+    hooks.before('policyDeleted', async () => false);
+    hooks.before('policyDeleted', later);
+
+    await expect(hooks.runBefore('policyDeleted', { policyId: 'p1', cascade: false }, {}))
+      .rejects.toThrow(new OperationVetoedError('policyDeleted'));
+    expect(later).not.toHaveBeenCalled();
+  });
+});
+
+describe('AccessControl hooks', () => {
+  const readPolicy: Policy = {
+    id: 'p1',
+    document: {
+      Version: '2023-10-17',
+      Statement: [{ Effect: Effect.Allow, Action: ['read'], Resource: ['document/*'] }]
+    }
+  };
+
+  let accessControl: AccessControl<InMemoryRepository>;
+
+  beforeEach(async () => {
+    accessControl = new AccessControl({}, InMemoryRepository);
+    await accessControl.createPolicy(readPolicy);
+    await accessControl.createRole({ id: 'editor', name: 'Editor' });
+    await accessControl.createGroup({ id: 'staff', name: 'Staff' });
+  });
+
+  it('should run hooks around changes with typed payloads', async () => {
+    const events: [string, string, any][] = [];
+    const record = (event: string, phase: string) => (payload: any) => { events.push([event, phase, payload]); };
+    accessControl.hooks.before('userCreated', record('userCreated', 'before'));
+    accessControl.hooks.after('userCreated', record('userCreated', 'after'));
+    accessControl.hooks.after('roleAssigned', record('roleAssigned', 'after'));
+    accessControl.hooks.after('roleRemoved', record('roleRemoved', 'after'));
+    accessControl.hooks.after('policyAttached', record('policyAttached', 'after'));
+    accessControl.hooks.after('policyDetached', record('policyDetached', 'after'));
+    accessControl.hooks.after('policyUpdated', record('policyUpdated', 'after'));
+    accessControl.hooks.after('policyDeleted', record('policyDeleted', 'after'));
+
+    await accessControl.createUser({ id: 'alice', name: 'Alice' });
+    await accessControl.assignRoleToUser('alice', 'editor');
+    await accessControl.assignRoleToGroup('staff', 'editor');
+    await accessControl.removeRoleFromUser('alice', 'editor');
+    await accessControl.attachPolicyToRole('p1', 'editor');
+    await accessControl.detachPolicyFromRole('p1', 'editor');
+    await accessControl.updatePolicy(readPolicy);
+    await accessControl.deletePolicy('p1', { cascade: true });
+
+    expect(events).toEqual([
+      ['userCreated', 'before', { user: { id: 'alice', name: 'Alice' } }],
+      ['userCreated', 'after', { user: { id: 'alice', name: 'Alice' } }],
+      ['roleAssigned', 'after', { roleId: 'editor', target: { type: 'user', id: 'alice' } }],
+      ['roleAssigned', 'after', { roleId: 'editor', target: { type: 'group', id: 'staff' } }],
+      ['roleRemoved', 'after', { roleId: 'editor', target: { type: 'user', id: 'alice' } }],
+      ['policyAttached', 'after', { policyId: 'p1', target: { type: 'role', id: 'editor' } }],
+      ['policyDetached', 'after', { policyId: 'p1', target: { type: 'role', id: 'editor' } }],
+      ['policyUpdated', 'after', { policy: readPolicy }],
+      ['policyDeleted', 'after', { policyId: 'p1', cascade: true }]
+    ]);
+  });
+
+  it('should not make a change vetoed by a before-hook', async () => {
+    await accessControl.createUser({ id: 'alice', name: 'Alice' });
+    const after = jest.fn();
+    accessControl.hooks.before('roleAssigned', ({ roleId }, { actor }) => roleId !== 'editor' || actor === 'admin');
+    accessControl.hooks.after('roleAssigned', after);
+
+    await expect(accessControl.withActor('bob').assignRoleToUser('alice', 'editor')).rejects.toThrow(OperationVetoedError);
+    expect((await accessControl.getUser('alice')).roles).toEqual([]);
+    expect(after).not.toHaveBeenCalled();
+
+    await accessControl.withActor('admin').assignRoleToUser('alice', 'editor');
+    expect((await accessControl.getUser('alice')).roles).toEqual(['editor']);
+    expect(after).toHaveBeenCalledWith({ roleId: 'editor', target: { type: 'user', id: 'alice' } }, { actor: 'admin' });
+  });
+
+  it('should abort a change with the error thrown by a before-hook', async () => {
+    accessControl.hooks.before('policyDeleted', () => {
+      throw new Error('policies are frozen');
+    });
+
+    await expect(accessControl.deletePolicy('p1')).rejects.toThrow('policies are frozen');
+    expect(await accessControl.getPolicy('p1')).toEqual(readPolicy);
+  });
+
+  it('should pass access decisions to after-hooks', async () => {
+    await accessControl.createUser({ id: 'alice', name: 'Alice', policies: ['p1'] });
+    const decided = jest.fn();
+    accessControl.hooks.after('accessDecided', decided);
+
+    await accessControl.withActor('frontend').hasAccess('alice', 'read', 'document/1', { ip: '10.0.0.1' });
+
+    expect(decided).toHaveBeenCalledWith(
+      { userId: 'alice', action: 'read', resource: 'document/1', context: { ip: '10.0.0.1' }, allowed: true },
+      { actor: 'frontend' }
+    );
+  });
+
+  it('should pass each decision of a batch to after-hooks', async () => {
+    await accessControl.createUser({ id: 'alice', name: 'Alice', policies: ['p1'] });
+    const decided = jest.fn();
+    accessControl.hooks.after('accessDecided', decided);
+
+    await accessControl.hasAccessBatch('alice', [
+      { action: 'read', resource: 'document/1' },
+      { action: 'delete', resource: 'document/1' }
+    ]);
+
+    expect(decided.mock.calls.map(([decision]) => decision)).toEqual([
+      { userId: 'alice', action: 'read', resource: 'document/1', context: {}, allowed: true },
+      { userId: 'alice', action: 'delete', resource: 'document/1', context: {}, allowed: false }
+    ]);
+  });
+});
@@ -0,0 +1,180 @@
+import { evaluateConditions, parseConditionOperator, validateCondition } from '../../policy/conditions';
+
+describe('Condition operators', () => {
+  describe('parseConditionOperator', () => {
+    it('should resolve known operators', () => {
+      expect(parseConditionOperator('StringEquals')).toMatchObject({ name: 'StringEquals', ifExists: false });
+    });
+
+    it('should resolve the IfExists suffix', () => {
+      expect(parseConditionOperator('NumericLessThanIfExists')).toMatchObject({ name: 'NumericLessThan', ifExists: true });
+    });
+
+    it('should resolve set qualifiers', () => {
+      expect(parseConditionOperator('ForAllValues:StringLikeIfExists')).toMatchObject({
+        name: 'StringLike',
+        qualifier: 'ForAllValues',
+        ifExists: true
+      });
+      expect(parseConditionOperator('ForSomeValues:StringLike')).toBeUndefined();
+      expect(parseConditionOperator('ForAnyValue:Null')).toBeUndefined();
+    });
+
+    it('should return undefined for unknown operators', () => {
+      expect(parseConditionOperator('NumericLessThen')).toBeUndefined();
+      expect(parseConditionOperator('department')).toBeUndefined();
+    });
+  });
+
+  describe('evaluateConditions', () => {
+    it('should keep plain key-value equality', () => {
+      expect(evaluateConditions({ department: 'finance' }, { department: 'finance' })).toBe(true);
+      expect(evaluateConditions({ department: 'finance' }, { department: 'sales' })).toBe(false);
+    });
+
+    it('should evaluate string operators', () => {
+      expect(evaluateConditions({ StringEquals: { department: 'finance' } }, { department: 'finance' })).toBe(true);
+      expect(evaluateConditions({ StringNotEquals: { department: 'finance' } }, { department: 'sales' })).toBe(true);
+      expect(evaluateConditions({ StringEqualsIgnoreCase: { department: 'FINANCE' } }, { department: 'Finance' })).toBe(true);
+      expect(evaluateConditions({ StringLike: { department: 'fin*' } }, { department: 'finance' })).toBe(true);
+      expect(evaluateConditions({ StringLike: { code: 'a?c' } }, { code: 'abc' })).toBe(true);
+      expect(evaluateConditions({ StringNotLike: { department: 'fin*' } }, { department: 'finance' })).toBe(false);
+    });
+
+    it('should match any of a list of expected values', () => {
+      const condition = { StringEquals: { region: ['eu-west-1', 'eu-central-1'] } };
+
+      expect(evaluateConditions(condition, { region: 'eu-central-1' })).toBe(true);
+      expect(evaluateConditions(condition, { region: 'us-east-1' })).toBe(false);
+    });
+
+    it('should evaluate numeric operators', () => {
+      expect(evaluateConditions({ NumericLessThan: { amount: 1000 } }, { amount: 999 })).toBe(true);
+      expect(evaluateConditions({ NumericLessThan: { amount: 1000 } }, { amount: 1000 })).toBe(false);
+      expect(evaluateConditions({ NumericLessThanEquals: { amount: 1000 } }, { amount: '1000' })).toBe(true);
+      expect(evaluateConditions({ NumericGreaterThan: { amount: 10 } }, { amount: 'abc' })).toBe(false);
+    });
+
+    it('should evaluate date operators', () => {
+      const condition = { DateGreaterThan: { requestTime: '2025-01-01T00:00:00Z' } };
+
+      expect(evaluateConditions(condition, { requestTime: '2025-06-01T00:00:00Z' })).toBe(true);
+      expect(evaluateConditions(condition, { requestTime: new Date('2024-06-01T00:00:00Z') })).toBe(false);
+    });
+
+    it('should evaluate Bool', () => {
+      expect(evaluateConditions({ Bool: { mfa: true } }, { mfa: true })).toBe(true);
+      expect(evaluateConditions({ Bool: { mfa: 'true' } }, { mfa: true })).toBe(true);
+      expect(evaluateConditions({ Bool: { mfa: true } }, { mfa: false })).toBe(false);
+    });
+
+    it('should evaluate IpAddress and NotIpAddress', () => {
+      expect(evaluateConditions({ IpAddress: { sourceIp: '10.0.0.0/8' } }, { sourceIp: '10.20.30.40' })).toBe(true);
+      expect(evaluateConditions({ IpAddress: { sourceIp: '10.0.0.0/8' } }, { sourceIp: '192.168.1.1' })).toBe(false);
+      expect(evaluateConditions({ IpAddress: { sourceIp: '192.168.1.1' } }, { sourceIp: '192.168.1.1' })).toBe(true);
+      expect(evaluateConditions({ IpAddress: { sourceIp: '2001:db8::/32' } }, { sourceIp: '2001:db8::1' })).toBe(true);
+      expect(evaluateConditions({ IpAddress: { sourceIp: '2001:db8::/32' } }, { sourceIp: '10.0.0.1' })).toBe(false);
+      expect(evaluateConditions({ NotIpAddress: { sourceIp: '10.0.0.0/8' } }, { sourceIp: '192.168.1.1' })).toBe(true);
+    });
+
+    it('should evaluate Null', () => {
+      expect(evaluateConditions({ Null: { approver: true } }, {})).toBe(true);
+      expect(evaluateConditions({ Null: { approver: false } }, { approver: 'u1' })).toBe(true);
+      expect(evaluateConditions({ Null: { approver: false } }, {})).toBe(false);
+    });
+
+    it('should handle missing context keys', () => {
+      expect(evaluateConditions({ NumericLessThan: { amount: 1000 } }, {})).toBe(false);
+      expect(evaluateConditions({ NumericLessThanIfExists: { amount: 1000 } }, {})).toBe(true);
+      expect(evaluateConditions({ StringNotEquals: { department: 'finance' } }, {})).toBe(true);
+    });
+
+    it('should require every operator block and plain key to match', () => {
+      const condition = {
+        department: 'finance',
+        NumericLessThan: { amount: 1000 },
+        IpAddress: { sourceIp: '10.0.0.0/8' }
+      };
+
+      expect(evaluateConditions(condition, { department: 'finance', amount: 10, sourceIp: '10.1.1.1' })).toBe(true);
+      expect(evaluateConditions(condition, { department: 'finance', amount: 10, sourceIp: '11.1.1.1' })).toBe(false);
+    });
+
+    describe('multi-valued context keys', () => {
+      it('should match plain conditions when the context array contains the value', () => {
+        expect(evaluateConditions({ tag: 'public' }, { tag: ['draft', 'public'] })).toBe(true);
+        expect(evaluateConditions({ tag: 'public' }, { tag: ['draft'] })).toBe(false);
+      });
+
+      it('should match unqualified operators when any element matches', () => {
+        expect(evaluateConditions({ StringLike: { group: 'eng-*' } }, { group: ['sales', 'eng-core'] })).toBe(true);
+        expect(evaluateConditions({ StringNotEquals: { group: 'contractors' } }, { group: ['eng', 'contractors'] })).toBe(false);
+      });
+
+      it('should evaluate ForAnyValue', () => {
+        const condition = { 'ForAnyValue:StringEquals': { tags: ['public', 'shared'] } };
+
+        expect(evaluateConditions(condition, { tags: ['internal', 'shared'] })).toBe(true);
+        expect(evaluateConditions(condition, { tags: ['internal'] })).toBe(false);
+        expect(evaluateConditions(condition, { tags: [] })).toBe(false);
+        expect(evaluateConditions(condition, {})).toBe(false);
+        expect(evaluateConditions(condition, { tags: 'public' })).toBe(true);
+      });
+
+      it('should evaluate ForAllValues', () => {
+        const condition = { 'ForAllValues:StringLike': { tags: ['project-*', 'public'] } };
+
+        expect(evaluateConditions(condition, { tags: ['project-a', 'public'] })).toBe(true);
+        expect(evaluateConditions(condition, { tags: ['project-a', 'secret'] })).toBe(false);
+        expect(evaluateConditions(condition, { tags: [] })).toBe(true);
+        expect(evaluateConditions(condition, {})).toBe(true);
+      });
+
+      it('should apply negated operators per value with set qualifiers', () => {
+        const condition = { 'ForAllValues:StringNotEquals': { tags: 'secret' } };
+
+        expect(evaluateConditions(condition, { tags: ['public', 'draft'] })).toBe(true);
+        expect(evaluateConditions(condition, { tags: ['public', 'secret'] })).toBe(false);
+      });
+    });
+
+    it('should never match unknown operator blocks', () => {
+      expect(evaluateConditions({ NumericLessThen: { amount: 1000 } }, { amount: 1 })).toBe(false);
+    });
+  });
+
+  describe('validateCondition', () => {
+    it('should accept valid conditions', () => {
+      expect(validateCondition({
+        department: 'finance',
+        NumericLessThan: { amount: 1000 },
+        DateGreaterThan: { requestTime: '2025-01-01T00:00:00Z' },
+        IpAddress: { sourceIp: ['10.0.0.0/8', '::1'] },
+        Bool: { mfa: true },
+        Null: { approver: false }
+      })).toEqual([]);
+    });
+
+    it('should reject unknown operators', () => {
+      expect(validateCondition({ NumericLessThen: { amount: 1000 } })).toEqual([
+        'Unknown condition operator "NumericLessThen"'
+      ]);
+    });
+
+    it('should reject operands of the wrong type', () => {
+      expect(validateCondition({
+        NumericLessThan: { amount: 'lots' },
+        DateLessThan: { requestTime: 'tomorrow' },
+        IpAddress: { sourceIp: '10.0.0.0/33' },
+        Bool: { mfa: 'yes' },
+        StringEquals: { department: [] }
+      })).toEqual([
+        'Condition NumericLessThan.amount expects numeric values',
+        'Condition DateLessThan.requestTime expects valid dates',
+        'Condition IpAddress.sourceIp expects IP addresses or CIDR blocks',
+        'Condition Bool.mfa expects boolean values',
+        'Condition StringEquals.department must specify at least one value'
+      ]);
+    });
+  });
+});
@@ -1,5 +1,6 @@
-import { evaluate, evaluateCondition, matches, isStatementActive } from '../../policy/evaluator';
-import { Effect, Policy, PolicyStatement } from '../../models';
+import { collectStatementActions, evaluate, evaluateCondition, explain, matches, isStatementActive, statementMatches } from '../../policy/evaluator';
+import { DecisionReason, SkipReason } from '../../policy/types';
+import { Effect, Policy, PolicyStatement, Weekday } from '../../models';
 
 describe('Policy Evaluator', () => {
   describe('evaluateCondition', () => {
@@ -65,6 +66,35 @@ describe('Policy Evaluator', () => {
     });
   });
 
+  describe('statementMatches', () => {
+    it('should match Action and Resource patterns', () => {
+      const statement: PolicyStatement = { Effect: Effect.Allow, Action: ['read'], Resource: ['document/*'] };
+
+      expect(statementMatches(statement, 'read', 'document/1')).toBe(true);
+      expect(statementMatches(statement, 'write', 'document/1')).toBe(false);
+    });
+
+    it('should match every action except those in NotAction', () => {
+      const statement: PolicyStatement = { Effect: Effect.Deny, NotAction: ['read', 'list*'], Resource: ['*'] };
+
+      expect(statementMatches(statement, 'delete', 'document/1')).toBe(true);
+      expect(statementMatches(statement, 'read', 'document/1')).toBe(false);
+      expect(statementMatches(statement, 'listAll', 'document/1')).toBe(false);
+    });
+
+    it('should match every resource except those in NotResource', () => {
+      const statement: PolicyStatement = { Effect: Effect.Allow, Action: ['*'], NotResource: ['billing/*'] };
+
+      expect(statementMatches(statement, 'read', 'document/1')).toBe(true);
+      expect(statementMatches(statement, 'read', 'billing/invoice')).toBe(false);
+    });
+
+    it('should not match statements without action or resource elements', () => {
+      expect(statementMatches({ Effect: Effect.Allow, Resource: ['*'] }, 'read', 'document')).toBe(false);
+      expect(statementMatches({ Effect: Effect.Allow, Action: ['*'] }, 'read', 'document')).toBe(false);
+    });
+  });
+
   describe('isStatementActive', () => {
     // Define the fixed date for tests - May 1, 2025 12:00:00 UTC
     const testDate = new Date(Date.UTC(2025, 4, 1, 12, 0, 0));
@@ -179,6 +209,31 @@ describe('Policy Evaluator', () => {
       
       expect(isStatementActive(statement)).toBe(false);
     });
+
+    it('should return true only within the Schedule', () => {
+      // May 1, 2025 is a Thursday; 12:00 UTC is 14:00 in Berlin
+      const statement = (EndTime: string, Days: Weekday[] = ['Thu']): PolicyStatement => ({
+        Effect: Effect.Allow,
+        Action: ['read'],
+        Resource: ['document'],
+        Schedule: { Windows: [{ Days, StartTime: '09:00', EndTime }], TimeZone: 'Europe/Berlin' }
+      });
+
+      expect(isStatementActive(statement('18:00'))).toBe(true);
+      expect(isStatementActive(statement('13:00'))).toBe(false);
+      expect(isStatementActive(statement('18:00', ['Fri']))).toBe(false);
+    });
+
+    it('should return false when the Schedule time zone is invalid', () => {
+      const statement: PolicyStatement = {
+        Effect: Effect.Allow,
+        Action: ['read'],
+        Resource: ['document'],
+        Schedule: { Windows: [{ Days: ['Thu'], StartTime: '00:00', EndTime: '24:00' }], TimeZone: 'Mars/Olympus' }
+      };
+
+      expect(isStatementActive(statement)).toBe(false);
+    });
   });
 
   describe('evaluate', () => {
@@ -253,6 +308,90 @@ describe('Policy Evaluator', () => {
       expect(evaluate([policy], 'read', 'document', { department: 'marketing' })).toBe(false);
     });
 
+    it('should evaluate condition operators in statements', () => {
+      const policy = createPolicy('p1', [{
+        Effect: Effect.Allow,
+        Action: ['approve'],
+        Resource: ['invoice'],
+        Condition: { NumericLessThan: { amount: 1000 }, IpAddress: { sourceIp: '10.0.0.0/8' } }
+      }]);
+      
+      expect(evaluate([policy], 'approve', 'invoice', { amount: 500, sourceIp: '10.1.2.3' })).toBe(true);
+      expect(evaluate([policy], 'approve', 'invoice', { amount: 5000, sourceIp: '10.1.2.3' })).toBe(false);
+      expect(evaluate([policy], 'approve', 'invoice', { amount: 500, sourceIp: '172.16.0.1' })).toBe(false);
+    });
+
+    it('should evaluate conditions on Date values', () => {
+      const policy = createPolicy('p1', [{
+        Effect: Effect.Allow,
+        Action: ['read'],
+        Resource: ['report'],
+        Condition: { DateGreaterThan: { requestTime: new Date('2025-01-01T00:00:00Z') } }
+      }]);
+      
+      expect(evaluate([policy], 'read', 'report', { requestTime: new Date('2025-06-01T00:00:00Z') })).toBe(true);
+      expect(evaluate([policy], 'read', 'report', { requestTime: '2024-06-01T00:00:00Z' })).toBe(false);
+    });
+
+    it('should evaluate multi-valued context keys', () => {
+      const policy = createPolicy('p1', [{
+        Effect: Effect.Allow,
+        Action: ['read'],
+        Resource: ['document'],
+        Condition: { 'ForAnyValue:StringEquals': { tags: 'public' } }
+      }]);
+      
+      expect(evaluate([policy], 'read', 'document', { tags: ['draft', 'public'] })).toBe(true);
+      expect(evaluate([policy], 'read', 'document', { tags: ['draft'] })).toBe(false);
+    });
+
+    it('should resolve policy variables from the user and context', () => {
+      const policy = createPolicy('p1', [{
+        Effect: Effect.Allow,
+        Action: ['read'],
+        Resource: ['document/${user.id}/*', 'tenant/${context.tenantId}/*']
+      }]);
+      const user = { id: 'u1', name: 'Alice' };
+      
+      expect(evaluate([policy], 'read', 'document/u1/report', {}, user)).toBe(true);
+      expect(evaluate([policy], 'read', 'document/u2/report', {}, user)).toBe(false);
+      expect(evaluate([policy], 'read', 'tenant/t1/report', { tenantId: 't1' }, user)).toBe(true);
+      expect(evaluate([policy], 'read', 'document/u1/report')).toBe(false);
+    });
+
+    it('should not let substituted values act as StringLike wildcards', () => {
+      const policy = createPolicy('p1', [{
+        Effect: Effect.Allow,
+        Action: ['read'],
+        Resource: ['document'],
+        Condition: { StringLike: { owner: '${context.me}' } }
+      }]);
+
+      expect(evaluate([policy], 'read', 'document', { owner: 'bob', me: 'bob' })).toBe(true);
+      expect(evaluate([policy], 'read', 'document', { owner: 'bob', me: '???' })).toBe(false);
+      expect(evaluate([policy], 'read', 'document', { owner: 'bob', me: 'b*' })).toBe(false);
+    });
+
+    it('should apply NotAction and NotResource with deny-override', () => {
+      const policy = createPolicy('p1', [
+        {
+          Effect: Effect.Allow,
+          Action: ['*'],
+          NotResource: ['billing/*']
+        },
+        {
+          Effect: Effect.Deny,
+          NotAction: ['read'],
+          Resource: ['archive/*']
+        }
+      ]);
+      
+      expect(evaluate([policy], 'write', 'document/1')).toBe(true);
+      expect(evaluate([policy], 'read', 'billing/1')).toBe(false);
+      expect(evaluate([policy], 'read', 'archive/1')).toBe(true);
+      expect(evaluate([policy], 'write', 'archive/1')).toBe(false);
+    });
+
     it('should handle multiple statements in a policy', () => {
       const policy = createPolicy('p1', [
         {
@@ -376,4 +515,114 @@ describe('Policy Evaluator', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('explain', () => {
+    const createPolicy = (id: string, statements: PolicyStatement[]): Policy => ({
+      id,
+      document: {
+        Version: '2023-10-17',
+        Statement: statements
+      }
+    });
+
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(new Date(Date.UTC(2025, 4, 1, 12, 0, 0)));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should report an implicit deny when nothing matches', () => {
+      expect(explain([], 'read', 'document')).toEqual({
+        allowed: false,
+        effect: Effect.Deny,
+        reason: DecisionReason.ImplicitDeny,
+        matchedStatements: [],
+        skippedStatements: []
+      });
+    });
+
+    it('should report the matching allow statements', () => {
+      const policy = createPolicy('p1', [
+        { Effect: Effect.Allow, Action: ['write'], Resource: ['document'] },
+        { Effect: Effect.Allow, Action: ['read'], Resource: ['document'] }
+      ]);
+
+      const trace = explain([policy], 'read', 'document');
+
+      expect(trace.allowed).toBe(true);
+      expect(trace.effect).toBe(Effect.Allow);
+      expect(trace.reason).toBe(DecisionReason.Allowed);
+      expect(trace.matchedStatements).toEqual([{ policyId: 'p1', statementIndex: 1, effect: Effect.Allow }]);
+    });
+
+    it('should report an explicit deny along with overridden allows', () => {
+      const allowPolicy = createPolicy('p1', [{ Effect: Effect.Allow, Action: ['read'], Resource: ['*'] }]);
+      const denyPolicy = createPolicy('p2', [{ Effect: Effect.Deny, Action: ['read'], Resource: ['secret/*'] }]);
+
+      const trace = explain([allowPolicy, denyPolicy], 'read', 'secret/plan');
+
+      expect(trace.allowed).toBe(false);
+      expect(trace.reason).toBe(DecisionReason.ExplicitDeny);
+      expect(trace.matchedStatements).toEqual([
+        { policyId: 'p1', statementIndex: 0, effect: Effect.Allow },
+        { policyId: 'p2', statementIndex: 0, effect: Effect.Deny }
+      ]);
+    });
+
+    it('should report statements skipped because of dates, conditions or unresolved variables', () => {
+      const policy = createPolicy('p1', [
+        { Effect: Effect.Allow, Action: ['read'], Resource: ['document'], EndDate: '2025-04-01T00:00:00Z' },
+        { Effect: Effect.Deny, Action: ['read'], Resource: ['document'], Condition: { department: 'sales' } },
+        { Effect: Effect.Allow, Action: ['read'], Resource: ['document'], Condition: { owner: '${user.id}' } },
+        { Effect: Effect.Allow, Action: ['write'], Resource: ['document'], EndDate: '2025-04-01T00:00:00Z' }
+      ]);
+
+      const trace = explain([policy], 'read', 'document', { department: 'engineering' });
+
+      expect(trace.reason).toBe(DecisionReason.ImplicitDeny);
+      expect(trace.skippedStatements).toEqual([
+        { policyId: 'p1', statementIndex: 0, effect: Effect.Allow, reason: SkipReason.NotActive },
+        { policyId: 'p1', statementIndex: 1, effect: Effect.Deny, reason: SkipReason.ConditionNotMet },
+        { policyId: 'p1', statementIndex: 2, effect: Effect.Allow, reason: SkipReason.UnresolvedVariable }
+      ]);
+    });
+  });
+
+  describe('collectStatementActions', () => {
+    const policy = (...Statement: PolicyStatement[]): Policy => ({ id: 'p1', document: { Version: '2023-10-17', Statement } });
+
+    it('should list the actions of Allow statements covering the resource, once each', () => {
+      const policies = [
+        policy(
+          { Effect: Effect.Allow, Action: ['read', 'edit'], Resource: ['document/*'] },
+          { Effect: Effect.Allow, Action: ['publish'], Resource: ['report/*'] },
+          { Effect: Effect.Deny, Action: ['delete'], Resource: ['document/1'] }
+        ),
+        policy({ Effect: Effect.Allow, Action: ['edit', 'share'], NotResource: ['document/2'] })
+      ];
+
+      expect(collectStatementActions(policies, 'document/1')).toEqual({ actions: ['read', 'edit', 'share'], wildcard: false });
+    });
+
+    it('should report wildcard actions and NotAction instead of listing them', () => {
+      expect(collectStatementActions([policy({ Effect: Effect.Allow, Action: ['read', 'document:*'], Resource: ['*'] })], 'document/1'))
+        .toEqual({ actions: ['read'], wildcard: true });
+      expect(collectStatementActions([policy({ Effect: Effect.Allow, NotAction: ['delete'], Resource: ['*'] })], 'document/1'))
+        .toEqual({ actions: [], wildcard: true });
+    });
+
+    it('should skip statements that are inactive, unmet or unresolved', () => {
+      const policies = [policy(
+        { Effect: Effect.Allow, Action: ['*'], Resource: ['*'], EndDate: '2000-01-01T00:00:00Z' },
+        { Effect: Effect.Allow, Action: ['approve'], Resource: ['*'], Condition: { department: 'finance' } },
+        { Effect: Effect.Allow, Action: ['${context.operation}'], Resource: ['*'] },
+        { Effect: Effect.Allow, Action: ['read'], Resource: ['document/${user.id}'] }
+      )];
+
+      expect(collectStatementActions(policies, 'document/u1', { operation: 'export' }, { id: 'u1', name: 'Alice' }))
+        .toEqual({ actions: ['export', 'read'], wildcard: false });
+    });
+  });
+});
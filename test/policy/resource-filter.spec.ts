@@ -0,0 +1,174 @@
+import Database from 'better-sqlite3';
+import { partialEvaluate, toResourcePredicate, toSqlWhere } from '../../policy/resource-filter';
+import { evaluate } from '../../policy/evaluator';
+import { ValidationError } from '../../errors';
+import { Effect, Policy, PolicyStatement, User } from '../../models';
+
+describe('Resource Filters', () => {
+  const policy = (...Statement: PolicyStatement[]): Policy => ({ id: 'p1', document: { Version: '2023-10-17', Statement } });
+  const user: User = { id: 'alice', name: 'Alice' };
+
+  const resources = [
+    'document/1', 'document/2', 'document/secret/1', 'document/alice/notes', 'document/bob/notes',
+    'document/100%_done', 'Document/1', 'report/1', 'report/secret', 'image/1'
+  ];
+
+  const policies = [
+    policy(
+      { Effect: Effect.Allow, Action: ['read'], Resource: ['document/*', 'report/1'] },
+      { Effect: Effect.Allow, Action: ['read', 'edit'], Resource: ['image/1'] },
+      { Effect: Effect.Deny, Action: ['read'], Resource: ['document/secret/*'] },
+      { Effect: Effect.Deny, Action: ['*'], Resource: ['document/2'] }
+    ),
+    policy(
+      { Effect: Effect.Allow, NotAction: ['delete'], Resource: ['report/*'], Condition: { department: 'finance' } },
+      { Effect: Effect.Deny, Action: ['read'], NotResource: ['report/1', 'document/*', 'image/*'] },
+      { Effect: Effect.Allow, Action: ['edit'], Resource: ['document/${user.id}/*'] },
+      { Effect: Effect.Allow, Action: ['read'], Resource: ['*'], EndDate: '2000-01-01T00:00:00Z' }
+    )
+  ];
+
+  const allowedBy = (predicate: (resource: string) => boolean) => resources.filter(predicate);
+
+  describe('partialEvaluate', () => {
+    it('should merge patterns and keep the rules that apply to the action', () => {
+      expect(partialEvaluate(policies, 'read', '', {}, user)).toEqual({
+        prefix: '',
+        allow: [
+          { resources: ['document/*', 'report/1', 'image/1'] },
+          { resources: ['report/*'], condition: { department: 'finance' } }
+        ],
+        deny: [
+          { resources: ['document/secret/*', 'document/2'] },
+          { notResources: ['report/1', 'document/*', 'image/*'] }
+        ],
+        context: {}
+      });
+    });
+
+    it('should decide conditions whose keys are in the context', () => {
+      expect(partialEvaluate(policies, 'read', 'report/', { department: 'finance' }, user).allow)
+        .toEqual([{ resources: ['report/1', 'report/*'] }]);
+      expect(partialEvaluate(policies, 'read', 'report/', { department: 'sales' }, user).allow)
+        .toEqual([{ resources: ['report/1'] }]);
+    });
+
+    it('should drop patterns and exclusions that cannot match the prefix', () => {
+      expect(partialEvaluate(policies, 'read', 'document/', {}, user)).toEqual({
+        prefix: 'document/',
+        allow: [{ resources: ['document/*'] }],
+        deny: [{ resources: ['document/secret/*', 'document/2'] }],
+        context: {}
+      });
+    });
+
+    it('should turn an exclusion that cannot match the prefix into the whole prefix', () => {
+      const filter = partialEvaluate(
+        [policy({ Effect: Effect.Allow, Action: ['read'], NotResource: ['report/*'] })],
+        'read',
+        'document/'
+      );
+
+      expect(filter.allow).toEqual([{ resources: ['document/*'] }]);
+    });
+
+    it('should remove allowed resources that are denied', () => {
+      const filter = partialEvaluate(policies, 'edit', '', {}, user);
+
+      expect(filter.allow).toEqual([
+        { resources: ['image/1', 'document/alice/*'] },
+        { resources: ['report/*'], condition: { department: 'finance' } }
+      ]);
+      expect(filter.deny).toEqual([{ resources: ['document/2'] }]);
+
+      const noImage = partialEvaluate([...policies, policy({ Effect: Effect.Deny, Action: ['edit'], Resource: ['image/*'] })], 'edit', 'image/', {}, user);
+      expect(noImage).toEqual({ prefix: 'image/', allow: [], deny: [], context: {} });
+    });
+
+    it('should allow nothing if a Deny covers the whole prefix', () => {
+      expect(partialEvaluate(policies, 'read', 'document/secret/', {}, user))
+        .toEqual({ prefix: 'document/secret/', allow: [], deny: [], context: {} });
+    });
+  });
+
+  describe('toResourcePredicate', () => {
+    it.each([
+      ['read', '', {}],
+      ['read', 'document/', {}],
+      ['read', 'report/', { department: 'finance' }],
+      ['edit', '', {}],
+      ['delete', '', { department: 'finance' }]
+    ])('should allow the same resources as evaluate for %s on "%s"', (action, prefix, context) => {
+      const isAllowed = toResourcePredicate(partialEvaluate(policies, action, prefix, context, user));
+
+      expect(allowedBy(isAllowed)).toEqual(
+        allowedBy(resource => resource.startsWith(prefix) && evaluate(policies, action, resource, context, user))
+      );
+    });
+
+    it('should evaluate unresolved conditions with the context of each resource', () => {
+      const isAllowed = toResourcePredicate(partialEvaluate(policies, 'export', 'report/', {}, user));
+
+      expect(isAllowed('report/secret')).toBe(false);
+      expect(isAllowed('report/secret', { department: 'finance' })).toBe(true);
+      expect(isAllowed('document/1', { department: 'finance' })).toBe(false);
+    });
+  });
+
+  describe('toSqlWhere', () => {
+    let db: Database.Database;
+
+    beforeAll(() => {
+      db = new Database(':memory:');
+      db.pragma('case_sensitive_like = ON');
+      db.exec('CREATE TABLE documents (arn TEXT PRIMARY KEY)');
+      const insert = db.prepare('INSERT INTO documents (arn) VALUES (?)');
+      resources.forEach(resource => insert.run(resource));
+    });
+
+    afterAll(() => {
+      db.close();
+    });
+
+    const select = (sql: string, params: string[]): string[] =>
+      db.prepare(`SELECT arn FROM documents WHERE ${sql} ORDER BY rowid`).all(...params).map((row: any) => row.arn);
+
+    it.each([
+      ['read', '', { department: 'finance' }],
+      ['read', 'document/', {}],
+      ['read', 'document/secret/', {}],
+      ['edit', '', { department: 'sales' }]
+    ])('should select the same resources as evaluate for %s on "%s"', (action, prefix, context) => {
+      const { sql, params } = toSqlWhere(partialEvaluate(policies, action, prefix, context, user), { column: 'arn' });
+
+      expect(select(sql, params)).toEqual(
+        allowedBy(resource => resource.startsWith(prefix) && evaluate(policies, action, resource, context, user))
+      );
+    });
+
+    it('should escape LIKE wildcards in patterns', () => {
+      const filter = partialEvaluate([policy({ Effect: Effect.Allow, Action: ['read'], Resource: ['document/10_*'] })], 'read', 'document/');
+      const { sql, params } = toSqlWhere(filter, { column: 'arn' });
+
+      expect(params).toEqual(['document/%', 'document/10\\_%']);
+      expect(select(sql, params)).toEqual([]);
+    });
+
+    it('should number placeholders with the given style', () => {
+      const filter = partialEvaluate(policies, 'read', 'document/', {}, user);
+
+      expect(toSqlWhere(filter, { placeholder: index => `$${index}` })).toEqual({
+        sql: "resource LIKE $1 ESCAPE '\\' AND (resource LIKE $2 ESCAPE '\\') AND NOT (resource LIKE $3 ESCAPE '\\' OR resource = $4)",
+        params: ['document/%', 'document/%', 'document/secret/%', 'document/2']
+      });
+    });
+
+    it('should match nothing if nothing is allowed', () => {
+      expect(toSqlWhere(partialEvaluate([], 'read', ''))).toEqual({ sql: '1 = 0', params: [] });
+    });
+
+    it('should reject filters with unresolved conditions', () => {
+      expect(() => toSqlWhere(partialEvaluate(policies, 'read', 'report/', {}, user))).toThrow(ValidationError);
+    });
+  });
+});
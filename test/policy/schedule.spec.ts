@@ -0,0 +1,115 @@
+import { isWithinSchedule, validateSchedule } from '../../policy/schedule';
+import { Schedule } from '../../models';
+
+describe('Schedules', () => {
+  // 2 March 2026 is a Monday; Berlin is at UTC+1 until 29 March and at UTC+2 after
+  const businessHours: Schedule = {
+    Windows: [{ Days: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'], StartTime: '09:00', EndTime: '18:00' }],
+    TimeZone: 'Europe/Berlin'
+  };
+
+  describe('isWithinSchedule', () => {
+    it('should apply windows in the local time of the schedule', () => {
+      expect(isWithinSchedule(businessHours, new Date('2026-03-02T07:59:00Z'))).toBe(false);
+      expect(isWithinSchedule(businessHours, new Date('2026-03-02T08:00:00Z'))).toBe(true);
+      expect(isWithinSchedule(businessHours, new Date('2026-03-02T16:59:00Z'))).toBe(true);
+      expect(isWithinSchedule(businessHours, new Date('2026-03-02T17:00:00Z'))).toBe(false);
+      expect(isWithinSchedule(businessHours, new Date('2026-03-07T10:00:00Z'))).toBe(false);
+    });
+
+    it('should follow daylight saving time', () => {
+      expect(isWithinSchedule(businessHours, new Date('2026-03-02T07:30:00Z'))).toBe(false);
+      expect(isWithinSchedule(businessHours, new Date('2026-03-30T07:30:00Z'))).toBe(true);
+    });
+
+    it('should use the local day of the week', () => {
+      const mondayMorningInTokyo: Schedule = {
+        Windows: [{ Days: ['Mon'], StartTime: '08:00', EndTime: '09:00' }],
+        TimeZone: 'Asia/Tokyo'
+      };
+
+      expect(isWithinSchedule(mondayMorningInTokyo, new Date('2026-03-01T23:30:00Z'))).toBe(true);
+      expect(isWithinSchedule(mondayMorningInTokyo, new Date('2026-03-02T23:30:00Z'))).toBe(false);
+    });
+
+    it('should default to UTC and allow windows ending at the end of the day', () => {
+      const sundayEvening: Schedule = { Windows: [{ Days: ['Sun'], StartTime: '20:00', EndTime: '24:00' }] };
+
+      expect(isWithinSchedule(sundayEvening, new Date('2026-03-01T23:59:00Z'))).toBe(true);
+      expect(isWithinSchedule(sundayEvening, new Date('2026-03-02T00:00:00Z'))).toBe(false);
+    });
+
+    it('should continue windows ending before they start on the next day', () => {
+      const fridayNight: Schedule = { Windows: [{ Days: ['Fri'], StartTime: '22:00', EndTime: '06:00' }] };
+
+      expect(isWithinSchedule(fridayNight, new Date('2026-03-05T23:00:00Z'))).toBe(false);
+      expect(isWithinSchedule(fridayNight, new Date('2026-03-06T21:59:00Z'))).toBe(false);
+      expect(isWithinSchedule(fridayNight, new Date('2026-03-06T23:00:00Z'))).toBe(true);
+      expect(isWithinSchedule(fridayNight, new Date('2026-03-07T05:59:00Z'))).toBe(true);
+      expect(isWithinSchedule(fridayNight, new Date('2026-03-07T06:00:00Z'))).toBe(false);
+    });
+
+    it('should skip windows starting on exception dates', () => {
+      const withHoliday: Schedule = { ...businessHours, ExceptDates: ['2026-03-02'] };
+      const fridayNight: Schedule = {
+        Windows: [{ Days: ['Fri'], StartTime: '22:00', EndTime: '06:00' }],
+        ExceptDates: ['2026-03-06']
+      };
+
+      expect(isWithinSchedule(withHoliday, new Date('2026-03-02T10:00:00Z'))).toBe(false);
+      expect(isWithinSchedule(withHoliday, new Date('2026-03-03T10:00:00Z'))).toBe(true);
+      expect(isWithinSchedule(fridayNight, new Date('2026-03-07T05:00:00Z'))).toBe(false);
+    });
+
+    it('should never apply windows with invalid times', () => {
+      const invalidEnd: Schedule = { Windows: [{ Days: ['Tue'], StartTime: '09:00', EndTime: '6pm' }] };
+      const invalidStart: Schedule = { Windows: [{ Days: ['Mon'], StartTime: '9am', EndTime: '18:00' }] };
+
+      expect(isWithinSchedule(invalidEnd, new Date('2026-03-03T10:00:00Z'))).toBe(false);
+      expect(isWithinSchedule(invalidStart, new Date('2026-03-02T10:00:00Z'))).toBe(false);
+      expect(isWithinSchedule(invalidStart, new Date('2026-03-03T01:00:00Z'))).toBe(false);
+    });
+
+    it('should throw for unknown time zones', () => {
+      expect(() => isWithinSchedule({ ...businessHours, TimeZone: 'Mars/Olympus' })).toThrow(RangeError);
+    });
+  });
+
+  describe('validateSchedule', () => {
+    it('should accept valid schedules', () => {
+      expect(validateSchedule({
+        Windows: [
+          { Days: ['Mon', 'Fri'], StartTime: '09:00', EndTime: '18:00' },
+          { Days: ['Sat'], StartTime: '22:00', EndTime: '24:00' },
+          { Days: ['Sun'], StartTime: '23:00', EndTime: '01:30' }
+        ],
+        TimeZone: 'America/New_York',
+        ExceptDates: ['2026-12-25', '2028-02-29']
+      })).toEqual([]);
+    });
+
+    it('should reject invalid windows, time zones and dates', () => {
+      expect(validateSchedule({
+        Windows: [
+          { Days: [], StartTime: '9:00', EndTime: '25:00' },
+          { Days: ['Monday' as any], StartTime: '10:00', EndTime: '10:00' }
+        ],
+        TimeZone: 'Mars/Olympus',
+        ExceptDates: ['2026-02-30']
+      })).toEqual([
+        'Schedule window 0 must list at least one day',
+        'Schedule window 0 must have a StartTime in HH:MM format',
+        'Schedule window 0 must have an EndTime in HH:MM format',
+        'Schedule window 1 has an unknown day "Monday"; use Sun, Mon, Tue, Wed, Thu, Fri, Sat',
+        'Schedule window 1 must not start and end at the same time',
+        'Unknown time zone "Mars/Olympus"',
+        'ExceptDates must be dates in YYYY-MM-DD format'
+      ]);
+    });
+
+    it('should require at least one window', () => {
+      expect(validateSchedule({ Windows: [], TimeZone: 'UTC' })).toEqual(['Schedule must contain at least one window']);
+      expect(validateSchedule(null as any)).toEqual(['Schedule must be an object']);
+    });
+  });
+});
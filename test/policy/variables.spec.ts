@@ -0,0 +1,52 @@
+import { resolveStatement, resolveVariables } from '../../policy/variables';
+import { Effect, PolicyStatement, User } from '../../models';
+
+describe('Policy variables', () => {
+  const user: User = { id: 'u1', name: 'Alice' };
+  const variables = { user, context: { tenantId: 't1', tenant: { region: 'eu' }, level: 3, tags: ['a'] } };
+
+  describe('resolveVariables', () => {
+    it('should return strings without variables unchanged', () => {
+      expect(resolveVariables('document/*', variables)).toBe('document/*');
+    });
+
+    it('should substitute user and context variables', () => {
+      expect(resolveVariables('document/${user.id}/*', variables)).toBe('document/u1/*');
+      expect(resolveVariables('tenant/${context.tenantId}/${ user.name }', variables)).toBe('tenant/t1/Alice');
+      expect(resolveVariables('${context.tenant.region}-${context.level}', variables)).toBe('eu-3');
+    });
+
+    it('should return undefined for unresolvable variables', () => {
+      expect(resolveVariables('document/${context.missing}', variables)).toBeUndefined();
+      expect(resolveVariables('document/${context.tags}', variables)).toBeUndefined();
+      expect(resolveVariables('document/${user.id}', { context: {} })).toBeUndefined();
+    });
+
+    it('should not let substituted values act as wildcards', () => {
+      expect(resolveVariables('document/${context.id}', { context: { id: '*' } })).toBeUndefined();
+      expect(resolveVariables('document/${context.id}', { context: { id: '???' } })).toBeUndefined();
+    });
+  });
+
+  describe('resolveStatement', () => {
+    const statement: PolicyStatement = {
+      Effect: Effect.Allow,
+      Action: ['read'],
+      Resource: ['document/${user.id}/*', 'shared/${context.project}/*'],
+      Condition: { StringEquals: { tenantId: '${context.tenantId}' } }
+    };
+
+    it('should resolve Action, Resource and Condition values', () => {
+      expect(resolveStatement(statement, variables)).toEqual({
+        Effect: Effect.Allow,
+        Action: ['read'],
+        Resource: ['document/u1/*'],
+        Condition: { StringEquals: { tenantId: 't1' } }
+      });
+    });
+
+    it('should return undefined when a Condition variable cannot be resolved', () => {
+      expect(resolveStatement(statement, { user, context: {} })).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1 @@
+export * from './repository-conformance';
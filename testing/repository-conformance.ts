@@ -0,0 +1,942 @@
+/**
+ * Jest conformance suite for IBaseRepository implementations
+ * @module testing
+ */
+import { IBaseRepository, Page } from "../db/base-repo";
+import { Effect, Policy } from "../models";
+import {
+    DuplicateEntityError,
+    EntityInUseError,
+    GroupNotFoundError,
+    PolicyNotFoundError,
+    RoleNotFoundError,
+    UserNotFoundError
+} from "../errors";
+
+/**
+ * Options for runRepositoryConformanceTests
+ */
+export interface RepositoryConformanceOptions {
+    /**
+     * Called after each test with the repository it used, e.g. to close connections or drop tables
+     */
+    teardown?: (repository: IBaseRepository) => Promise<void> | void;
+}
+
+/**
+ * Creates an empty repository whose tables have been set up
+ */
+export type RepositoryFactory = () => Promise<IBaseRepository> | IBaseRepository;
+
+const conditionalPolicy: Policy = {
+    id: "conditional",
+    document: {
+        Version: "2023-10-17",
+        Statement: [
+            {
+                Effect: Effect.Allow,
+                Action: ["document:read", "document:list"],
+                Resource: ["document/${user.id}/*"],
+                Condition: {
+                    department: "finance",
+                    NumericLessThan: { amount: 1000 },
+                    "ForAnyValue:StringLike": { tags: ["project-*", "public"] },
+                    Bool: { mfa: true }
+                },
+                StartDate: "2025-01-01T00:00:00.000Z",
+                EndDate: "2030-12-31T23:59:59.000Z"
+            },
+            {
+                Effect: Effect.Deny,
+                NotAction: ["document:read"],
+                NotResource: ["document/public/*"]
+            }
+        ]
+    }
+};
+
+const simplePolicy = (id: string, action = "read"): Policy => ({
+    id,
+    document: {
+        Version: "2023-10-17",
+        Statement: [{ Effect: Effect.Allow, Action: [action], Resource: ["*"] }]
+    }
+});
+
+const sorted = (values: string[] | undefined): string[] => [...(values || [])].sort();
+
+const lastWeek = { endDate: "2020-01-08T00:00:00.000Z" };
+const nextWeek = { startDate: "2999-01-01T00:00:00.000Z", endDate: "2999-01-08T00:00:00.000Z" };
+
+/**
+ * Registers Jest tests checking that a repository behaves like DynamoDBRepository
+ *
+ * Call it inside a test file of your own. The factory is called before every test
+ * and must return an empty repository whose tables have been set up.
+ *
+ * @param factory - Creates the repository used by each test
+ * @param options - Optional hooks, such as a teardown run after each test
+ * @example
+ * import { runRepositoryConformanceTests } from "rbac-engine/dist/testing";
+ *
+ * describe("MongoRepository", () => {
+ *     runRepositoryConformanceTests(async () => {
+ *         const repository = new MongoRepository(await connect());
+ *         await repository.setupTables();
+ *         return repository;
+ *     });
+ * });
+ */
+export function runRepositoryConformanceTests(factory: RepositoryFactory, options: RepositoryConformanceOptions = {}): void {
+    describe("IBaseRepository conformance", () => {
+        let repository: IBaseRepository;
+
+        beforeEach(async () => {
+            repository = await factory();
+        });
+
+        afterEach(async () => {
+            if (options.teardown) {
+                await options.teardown(repository);
+            }
+        });
+
+        describe("setupTables", () => {
+            it("can be called again on an existing schema", async () => {
+                await expect(repository.setupTables()).resolves.toBeUndefined();
+            });
+        });
+
+        describe("users", () => {
+            it("creates and returns users with empty assignments", async () => {
+                await expect(repository.createUser({ id: "u1", name: "Alice" })).resolves.toEqual({ id: "u1", name: "Alice" });
+
+                expect(await repository.getUser("u1")).toEqual({ id: "u1", name: "Alice", roles: [], policies: [], groups: [], attributes: {} });
+            });
+
+            it("stores user attributes", async () => {
+                const attributes = { department: "sales", clearance: 3, regions: ["eu", "us"], remote: true };
+                await repository.createUser({ id: "u1", name: "Alice", attributes });
+
+                expect((await repository.getUser("u1")).attributes).toEqual(attributes);
+            });
+
+            it("updates a user's name, attributes and assignments but not their groups", async () => {
+                await repository.createPolicy(simplePolicy("p1"));
+                await repository.createUser({ id: "u1", name: "Alice", roles: ["r1"], attributes: { department: "sales" } });
+                await repository.createGroup({ id: "g1", name: "Staff", members: ["u1"] });
+
+                await expect(repository.updateUser({ id: "u1", name: "Alice Smith", roles: ["r2"], policies: ["p1"], attributes: { region: "eu" } }))
+                    .resolves.toMatchObject({ name: "Alice Smith" });
+
+                expect(await repository.getUser("u1")).toEqual({
+                    id: "u1",
+                    name: "Alice Smith",
+                    roles: ["r2"],
+                    policies: ["p1"],
+                    groups: ["g1"],
+                    attributes: { region: "eu" }
+                });
+                expect(await repository.getUsersWithRole("r1")).toEqual([]);
+                expect((await repository.getUsersWithRole("r2")).map(user => user.id)).toEqual(["u1"]);
+                expect((await repository.getUsersWithPolicy("p1")).map(user => user.id)).toEqual(["u1"]);
+            });
+
+            it("fails to update a missing user", async () => {
+                await expect(repository.updateUser({ id: "missing", name: "Nobody" })).rejects.toBeInstanceOf(UserNotFoundError);
+            });
+
+            it("deletes a user with their assignments and group memberships", async () => {
+                await repository.createPolicy(simplePolicy("p1"));
+                await repository.createRole({ id: "r1", name: "Reader" });
+                await repository.createUser({ id: "u1", name: "Alice", roles: ["r1"], policies: ["p1"] });
+                await repository.createUser({ id: "u2", name: "Bob" });
+                await repository.createGroup({ id: "g1", name: "Staff", members: ["u1", "u2"] });
+
+                await repository.deleteUser("u1");
+
+                await expect(repository.getUser("u1")).rejects.toBeInstanceOf(UserNotFoundError);
+                expect((await repository.getGroup("g1")).members).toEqual(["u2"]);
+                expect(await repository.getUsersWithRole("r1")).toEqual([]);
+                expect(await repository.getUsersWithPolicy("p1")).toEqual([]);
+                expect((await repository.listUsers()).items.map(user => user.id)).toEqual(["u2"]);
+
+                // Neither the role nor the policy is referenced any more
+                await repository.deleteRole("r1");
+                await repository.deletePolicy("p1");
+            });
+
+            it("fails to delete a missing user", async () => {
+                await expect(repository.deleteUser("missing")).rejects.toBeInstanceOf(UserNotFoundError);
+            });
+
+            it("fails to get a missing user", async () => {
+                await expect(repository.getUser("missing")).rejects.toThrow("User not found: missing");
+                await expect(repository.getUser("missing")).rejects.toMatchObject({ entityType: "User", entityId: "missing" });
+                await expect(repository.getUser("missing")).rejects.toBeInstanceOf(UserNotFoundError);
+            });
+
+            it("fails to create a user that exists", async () => {
+                await repository.createUser({ id: "u1", name: "Alice", roles: ["r1"] });
+
+                await expect(repository.createUser({ id: "u1", name: "Renamed" })).rejects.toBeInstanceOf(DuplicateEntityError);
+                expect(await repository.getUser("u1")).toMatchObject({ name: "Alice", roles: ["r1"] });
+            });
+
+            it("assigns roles idempotently and returns the updated user", async () => {
+                await repository.createRole({ id: "r1", name: "Reader" });
+                await repository.createUser({ id: "u1", name: "Alice" });
+
+                await repository.assignRoleToUser("u1", "r1");
+                const user = await repository.assignRoleToUser("u1", "r1");
+
+                expect(user.roles).toEqual(["r1"]);
+                expect((await repository.getUser("u1")).roles).toEqual(["r1"]);
+            });
+
+            it("removes roles and ignores roles that are not assigned", async () => {
+                await repository.createUser({ id: "u1", name: "Alice", roles: ["r1", "r2"] });
+
+                await repository.removeRoleFromUser("u1", "r1");
+                await repository.removeRoleFromUser("u1", "missing");
+
+                expect((await repository.getUser("u1")).roles).toEqual(["r2"]);
+            });
+
+            it("fails to change roles of a missing user", async () => {
+                await expect(repository.assignRoleToUser("missing", "r1")).rejects.toThrow("User not found: missing");
+                await expect(repository.removeRoleFromUser("missing", "r1")).rejects.toThrow("User not found: missing");
+            });
+
+            it("fails to assign missing roles", async () => {
+                await repository.createUser({ id: "u1", name: "Alice" });
+
+                await expect(repository.assignRoleToUser("u1", "missing")).rejects.toThrow("Role not found: missing");
+                await expect(repository.assignRoleToUser("u1", "missing", nextWeek)).rejects.toBeInstanceOf(RoleNotFoundError);
+                expect(await repository.getUser("u1")).toMatchObject({ roles: [] });
+                expect(await repository.getUsersWithRole("missing")).toEqual([]);
+            });
+
+            it("attaches policies idempotently and detaches them", async () => {
+                await repository.createPolicy(simplePolicy("p1"));
+                await repository.createPolicy(simplePolicy("p2"));
+                await repository.createUser({ id: "u1", name: "Alice" });
+
+                await repository.attachPolicyToUser("p1", "u1");
+                await repository.attachPolicyToUser("p2", "u1");
+                await repository.attachPolicyToUser("p1", "u1");
+                expect((await repository.getUser("u1")).policies).toEqual(["p1", "p2"]);
+
+                await repository.detachPolicyFromUser("p1", "u1");
+                await repository.detachPolicyFromUser("missing", "u1");
+                expect((await repository.getUser("u1")).policies).toEqual(["p2"]);
+            });
+
+            it("stores the validity windows of time-limited roles and policies", async () => {
+                await repository.createPolicy(simplePolicy("p1"));
+                await repository.createPolicy(simplePolicy("p2"));
+                await repository.createRole({ id: "r2", name: "Editor" });
+                await repository.createUser({ id: "u1", name: "Alice", roles: ["r1"] });
+
+                const user = await repository.assignRoleToUser("u1", "r2", nextWeek);
+                await repository.attachPolicyToUser("p1", "u1", lastWeek);
+                await repository.attachPolicyToUser("p2", "u1");
+
+                expect(user).toMatchObject({ roles: ["r1", "r2"], roleValidity: { r2: nextWeek } });
+                expect(await repository.getUser("u1")).toMatchObject({
+                    roles: ["r1", "r2"],
+                    policies: ["p1", "p2"],
+                    roleValidity: { r2: nextWeek },
+                    policyValidity: { p1: lastWeek }
+                });
+            });
+
+            it("replaces or removes the window when a role or policy is assigned again or removed", async () => {
+                await repository.createPolicy(simplePolicy("p1"));
+                await repository.createRole({ id: "r1", name: "Reader" });
+                await repository.createRole({ id: "r2", name: "Editor" });
+                await repository.createUser({ id: "u1", name: "Alice" });
+                await repository.assignRoleToUser("u1", "r1", nextWeek);
+                await repository.assignRoleToUser("u1", "r2", nextWeek);
+                await repository.attachPolicyToUser("p1", "u1", nextWeek);
+
+                await repository.assignRoleToUser("u1", "r1", lastWeek);
+                await repository.removeRoleFromUser("u1", "r2");
+                await repository.assignRoleToUser("u1", "r2");
+                await repository.attachPolicyToUser("p1", "u1");
+
+                const user = await repository.getUser("u1");
+                expect(user.roles).toEqual(["r1", "r2"]);
+                expect(user.roleValidity).toEqual({ r1: lastWeek });
+                expect(user.policyValidity || {}).toEqual({});
+            });
+
+            it("stores validity windows given on create and update", async () => {
+                await repository.createUser({ id: "u1", name: "Alice", roles: ["r1", "r2"], roleValidity: { r1: nextWeek, r3: lastWeek } });
+
+                expect((await repository.getUser("u1")).roleValidity).toEqual({ r1: nextWeek });
+
+                await repository.updateUser({ id: "u1", name: "Alice", roles: ["r2"], policies: ["p1"], roleValidity: { r2: lastWeek }, policyValidity: { p1: nextWeek } });
+
+                expect(await repository.getUser("u1")).toMatchObject({ roleValidity: { r2: lastWeek }, policyValidity: { p1: nextWeek } });
+            });
+
+            it("keeps the windows of remaining assignments when an update leaves them out", async () => {
+                await repository.createUser({
+                    id: "u1",
+                    name: "Alice",
+                    roles: ["r1", "r2"],
+                    policies: ["p1"],
+                    roleValidity: { r1: nextWeek, r2: lastWeek },
+                    policyValidity: { p1: nextWeek }
+                });
+
+                await repository.updateUser({ id: "u1", name: "Renamed", roles: ["r1", "r3"], policies: ["p1"] });
+                expect(await repository.getUser("u1")).toMatchObject({
+                    name: "Renamed",
+                    roles: ["r1", "r3"],
+                    roleValidity: { r1: nextWeek },
+                    policyValidity: { p1: nextWeek }
+                });
+
+                await repository.updateUser({ id: "u1", name: "Renamed", roles: ["r1", "r3"], policies: ["p1"], roleValidity: {} });
+                const user = await repository.getUser("u1");
+                expect(user.roleValidity || {}).toEqual({});
+                expect(user.policyValidity).toEqual({ p1: nextWeek });
+            });
+
+            it("fails to change policies of a missing user", async () => {
+                await expect(repository.attachPolicyToUser("p1", "missing")).rejects.toThrow("User not found: missing");
+                await expect(repository.detachPolicyFromUser("p1", "missing")).rejects.toThrow("User not found: missing");
+                await expect(repository.getUserPolicies("missing")).rejects.toThrow("User not found: missing");
+            });
+        });
+
+        describe("roles", () => {
+            it("creates and returns roles", async () => {
+                await expect(repository.createRole({ id: "r1", name: "Reader", policies: ["p1"], parentRoles: ["r0", "r2"] }))
+                    .resolves.toEqual({ id: "r1", name: "Reader", policies: ["p1"], parentRoles: ["r0", "r2"] });
+
+                const role = await repository.getRole("r1");
+                expect(role).toMatchObject({ id: "r1", name: "Reader", policies: ["p1"] });
+                expect(sorted(role.parentRoles)).toEqual(["r0", "r2"]);
+            });
+
+            it("fails to get a missing role", async () => {
+                await expect(repository.getRole("missing")).rejects.toThrow("Role not found: missing");
+                await expect(repository.getRole("missing")).rejects.toBeInstanceOf(RoleNotFoundError);
+            });
+
+            it("fails to create a role that exists", async () => {
+                await repository.createRole({ id: "r1", name: "Reader" });
+
+                await expect(repository.createRole({ id: "r1", name: "Renamed" }))
+                    .rejects.toMatchObject({ name: "DuplicateEntityError", entityType: "Role", entityId: "r1" });
+                expect((await repository.getRole("r1")).name).toBe("Reader");
+            });
+
+            it("replaces the name, policies and parent roles on update", async () => {
+                await repository.createRole({ id: "r1", name: "Reader", policies: ["p1"], parentRoles: ["r0"] });
+
+                await repository.updateRole({ id: "r1", name: "Renamed", policies: ["p2"] });
+
+                const role = await repository.getRole("r1");
+                expect(role).toMatchObject({ id: "r1", name: "Renamed", policies: ["p2"] });
+                expect(role.parentRoles || []).toEqual([]);
+            });
+
+            it("fails to update a missing role", async () => {
+                await expect(repository.updateRole({ id: "missing", name: "Missing" })).rejects.toBeInstanceOf(RoleNotFoundError);
+                await expect(repository.getRole("missing")).rejects.toBeInstanceOf(RoleNotFoundError);
+            });
+
+            it("deletes roles and ignores missing ones", async () => {
+                await repository.createRole({ id: "r1", name: "Reader" });
+
+                await repository.deleteRole("r1");
+                await repository.deleteRole("missing");
+
+                await expect(repository.getRole("r1")).rejects.toThrow("Role not found: r1");
+            });
+
+            it("attaches policies idempotently and detaches them", async () => {
+                await repository.createPolicy(simplePolicy("p1"));
+                await repository.createPolicy(simplePolicy("p2"));
+                await repository.createRole({ id: "r1", name: "Reader" });
+
+                await repository.attachPolicyToRole("p1", "r1");
+                await repository.attachPolicyToRole("p2", "r1");
+                await repository.attachPolicyToRole("p1", "r1");
+                expect((await repository.getRole("r1")).policies).toEqual(["p1", "p2"]);
+
+                await repository.detachPolicyFromRole("p1", "r1");
+                await repository.detachPolicyFromRole("missing", "r1");
+                expect((await repository.getRole("r1")).policies).toEqual(["p2"]);
+            });
+
+            it("stores the validity windows of time-limited policies", async () => {
+                await repository.createPolicy(simplePolicy("p1"));
+                await repository.createPolicy(simplePolicy("p2"));
+                await repository.createRole({ id: "r1", name: "Reader", policies: ["p3"], policyValidity: { p3: lastWeek } });
+
+                await repository.attachPolicyToRole("p1", "r1", nextWeek);
+                await repository.attachPolicyToRole("p2", "r1", lastWeek);
+                await repository.detachPolicyFromRole("p2", "r1");
+
+                expect(await repository.getRole("r1")).toMatchObject({ policies: ["p3", "p1"], policyValidity: { p3: lastWeek, p1: nextWeek } });
+
+                await repository.updateRole({ id: "r1", name: "Reader", policies: ["p1"], policyValidity: {} });
+
+                expect((await repository.getRole("r1")).policyValidity || {}).toEqual({});
+            });
+
+            it("keeps the windows of remaining policies when an update leaves them out", async () => {
+                await repository.createRole({ id: "r1", name: "Reader", policies: ["p1", "p2"], policyValidity: { p1: nextWeek, p2: lastWeek } });
+
+                await repository.updateRole({ id: "r1", name: "Renamed", policies: ["p1", "p3"] });
+
+                expect(await repository.getRole("r1")).toMatchObject({ name: "Renamed", policies: ["p1", "p3"], policyValidity: { p1: nextWeek } });
+            });
+
+            it("fails to change policies of a missing role", async () => {
+                await expect(repository.attachPolicyToRole("p1", "missing")).rejects.toThrow("Role not found: missing");
+                await expect(repository.detachPolicyFromRole("p1", "missing")).rejects.toThrow("Role not found: missing");
+                await expect(repository.getRolePolicies("missing")).rejects.toThrow("Role not found: missing");
+            });
+
+            it("adds parent roles idempotently and removes them", async () => {
+                await repository.createRole({ id: "r1", name: "Reader" });
+
+                await repository.addParentRole("r1", "r0");
+                await repository.addParentRole("r1", "r2");
+                await repository.addParentRole("r1", "r0");
+                expect(sorted((await repository.getRole("r1")).parentRoles)).toEqual(["r0", "r2"]);
+
+                await repository.removeParentRole("r1", "r0");
+                await repository.removeParentRole("r1", "missing");
+                expect((await repository.getRole("r1")).parentRoles).toEqual(["r2"]);
+            });
+
+            it("fails to change parent roles of a missing role", async () => {
+                await expect(repository.addParentRole("missing", "r0")).rejects.toBeInstanceOf(RoleNotFoundError);
+                await expect(repository.removeParentRole("missing", "r0")).rejects.toBeInstanceOf(RoleNotFoundError);
+            });
+        });
+
+        describe("policies", () => {
+            it("round-trips policy documents with conditions and dates", async () => {
+                await expect(repository.createPolicy(conditionalPolicy)).resolves.toEqual(conditionalPolicy);
+                await repository.createRole({ id: "r1", name: "Reader", policies: [conditionalPolicy.id] });
+
+                expect(await repository.getRolePolicies("r1")).toEqual([conditionalPolicy]);
+            });
+
+            it("gets policies by ID", async () => {
+                await repository.createPolicy(conditionalPolicy);
+
+                expect(await repository.getPolicy(conditionalPolicy.id)).toEqual(conditionalPolicy);
+                await expect(repository.getPolicy("missing")).rejects.toBeInstanceOf(PolicyNotFoundError);
+            });
+
+            it("returns user and role policies in attachment order", async () => {
+                await repository.createPolicy(simplePolicy("p1"));
+                await repository.createPolicy(simplePolicy("p2"));
+                await repository.createUser({ id: "u1", name: "Alice", policies: ["p2", "p1"] });
+                await repository.createRole({ id: "r1", name: "Reader", policies: ["p1", "p2"] });
+
+                expect(await repository.getUserPolicies("u1")).toEqual([simplePolicy("p2"), simplePolicy("p1")]);
+                expect(await repository.getRolePolicies("r1")).toEqual([simplePolicy("p1"), simplePolicy("p2")]);
+            });
+
+            it("replaces the document on update", async () => {
+                await repository.createPolicy(simplePolicy("p1"));
+                await repository.updatePolicy(simplePolicy("p1", "write"));
+                await repository.createUser({ id: "u1", name: "Alice", policies: ["p1"] });
+
+                expect(await repository.getUserPolicies("u1")).toEqual([simplePolicy("p1", "write")]);
+            });
+
+            it("fails to create a policy that exists", async () => {
+                await repository.createPolicy(simplePolicy("p1"));
+
+                await expect(repository.createPolicy(simplePolicy("p1", "write"))).rejects.toBeInstanceOf(DuplicateEntityError);
+            });
+
+            it("fails to update a missing policy", async () => {
+                await expect(repository.updatePolicy(simplePolicy("missing"))).rejects.toBeInstanceOf(PolicyNotFoundError);
+            });
+
+            it("fails to load attached policies that do not exist", async () => {
+                await repository.createUser({ id: "u1", name: "Alice", policies: ["p1"] });
+
+                await expect(repository.getUserPolicies("u1")).rejects.toThrow("Policy not found: p1");
+                await expect(repository.getUserPolicies("u1")).rejects.toBeInstanceOf(PolicyNotFoundError);
+            });
+        });
+
+        describe("referential integrity", () => {
+            it("fails to attach missing policies", async () => {
+                await repository.createUser({ id: "u1", name: "Alice" });
+                await repository.createRole({ id: "r1", name: "Reader" });
+                await repository.createGroup({ id: "g1", name: "Engineering" });
+
+                await expect(repository.attachPolicyToUser("missing", "u1")).rejects.toBeInstanceOf(PolicyNotFoundError);
+                await expect(repository.attachPolicyToRole("missing", "r1")).rejects.toBeInstanceOf(PolicyNotFoundError);
+                await expect(repository.attachPolicyToGroup("missing", "g1")).rejects.toBeInstanceOf(PolicyNotFoundError);
+                expect((await repository.getRole("r1")).policies).toEqual([]);
+            });
+
+            it("fails to assign missing roles to groups", async () => {
+                await repository.createGroup({ id: "g1", name: "Engineering" });
+
+                await expect(repository.assignRoleToGroup("g1", "missing")).rejects.toThrow("Role not found: missing");
+                await expect(repository.assignRoleToGroup("g1", "missing")).rejects.toBeInstanceOf(RoleNotFoundError);
+                expect((await repository.getGroup("g1")).roles).toEqual([]);
+            });
+
+            it("deletes unreferenced roles and policies and ignores missing ones", async () => {
+                await repository.createPolicy(simplePolicy("p1"));
+                await repository.createRole({ id: "r1", name: "Reader", policies: ["p1"] });
+
+                await repository.deleteRole("r1");
+                await repository.deletePolicy("p1");
+                await repository.deleteRole("missing");
+                await repository.deletePolicy("missing");
+
+                await expect(repository.getRole("r1")).rejects.toBeInstanceOf(RoleNotFoundError);
+                expect((await repository.listPolicies()).items).toEqual([]);
+            });
+
+            it("refuses to delete a policy that is still attached", async () => {
+                await repository.createPolicy(simplePolicy("p1"));
+                await repository.createUser({ id: "u1", name: "Alice", policies: ["p1"] });
+                await repository.createRole({ id: "r1", name: "Reader", policies: ["p1"] });
+                await repository.createGroup({ id: "g1", name: "Engineering", policies: ["p1"] });
+
+                const error = await repository.deletePolicy("p1").catch(err => err);
+
+                expect(error).toBeInstanceOf(EntityInUseError);
+                expect(error).toMatchObject({ entityType: "Policy", entityId: "p1" });
+                expect(error.references).toEqual(expect.arrayContaining([
+                    { entityType: "User", entityId: "u1" },
+                    { entityType: "Role", entityId: "r1" },
+                    { entityType: "Group", entityId: "g1" }
+                ]));
+                expect((await repository.listPolicies()).items).toEqual([simplePolicy("p1")]);
+                expect((await repository.getUser("u1")).policies).toEqual(["p1"]);
+            });
+
+            it("detaches a policy from every holder when the delete cascades", async () => {
+                await repository.createPolicy(simplePolicy("p1"));
+                await repository.createPolicy(simplePolicy("p2"));
+                await repository.createUser({ id: "u1", name: "Alice", policies: ["p1", "p2"] });
+                await repository.createRole({ id: "r1", name: "Reader", policies: ["p2", "p1"] });
+                await repository.createGroup({ id: "g1", name: "Engineering", policies: ["p1"] });
+
+                await repository.deletePolicy("p1", { cascade: true });
+
+                expect((await repository.listPolicies()).items).toEqual([simplePolicy("p2")]);
+                expect(await repository.getUserPolicies("u1")).toEqual([simplePolicy("p2")]);
+                expect(await repository.getRolePolicies("r1")).toEqual([simplePolicy("p2")]);
+                expect((await repository.getGroup("g1")).policies).toEqual([]);
+                expect(await repository.getRolesWithPolicy("p1")).toEqual([]);
+                expect(await repository.getUsersWithPolicy("p1")).toEqual([]);
+            });
+
+            it("removes the validity windows of cascaded deletes", async () => {
+                await repository.createPolicy(simplePolicy("p1"));
+                await repository.createPolicy(simplePolicy("p2"));
+                await repository.createRole({ id: "r1", name: "Reader" });
+                await repository.createUser({ id: "u1", name: "Alice" });
+                await repository.assignRoleToUser("u1", "r1", nextWeek);
+                await repository.attachPolicyToUser("p1", "u1", nextWeek);
+                await repository.attachPolicyToUser("p2", "u1", lastWeek);
+                await repository.attachPolicyToRole("p1", "r1", nextWeek);
+
+                await repository.deletePolicy("p1", { cascade: true });
+                await repository.deleteRole("r1", { cascade: true });
+
+                const user = await repository.getUser("u1");
+                expect(user.roleValidity || {}).toEqual({});
+                expect(user.policyValidity).toEqual({ p2: lastWeek });
+            });
+
+            it("refuses to delete a role that is still referenced", async () => {
+                await repository.createUser({ id: "u1", name: "Alice", roles: ["r1"] });
+                await repository.createRole({ id: "r1", name: "Reader" });
+                await repository.createRole({ id: "r2", name: "Editor", parentRoles: ["r1"] });
+                await repository.createGroup({ id: "g1", name: "Engineering", roles: ["r1"] });
+
+                const error = await repository.deleteRole("r1").catch(err => err);
+
+                expect(error).toBeInstanceOf(EntityInUseError);
+                expect(error.references).toEqual(expect.arrayContaining([
+                    { entityType: "User", entityId: "u1" },
+                    { entityType: "Group", entityId: "g1" },
+                    { entityType: "Role", entityId: "r2" }
+                ]));
+                expect(error.references).toHaveLength(3);
+                expect(await repository.getRole("r1")).toMatchObject({ id: "r1", name: "Reader" });
+            });
+
+            it("removes a role from every holder when the delete cascades", async () => {
+                await repository.createUser({ id: "u1", name: "Alice", roles: ["r1", "r2"] });
+                await repository.createRole({ id: "r1", name: "Reader" });
+                await repository.createRole({ id: "r2", name: "Editor", parentRoles: ["r1", "r0"] });
+                await repository.createGroup({ id: "g1", name: "Engineering", roles: ["r1"] });
+
+                await repository.deleteRole("r1", { cascade: true });
+
+                await expect(repository.getRole("r1")).rejects.toBeInstanceOf(RoleNotFoundError);
+                expect((await repository.getUser("u1")).roles).toEqual(["r2"]);
+                expect((await repository.getGroup("g1")).roles).toEqual([]);
+                expect((await repository.getRole("r2")).parentRoles).toEqual(["r0"]);
+                expect(await repository.getUsersWithRole("r1")).toEqual([]);
+            });
+
+            it("deletes a role listed as its own parent", async () => {
+                await repository.createRole({ id: "r1", name: "Reader", parentRoles: ["r1"] });
+
+                await repository.deleteRole("r1");
+
+                await expect(repository.getRole("r1")).rejects.toBeInstanceOf(RoleNotFoundError);
+            });
+        });
+
+        describe("reverse lookups", () => {
+            const ids = (entities: { id: string }[]): string[] => entities.map(entity => entity.id);
+
+            it("finds nothing for unknown roles and policies", async () => {
+                expect(await repository.getUsersWithRole("missing")).toEqual([]);
+                expect(await repository.getRolesWithPolicy("missing")).toEqual([]);
+                expect(await repository.getUsersWithPolicy("missing")).toEqual([]);
+            });
+
+            it("finds the users holding a role as assignments change", async () => {
+                await repository.createRole({ id: "r1", name: "Reader" });
+                await repository.createUser({ id: "u2", name: "Bob", roles: ["r1"] });
+                await repository.createUser({ id: "u1", name: "Alice" });
+                await repository.createUser({ id: "u3", name: "Carol", roles: ["r2"] });
+
+                await repository.assignRoleToUser("u1", "r1");
+                expect(await repository.getUsersWithRole("r1")).toEqual([
+                    { id: "u1", name: "Alice", roles: ["r1"], policies: [], groups: [], attributes: {} },
+                    { id: "u2", name: "Bob", roles: ["r1"], policies: [], groups: [], attributes: {} }
+                ]);
+
+                await repository.removeRoleFromUser("u2", "r1");
+                expect(ids(await repository.getUsersWithRole("r1"))).toEqual(["u1"]);
+                expect(ids(await repository.getUsersWithRole("r2"))).toEqual(["u3"]);
+            });
+
+            it("does not count roles received through a group", async () => {
+                await repository.createUser({ id: "u1", name: "Alice" });
+                await repository.createGroup({ id: "g1", name: "Engineering", members: ["u1"], roles: ["r1"] });
+
+                expect(await repository.getUsersWithRole("r1")).toEqual([]);
+            });
+
+            it("finds the roles carrying a policy as attachments change", async () => {
+                await repository.createPolicy(simplePolicy("p1"));
+                await repository.createRole({ id: "r2", name: "Editor", policies: ["p1"] });
+                await repository.createRole({ id: "r1", name: "Reader" });
+                await repository.createRole({ id: "r3", name: "Admin", policies: ["p1", "p2"] });
+
+                await repository.attachPolicyToRole("p1", "r1");
+                expect(ids(await repository.getRolesWithPolicy("p1"))).toEqual(["r1", "r2", "r3"]);
+
+                await repository.detachPolicyFromRole("p1", "r1");
+                await repository.updateRole({ id: "r2", name: "Editor", policies: ["p2"] });
+                expect(ids(await repository.getRolesWithPolicy("p1"))).toEqual(["r3"]);
+                expect(await repository.getRolesWithPolicy("p2")).toMatchObject([
+                    { id: "r2", name: "Editor", policies: ["p2"] },
+                    { id: "r3", name: "Admin", policies: ["p1", "p2"] }
+                ]);
+
+                await repository.deleteRole("r3");
+                expect(await repository.getRolesWithPolicy("p1")).toEqual([]);
+            });
+
+            it("finds the users carrying a policy as attachments change", async () => {
+                await repository.createPolicy(simplePolicy("p1"));
+                await repository.createUser({ id: "u1", name: "Alice", policies: ["p1"] });
+                await repository.createUser({ id: "u2", name: "Bob" });
+
+                await repository.attachPolicyToUser("p1", "u2");
+                expect(ids(await repository.getUsersWithPolicy("p1"))).toEqual(["u1", "u2"]);
+
+                await repository.detachPolicyFromUser("p1", "u1");
+                expect(await repository.getUsersWithPolicy("p1")).toEqual([
+                    { id: "u2", name: "Bob", roles: [], policies: ["p1"], groups: [], attributes: {} }
+                ]);
+            });
+        });
+
+        describe("effective policies", () => {
+            // getEffectivePolicies is optional, so these tests only check repositories implementing it
+
+            it("loads a user's policies with the attachment each came from", async () => {
+                if (!repository.getEffectivePolicies) {
+                    return;
+                }
+                for (const policyId of ["p1", "p2", "p3", "p4", "p5"]) {
+                    await repository.createPolicy(simplePolicy(policyId));
+                }
+                await repository.createRole({ id: "r0", name: "Base", policies: ["p4"] });
+                await repository.createRole({ id: "r1", name: "Reader", policies: ["p3"], parentRoles: ["r0"] });
+                await repository.createRole({ id: "r2", name: "Writer", policies: ["p5", "p3"] });
+                await repository.createUser({ id: "u1", name: "Alice", roles: ["r1"], policies: ["p1"], attributes: { region: "eu" } });
+                await repository.createGroup({ id: "g1", name: "Staff", members: ["u1"], roles: ["r2"], policies: ["p2"] });
+
+                const { user, policies } = await repository.getEffectivePolicies("u1");
+
+                expect(user).toMatchObject({ id: "u1", groups: ["g1"], attributes: { region: "eu" } });
+                expect(policies.map(({ policy, source }) => [policy.id, source])).toEqual([
+                    ["p1", { type: "user", id: "u1" }],
+                    ["p2", { type: "group", id: "g1" }],
+                    ["p3", { type: "role", id: "r1" }],
+                    ["p5", { type: "role", id: "r2", group: "g1" }],
+                    ["p3", { type: "role", id: "r2", group: "g1" }],
+                    ["p4", { type: "role", id: "r0", via: "r1" }]
+                ]);
+                expect(policies[0].policy).toEqual(simplePolicy("p1"));
+            });
+
+            it("skips roles and policies outside their validity window", async () => {
+                if (!repository.getEffectivePolicies) {
+                    return;
+                }
+                for (const policyId of ["p1", "p2", "p3", "p4"]) {
+                    await repository.createPolicy(simplePolicy(policyId));
+                }
+                await repository.createRole({ id: "r1", name: "Reader", policies: ["p3"] });
+                await repository.createRole({ id: "r2", name: "Writer", policies: ["p4"] });
+                await repository.createUser({ id: "u1", name: "Alice", roles: ["r1"] });
+                await repository.assignRoleToUser("u1", "r2", lastWeek);
+                await repository.attachPolicyToUser("p1", "u1", nextWeek);
+                await repository.attachPolicyToUser("p2", "u1", { startDate: lastWeek.endDate });
+                await repository.attachPolicyToRole("p1", "r1", lastWeek);
+
+                const { user, policies } = await repository.getEffectivePolicies("u1");
+
+                expect(user.roles).toEqual(["r1", "r2"]);
+                expect(policies.map(({ policy }) => policy.id)).toEqual(["p2", "p3"]);
+            });
+
+            it("tolerates role hierarchy cycles", async () => {
+                if (!repository.getEffectivePolicies) {
+                    return;
+                }
+                await repository.createPolicy(simplePolicy("p1"));
+                await repository.createRole({ id: "r1", name: "Reader", policies: ["p1"], parentRoles: ["r2"] });
+                await repository.createRole({ id: "r2", name: "Writer", parentRoles: ["r1"] });
+                await repository.createUser({ id: "u1", name: "Alice", roles: ["r1"] });
+
+                const { policies } = await repository.getEffectivePolicies("u1");
+
+                expect(policies.map(({ policy }) => policy.id)).toEqual(["p1"]);
+            });
+
+            it("fails for a missing user", async () => {
+                if (!repository.getEffectivePolicies) {
+                    return;
+                }
+                await expect(repository.getEffectivePolicies("missing")).rejects.toBeInstanceOf(UserNotFoundError);
+            });
+        });
+
+        describe("listing", () => {
+            const listAll = async <T>(list: (cursor?: string) => Promise<Page<T>>): Promise<T[]> => {
+                const items: T[] = [];
+                let cursor: string | undefined;
+                do {
+                    const page = await list(cursor);
+                    items.push(...page.items);
+                    cursor = page.nextCursor;
+                } while (cursor);
+                return items;
+            };
+
+            it("returns empty pages when nothing is stored", async () => {
+                expect((await repository.listUsers()).items).toEqual([]);
+                expect((await repository.listRoles()).items).toEqual([]);
+                expect((await repository.listPolicies()).items).toEqual([]);
+            });
+
+            it("lists users ordered by ID across pages", async () => {
+                await repository.createUser({ id: "u3", name: "Carol" });
+                await repository.createUser({ id: "u1", name: "Alice", roles: ["r1"] });
+                await repository.createUser({ id: "u2", name: "Bob" });
+
+                const first = await repository.listUsers({ limit: 2 });
+                expect(first.items.length).toBeLessThanOrEqual(2);
+                expect(first.nextCursor).toBeDefined();
+
+                const users = await listAll(cursor => repository.listUsers({ limit: 2, cursor }));
+                expect(users.map(user => user.id)).toEqual(["u1", "u2", "u3"]);
+                expect(users[0]).toEqual({ id: "u1", name: "Alice", roles: ["r1"], policies: [], groups: [], attributes: {} });
+            });
+
+            it("filters users and roles by name prefix", async () => {
+                await repository.createUser({ id: "u1", name: "Alice" });
+                await repository.createUser({ id: "u2", name: "Bob" });
+                await repository.createUser({ id: "u3", name: "Alfred" });
+                await repository.createRole({ id: "r1", name: "Reader", policies: ["p1"] });
+                await repository.createRole({ id: "r2", name: "Admin" });
+
+                const users = await listAll(cursor => repository.listUsers({ limit: 1, cursor, prefix: "Al" }));
+                expect(users.map(user => user.id)).toEqual(["u1", "u3"]);
+
+                const roles = await listAll(cursor => repository.listRoles({ cursor, prefix: "Re" }));
+                expect(roles).toMatchObject([{ id: "r1", name: "Reader", policies: ["p1"] }]);
+            });
+
+            it("lists policies filtered by ID prefix", async () => {
+                await repository.createPolicy(simplePolicy("billing-read"));
+                await repository.createPolicy(simplePolicy("docs-read"));
+                await repository.createPolicy(simplePolicy("billing-write", "write"));
+
+                const policies = await listAll(cursor => repository.listPolicies({ limit: 1, cursor, prefix: "billing-" }));
+                expect(policies).toEqual([simplePolicy("billing-read"), simplePolicy("billing-write", "write")]);
+            });
+
+            it("does not list other entity types", async () => {
+                await repository.createUser({ id: "x1", name: "Alice" });
+                await repository.createGroup({ id: "x2", name: "Admins" });
+
+                expect((await repository.listRoles()).items).toEqual([]);
+                expect((await listAll(cursor => repository.listUsers({ cursor }))).map(user => user.id)).toEqual(["x1"]);
+            });
+        });
+
+        describe("groups", () => {
+            beforeEach(async () => {
+                await repository.createUser({ id: "u1", name: "Alice" });
+                await repository.createUser({ id: "u2", name: "Bob" });
+            });
+
+            it("creates groups and adds their members", async () => {
+                const group = { id: "g1", name: "Engineering", members: ["u1"], roles: ["r1"], policies: ["p1"] };
+                await expect(repository.createGroup(group)).resolves.toEqual(group);
+
+                expect(await repository.getGroup("g1")).toEqual(group);
+                expect((await repository.getUser("u1")).groups).toEqual(["g1"]);
+            });
+
+            it("fails to create a group with a missing member", async () => {
+                await expect(repository.createGroup({ id: "g1", name: "Engineering", members: ["missing"] }))
+                    .rejects.toThrow("User not found: missing");
+            });
+
+            it("adds users created with groups to the members of those groups", async () => {
+                await repository.createGroup({ id: "g1", name: "Engineering", members: ["u1"] });
+                await repository.createGroup({ id: "g2", name: "Platform" });
+
+                await repository.createUser({ id: "u3", name: "Carol", groups: ["g1", "g2", "g1"] });
+
+                expect((await repository.getUser("u3")).groups).toEqual(["g1", "g2"]);
+                expect((await repository.getGroup("g1")).members).toEqual(["u1", "u3"]);
+                expect((await repository.getGroup("g2")).members).toEqual(["u3"]);
+            });
+
+            it("fails to create a user in a missing group", async () => {
+                await expect(repository.createUser({ id: "u3", name: "Carol", groups: ["missing"] }))
+                    .rejects.toBeInstanceOf(GroupNotFoundError);
+                await expect(repository.getUser("u3")).rejects.toBeInstanceOf(UserNotFoundError);
+            });
+
+            it("fails to get a missing group", async () => {
+                await expect(repository.getGroup("missing")).rejects.toThrow("Group not found: missing");
+                await expect(repository.getGroup("missing")).rejects.toBeInstanceOf(GroupNotFoundError);
+            });
+
+            it("fails to create a group that exists", async () => {
+                await repository.createGroup({ id: "g1", name: "Engineering" });
+
+                await expect(repository.createGroup({ id: "g1", name: "Platform" })).rejects.toBeInstanceOf(DuplicateEntityError);
+                expect((await repository.getGroup("g1")).name).toBe("Engineering");
+            });
+
+            it("keeps members on update", async () => {
+                await repository.createGroup({ id: "g1", name: "Engineering", members: ["u1"], roles: ["r1"] });
+
+                await repository.updateGroup({ id: "g1", name: "Platform", members: [], roles: ["r2"], policies: ["p1"] });
+
+                expect(await repository.getGroup("g1")).toEqual({ id: "g1", name: "Platform", members: ["u1"], roles: ["r2"], policies: ["p1"] });
+            });
+
+            it("fails to update a missing group", async () => {
+                await expect(repository.updateGroup({ id: "missing", name: "Missing" })).rejects.toBeInstanceOf(GroupNotFoundError);
+            });
+
+            it("adds and removes members on both sides idempotently", async () => {
+                await repository.createGroup({ id: "g1", name: "Engineering" });
+
+                await repository.addUserToGroup("u1", "g1");
+                await repository.addUserToGroup("u2", "g1");
+                await repository.addUserToGroup("u1", "g1");
+                expect((await repository.getGroup("g1")).members).toEqual(["u1", "u2"]);
+                expect((await repository.getUser("u1")).groups).toEqual(["g1"]);
+
+                await repository.removeUserFromGroup("u1", "g1");
+                expect((await repository.getGroup("g1")).members).toEqual(["u2"]);
+                expect((await repository.getUser("u1")).groups).toEqual([]);
+            });
+
+            it("fails to change membership of a missing user or group", async () => {
+                await repository.createGroup({ id: "g1", name: "Engineering" });
+
+                await expect(repository.addUserToGroup("missing", "g1")).rejects.toThrow("User not found: missing");
+                await expect(repository.addUserToGroup("u1", "missing")).rejects.toThrow("Group not found: missing");
+                await expect(repository.removeUserFromGroup("u1", "missing")).rejects.toThrow("Group not found: missing");
+            });
+
+            it("assigns roles and attaches policies idempotently", async () => {
+                await repository.createPolicy(simplePolicy("p1"));
+                await repository.createRole({ id: "r1", name: "Reader" });
+                await repository.createGroup({ id: "g1", name: "Engineering" });
+
+                await repository.assignRoleToGroup("g1", "r1");
+                await repository.assignRoleToGroup("g1", "r1");
+                await repository.attachPolicyToGroup("p1", "g1");
+                await repository.attachPolicyToGroup("p1", "g1");
+
+                expect(await repository.getGroup("g1")).toMatchObject({ roles: ["r1"], policies: ["p1"] });
+                expect(await repository.getGroupPolicies("g1")).toEqual([simplePolicy("p1")]);
+            });
+
+            it("removes roles and detaches policies, ignoring missing IDs", async () => {
+                await repository.createGroup({ id: "g1", name: "Engineering", roles: ["r1", "r2"], policies: ["p1", "p2"] });
+
+                await repository.removeRoleFromGroup("g1", "r1");
+                await repository.removeRoleFromGroup("g1", "missing");
+                await repository.detachPolicyFromGroup("p1", "g1");
+                await repository.detachPolicyFromGroup("missing", "g1");
+
+                expect(await repository.getGroup("g1")).toMatchObject({ roles: ["r2"], policies: ["p2"] });
+            });
+
+            it("fails to change roles and policies of a missing group", async () => {
+                await expect(repository.assignRoleToGroup("missing", "r1")).rejects.toThrow("Group not found: missing");
+                await expect(repository.removeRoleFromGroup("missing", "r1")).rejects.toThrow("Group not found: missing");
+                await expect(repository.attachPolicyToGroup("p1", "missing")).rejects.toThrow("Group not found: missing");
+                await expect(repository.detachPolicyFromGroup("p1", "missing")).rejects.toThrow("Group not found: missing");
+                await expect(repository.getGroupPolicies("missing")).rejects.toThrow("Group not found: missing");
+            });
+
+            it("removes deleted groups from their members", async () => {
+                await repository.createGroup({ id: "g1", name: "Engineering", members: ["u1", "u2"] });
+
+                await repository.deleteGroup("g1");
+
+                await expect(repository.getGroup("g1")).rejects.toThrow("Group not found: g1");
+                expect((await repository.getUser("u1")).groups).toEqual([]);
+                expect((await repository.getUser("u2")).groups).toEqual([]);
+            });
+
+            it("fails to delete a missing group", async () => {
+                await expect(repository.deleteGroup("missing")).rejects.toThrow("Group not found: missing");
+            });
+        });
+    });
+}